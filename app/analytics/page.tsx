@@ -1,12 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAppStore } from '@/lib/store';
 import { DemoProvider } from '@/components/common/demo-provider';
 import NavMenu from '@/components/nav-menu';
 import { AnomalySettings } from '@/components/anomaly/anomaly-settings';
 import { AnalyticsDashboard } from '@/components/analytics/analytics-dashboard';
-import { AnomalyRule, runAllAnomalyDetection } from '@/lib/anomaly-detector';
+import { AnomalyDetectionProgress, AnomalyDetectionWorker, AnomalyRule, createAnomalyDetectionWorker } from '@/lib/anomaly-detector';
+import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { 
   BarChart3, 
@@ -25,6 +26,9 @@ function AnalyticsContent() {
   const [isRunning, setIsRunning] = useState(false);
   const [currentRules, setCurrentRules] = useState<AnomalyRule[]>([]);
   const [detectionResults, setDetectionResults] = useState<any>(null);
+  const [progress, setProgress] = useState<AnomalyDetectionProgress | null>(null);
+  const detectorRef = useRef<AnomalyDetectionWorker | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const walkthroughTarget = useWalkthroughTarget('anomaly-detection');
 
@@ -34,6 +38,11 @@ function AnalyticsContent() {
     }
   }, [currentRules]);
 
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    detectorRef.current?.terminate();
+  }, []);
+
   const handleRunDetection = async () => {
     if (!currentCase) {
       toast.error('No active case selected');
@@ -46,11 +55,18 @@ function AnalyticsContent() {
     }
 
     setIsRunning(true);
+    setProgress(null);
     toast.info('Running anomaly detection...');
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      // Run anomaly detection with current rules
-      const detectedAnomalies = await runAllAnomalyDetection(records, currentRules);
+      // Run anomaly detection with current rules, off the main thread where workers are available
+      detectorRef.current ??= createAnomalyDetectionWorker();
+      const detectedAnomalies = await detectorRef.current.detectAnomalies(records, currentRules, {
+        onProgress: setProgress,
+        signal: controller.signal
+      });
       
       // Add new anomalies to store
       detectedAnomalies.forEach(anomaly => addAnomaly(anomaly));
@@ -81,12 +97,18 @@ function AnalyticsContent() {
         description: 'Review the results below'
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info('Anomaly detection cancelled');
+        return;
+      }
       console.error('Anomaly detection failed:', error);
       toast.error('Anomaly detection failed', {
         description: 'Please try again or check your configuration'
       });
     } finally {
+      abortRef.current = null;
       setIsRunning(false);
+      setProgress(null);
     }
   };
 
@@ -177,6 +199,18 @@ function AnalyticsContent() {
             onRunDetection={handleRunDetection}
             isRunning={isRunning}
           />
+          {isRunning && (
+            <div className="mt-4 flex items-center justify-between gap-4 rounded-lg bg-blue-50 px-4 py-3 text-sm text-blue-800">
+              <span>
+                {progress
+                  ? `${progress.currentRule.replace(/_/g, ' ')}: ${progress.processedRecords.toLocaleString()} of ${progress.totalRecords.toLocaleString()} records • ${progress.anomaliesFound} anomalies`
+                  : 'Starting detection...'}
+              </span>
+              <Button size="sm" variant="outline" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Detection Results */}
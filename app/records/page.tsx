@@ -4,6 +4,9 @@ import { useState, useMemo } from 'react';
 import { useAppStore } from '@/lib/store';
 import { RecordsTable } from '@/components/records/records-table';
 import { AdvancedSearch, AdvancedSearchFilters } from '@/components/search/advanced-search';
+import { IPIntelligencePanel } from '@/components/records/ip-intelligence-panel';
+import { CellTowerPanel } from '@/components/records/cell-tower-panel';
+import { CGNATLookup } from '@/components/search/cgnat-lookup';
 import { DemoProvider } from '@/components/common/demo-provider';
 import NavMenu from '@/components/nav-menu';
 import { Button } from '@/components/ui/button';
@@ -21,9 +24,7 @@ function RecordsContent() {
   const handleAdvancedSearch = async (filters: AdvancedSearchFilters) => {
     setIsSearching(true);
     try {
-      // Simulate processing delay for large datasets
-      await new Promise(resolve => setTimeout(resolve, 500));
-      const filtered = getAdvancedFilteredRecords(filters);
+      const filtered = await getAdvancedFilteredRecords(filters);
       setFilteredRecords(filtered);
     } finally {
       setIsSearching(false);
@@ -103,6 +104,16 @@ function RecordsContent() {
           </div>
         </div>
 
+        {/* IP Intelligence */}
+        <div className="mb-6">
+          <IPIntelligencePanel />
+        </div>
+
+        {/* Cell Towers */}
+        <div className="mb-6">
+          <CellTowerPanel />
+        </div>
+
         {/* Advanced Search */}
         <div className="mb-6">
           <AdvancedSearch
@@ -114,6 +125,11 @@ function RecordsContent() {
           />
         </div>
 
+        {/* CGNAT Lookup */}
+        <div className="mb-6">
+          <CGNATLookup />
+        </div>
+
         {/* Sample Data Section - Show when no records */}
         {records.length === 0 && (
           <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Activity, 
   Shield, 
@@ -24,11 +25,30 @@ import { ChartAreaInteractive } from '@/components/charts/chart-area-interactive
 import { ChartBarLabelCustom } from '@/components/charts/chart-bar-label-custom';
 import { ChartPieLabel } from '@/components/charts/chart-pie-label';
 import { useAppStore } from '@/lib/store';
+import { IPDRRecord } from '@/lib/types';
 
 export function AnalyticsDashboard() {
-  const { records, anomalies, cases, evidenceFiles } = useAppStore();
+  const { records: allRecords, anomalies, cases, evidenceFiles } = useAppStore();
   const [timeRange, setTimeRange] = useState('7d');
   const [selectedCase, setSelectedCase] = useState<string | null>(null);
+  const [destinationCountry, setDestinationCountry] = useState('all');
+
+  // Destination countries come from IP intelligence enrichment
+  const destinationCountries = Array.from(new Set(
+    allRecords.map(record => record.bPartyLocation?.country).filter((country): country is string => !!country)
+  )).sort();
+  const records = destinationCountry === 'all'
+    ? allRecords
+    : allRecords.filter(record => record.bPartyLocation?.country === destinationCountry);
+
+  const topDestinations = (key: (record: IPDRRecord) => string | undefined) =>
+    Object.entries(records.reduce((acc, record) => {
+      const value = key(record);
+      if (value) acc[value] = (acc[value] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>))
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 5);
 
   // Calculate analytics data
   const analytics = {
@@ -53,6 +73,26 @@ export function AnalyticsDashboard() {
     totalBytes: records.reduce((sum, record) => sum + record.bytesTransferred, 0),
     avgDuration: records.reduce((sum, record) => sum + record.duration, 0) / records.length || 0,
     
+    // Application breakdown (attributed from destination IP, port and protocol)
+    applications: Object.entries(records.reduce((acc, record) => {
+      const application = record.application || 'Unattributed';
+      const entry = acc[application] || (acc[application] = { sessions: 0, bytes: 0, subscribers: new Set<string>() });
+      entry.sessions++;
+      entry.bytes += record.bytesTransferred;
+      entry.subscribers.add(record.aParty);
+      return acc;
+    }, {} as Record<string, { sessions: number; bytes: number; subscribers: Set<string> }>))
+      .sort(([, a], [, b]) => b.sessions - a.sessions),
+    
+    // Destination IP intelligence
+    enrichedRecords: records.filter(record => record.bPartyLocation).length,
+    topCountries: topDestinations(record => record.bPartyLocation?.country),
+    topOrganizations: topDestinations(record => {
+      const location = record.bPartyLocation;
+      if (!location?.organization && location?.asn === undefined) return undefined;
+      return [location.asn !== undefined ? `AS${location.asn}` : '', location.organization].filter(Boolean).join(' ');
+    }),
+    
     // Anomaly severity breakdown
     anomalySeverity: anomalies.reduce((acc, anomaly) => {
       acc[anomaly.severity] = (acc[anomaly.severity] || 0) + 1;
@@ -112,6 +152,19 @@ export function AnalyticsDashboard() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          {destinationCountries.length > 0 && (
+            <Select value={destinationCountry} onValueChange={setDestinationCountry}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All destination countries" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All destination countries</SelectItem>
+                {destinationCountries.map(country => (
+                  <SelectItem key={country} value={country}>{country}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <Button variant="outline" size="sm">
             <Download className="h-4 w-4 mr-2" />
             Export Report
@@ -190,6 +243,7 @@ export function AnalyticsDashboard() {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="traffic">Traffic Analysis</TabsTrigger>
           <TabsTrigger value="protocols">Protocols</TabsTrigger>
+          <TabsTrigger value="applications">Applications</TabsTrigger>
           <TabsTrigger value="anomalies">Anomalies</TabsTrigger>
         </TabsList>
 
@@ -247,6 +301,32 @@ export function AnalyticsDashboard() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="applications" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Application Breakdown</CardTitle>
+              <CardDescription>
+                Sessions attributed to applications from destination IP, port and protocol
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {analytics.applications.map(([application, usage]) => (
+                  <div key={application} className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant={application === 'Unattributed' ? 'outline' : 'secondary'}>{application}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {usage.subscribers.size.toLocaleString()} source IP(s) • {(usage.bytes / 1024 / 1024).toFixed(2)} MB
+                      </span>
+                    </div>
+                    <span className="font-semibold">{usage.sessions.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="anomalies" className="space-y-4">
           <div className="grid gap-4 md:grid-cols-2">
             <Card>
@@ -344,19 +424,33 @@ export function AnalyticsDashboard() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span>Domestic Traffic</span>
-                <span className="font-medium">78.5%</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>International</span>
-                <span className="font-medium">21.5%</span>
-              </div>
-              <div className="w-full bg-gray-200 rounded-full h-2">
-                <div className="bg-blue-600 h-2 rounded-full" style={{ width: '78.5%' }}></div>
+            {analytics.enrichedRecords === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Import an IP intelligence file on the Records page to see destination countries and networks.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  {analytics.topCountries.map(([country, count]) => (
+                    <div key={country} className="flex justify-between text-sm">
+                      <span>{country}</span>
+                      <span className="font-medium">{((count / records.length) * 100).toFixed(1)}%</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-1 border-t pt-2">
+                  {analytics.topOrganizations.map(([organization, count]) => (
+                    <div key={organization} className="flex justify-between gap-2 text-xs">
+                      <span className="truncate">{organization}</span>
+                      <span className="font-medium">{count.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {analytics.enrichedRecords.toLocaleString()} of {records.length.toLocaleString()} destinations resolved
+                </p>
               </div>
-            </div>
+            )}
           </CardContent>
         </Card>
 
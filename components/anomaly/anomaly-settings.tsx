@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,8 +8,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Clock, AlertTriangle, Settings, Play, Pause } from 'lucide-react';
+import { Clock, AlertTriangle, Settings, Play, Pause, Smartphone, Activity, Radar } from 'lucide-react';
 import { AnomalyRule, TimeRange, DEFAULT_ANOMALY_RULES } from '@/lib/anomaly-detector';
+import { getAppSignatures } from '@/lib/app-signatures';
+import { BaselineConfig, DEFAULT_BASELINE_CONFIG } from '@/lib/behavior-baseline';
+import { BeaconConfig, DEFAULT_BEACON_CONFIG } from '@/lib/beacon-detector';
+import { useAppStore } from '@/lib/store';
+import { CustomAnomalyRules } from './custom-anomaly-rules';
+import { AnonymizerRuleCard } from './anonymizer-rule-card';
 import { useWalkthroughTarget } from '@/components/walkthrough/walkthrough-provider';
 
 interface AnomalySettingsProps {
@@ -20,6 +26,7 @@ interface AnomalySettingsProps {
 
 export function AnomalySettings({ onRulesChange, onRunDetection, isRunning }: AnomalySettingsProps) {
   const [rules, setRules] = useState<AnomalyRule[]>(DEFAULT_ANOMALY_RULES);
+  const customAnomalyRules = useAppStore(state => state.customAnomalyRules);
   const [customTimeRange, setCustomTimeRange] = useState<TimeRange>({
     startHour: 0,
     endHour: 5,
@@ -29,8 +36,8 @@ export function AnomalySettings({ onRulesChange, onRunDetection, isRunning }: An
   const walkthroughTarget = useWalkthroughTarget('anomaly-detection');
 
   useEffect(() => {
-    onRulesChange(rules);
-  }, [rules, onRulesChange]);
+    onRulesChange([...rules, ...customAnomalyRules]);
+  }, [rules, customAnomalyRules, onRulesChange]);
 
   const updateRule = (ruleId: string, updates: Partial<AnomalyRule>) => {
     setRules(prev => prev.map(rule => 
@@ -46,6 +53,47 @@ export function AnomalySettings({ onRulesChange, onRunDetection, isRunning }: An
     updateRule('late_night_activity', { config: newTimeRange });
   };
 
+  const watchedApplications: string[] = rules.find(r => r.id === 'watched_application')?.config.applications || [];
+  const knownApplications = Array.from(new Set(getAppSignatures().map(signature => signature.application)));
+
+  const toggleWatchedApplication = (application: string) => {
+    const applications = watchedApplications.includes(application)
+      ? watchedApplications.filter(a => a !== application)
+      : [...watchedApplications, application];
+    updateRule('watched_application', { config: { applications } });
+  };
+
+  const baselineConfig: BaselineConfig = { ...DEFAULT_BASELINE_CONFIG, ...rules.find(r => r.id === 'behavior_baseline')?.config };
+
+  const updateBaselineConfig = (field: 'trainingDays' | 'threshold' | 'minTrainingHours', value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    updateRule('behavior_baseline', { config: { ...baselineConfig, [field]: value } });
+  };
+
+  const beaconConfig: BeaconConfig = { ...DEFAULT_BEACON_CONFIG, ...rules.find(r => r.id === 'beaconing')?.config };
+
+  const updateBeaconConfig = (field: keyof BeaconConfig, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return;
+    updateRule('beaconing', { config: { ...beaconConfig, [field]: value } });
+  };
+
+  // Merges into a rule's config; a function receives the current config, for updates made after async work
+  const updateRuleConfig = useCallback((
+    ruleId: string,
+    updates: Record<string, unknown> | ((config: AnomalyRule['config']) => Record<string, unknown>)
+  ) => {
+    setRules(prev => prev.map(rule =>
+      rule.id === ruleId
+        ? { ...rule, config: { ...rule.config, ...(typeof updates === 'function' ? updates(rule.config) : updates) } }
+        : rule
+    ));
+  }, []);
+
+  const updateAnonymizerConfig = useCallback(
+    (updates: Parameters<typeof updateRuleConfig>[1]) => updateRuleConfig('anonymizer_usage', updates),
+    [updateRuleConfig]
+  );
+
   const toggleRule = (ruleId: string) => {
     updateRule(ruleId, { enabled: !rules.find(r => r.id === ruleId)?.enabled });
   };
@@ -283,8 +331,220 @@ export function AnomalySettings({ onRulesChange, onRunDetection, isRunning }: An
             </p>
           </CardContent>
         </Card>
+
+        {/* Watched Application Rule */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Smartphone className="w-5 h-5 text-green-600" />
+                <CardTitle className="text-lg">Watched Application Use</CardTitle>
+              </div>
+              <Switch
+                checked={rules.find(r => r.id === 'watched_application')?.enabled || false}
+                onCheckedChange={() => toggleRule('watched_application')}
+              />
+            </div>
+            <CardDescription>
+              Detects subscribers using applications under watch
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2 mb-3">
+              <Badge className={getSeverityColor('medium')}>
+                Medium Severity
+              </Badge>
+              <Badge variant="outline">
+                {watchedApplications.length} watched
+              </Badge>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {knownApplications.map(application => (
+                <Badge
+                  key={application}
+                  variant={watchedApplications.includes(application) ? 'default' : 'outline'}
+                  className="cursor-pointer text-xs"
+                  onClick={() => toggleWatchedApplication(application)}
+                >
+                  {application}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+        {/* Behavioral Baseline Rule */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Activity className="w-5 h-5 text-teal-600" />
+                <CardTitle className="text-lg">Behavioral Baseline Deviation</CardTitle>
+              </div>
+              <Switch
+                checked={rules.find(r => r.id === 'behavior_baseline')?.enabled || false}
+                onCheckedChange={() => toggleRule('behavior_baseline')}
+              />
+            </div>
+            <CardDescription>
+              Scores each subscriber against its own normal behaviour instead of fixed thresholds
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge className={getSeverityColor('medium')}>
+                Medium Severity
+              </Badge>
+              <Badge variant="outline">
+                Robust z ≥ {baselineConfig.threshold}
+              </Badge>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="training-days" className="text-sm font-medium">
+                  Training Days
+                </Label>
+                <Input
+                  id="training-days"
+                  type="number"
+                  min="1"
+                  value={baselineConfig.trainingDays}
+                  onChange={(e) => updateBaselineConfig('trainingDays', parseFloat(e.target.value))}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="deviation-threshold" className="text-sm font-medium">
+                  Threshold
+                </Label>
+                <Input
+                  id="deviation-threshold"
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  value={baselineConfig.threshold}
+                  onChange={(e) => updateBaselineConfig('threshold', parseFloat(e.target.value))}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="min-training-hours" className="text-sm font-medium">
+                  Min. Hours
+                </Label>
+                <Input
+                  id="min-training-hours"
+                  type="number"
+                  min="1"
+                  value={baselineConfig.minTrainingHours}
+                  onChange={(e) => updateBaselineConfig('minTrainingHours', parseInt(e.target.value))}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Learns hourly volume, daily contacts, protocols and active hours from the first {baselineConfig.trainingDays} day(s) of data, then flags later activity that deviates from each subscriber&apos;s own baseline.
+            </p>
+          </CardContent>
+        </Card>
+        {/* Periodic Beaconing Rule */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Radar className="w-5 h-5 text-rose-600" />
+                <CardTitle className="text-lg">Periodic Beaconing</CardTitle>
+              </div>
+              <Switch
+                checked={rules.find(r => r.id === 'beaconing')?.enabled || false}
+                onCheckedChange={() => toggleRule('beaconing')}
+              />
+            </div>
+            <CardDescription>
+              Detects regular check-ins from a source to one destination (C2, remote-access tools)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Badge className={getSeverityColor('high')}>
+                High Severity
+              </Badge>
+              <Badge variant="outline">
+                {beaconConfig.minBeacons}+ beacons, jitter ≤ {Math.round(beaconConfig.maxJitter * 100)}%
+              </Badge>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="min-beacons" className="text-sm font-medium">
+                  Min. Beacons
+                </Label>
+                <Input
+                  id="min-beacons"
+                  type="number"
+                  min="3"
+                  value={beaconConfig.minBeacons}
+                  onChange={(e) => updateBeaconConfig('minBeacons', parseInt(e.target.value))}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="max-jitter" className="text-sm font-medium">
+                  Max. Jitter (%)
+                </Label>
+                <Input
+                  id="max-jitter"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={Math.round(beaconConfig.maxJitter * 100)}
+                  onChange={(e) => updateBeaconConfig('maxJitter', parseFloat(e.target.value) / 100)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="min-period" className="text-sm font-medium">
+                  Min. Period (s)
+                </Label>
+                <Input
+                  id="min-period"
+                  type="number"
+                  min="1"
+                  value={beaconConfig.minPeriodSeconds}
+                  onChange={(e) => updateBeaconConfig('minPeriodSeconds', parseInt(e.target.value))}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="max-period" className="text-sm font-medium">
+                  Max. Period (s)
+                </Label>
+                <Input
+                  id="max-period"
+                  type="number"
+                  min="1"
+                  value={beaconConfig.maxPeriodSeconds}
+                  onChange={(e) => updateBeaconConfig('maxPeriodSeconds', parseInt(e.target.value))}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Intervals within {Math.round(beaconConfig.jitterTolerance * 100)}% of the typical interval, or of two or three times it when beacons are missed, count as on schedule.
+            </p>
+          </CardContent>
+        </Card>
+        {/* VPN / Tor / Proxy Rule */}
+        <AnonymizerRuleCard
+          rule={rules.find(r => r.id === 'anonymizer_usage')}
+          onToggle={() => toggleRule('anonymizer_usage')}
+          onConfigChange={updateAnonymizerConfig}
+          getSeverityColor={getSeverityColor}
+        />
       </div>
 
+      {/* Analyst-defined rules */}
+      <CustomAnomalyRules getSeverityColor={getSeverityColor} />
+
       {/* Actions */}
       <div className="flex items-center justify-between pt-4 border-t">
         <Button
@@ -296,7 +556,7 @@ export function AnomalySettings({ onRulesChange, onRunDetection, isRunning }: An
         </Button>
         
         <div className="text-sm text-gray-500">
-          {rules.filter(r => r.enabled).length} of {rules.length} rules enabled
+          {[...rules, ...customAnomalyRules].filter(r => r.enabled).length} of {rules.length + customAnomalyRules.length} rules enabled
         </div>
       </div>
 
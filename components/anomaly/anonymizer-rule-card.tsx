@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { EyeOff, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AnomalyRule } from '@/lib/anomaly-detector';
+import {
+  AnonymizerConfig,
+  DEFAULT_ANONYMIZER_CONFIG,
+  INDICATOR_CATEGORY_LABELS,
+  IndicatorCategory,
+  IndicatorList,
+  importIndicatorList,
+  loadIndicatorLists,
+  parseIndicatorList,
+  removeIndicatorList
+} from '@/lib/anonymizer-indicators';
+
+interface AnonymizerRuleCardProps {
+  rule?: AnomalyRule;
+  onToggle: () => void;
+  onConfigChange: (updates: Partial<AnonymizerConfig> | ((current: Partial<AnonymizerConfig>) => Partial<AnonymizerConfig>)) => void;
+  getSeverityColor: (severity: string) => string;
+}
+
+function mergeLists(lists: IndicatorList[], added: IndicatorList[]): IndicatorList[] {
+  const byId = new Map(lists.map(list => [list.id, list]));
+  added.forEach(list => byId.set(list.id, list));
+  return Array.from(byId.values());
+}
+
+// VPN / Tor / proxy rule: the imported indicator lists live in IndexedDB and are copied into the rule config
+export function AnonymizerRuleCard({ rule, onToggle, onConfigChange, getSeverityColor }: AnonymizerRuleCardProps) {
+  const config: AnonymizerConfig = { ...DEFAULT_ANONYMIZER_CONFIG, ...rule?.config };
+  const lists = config.lists || [];
+  const [category, setCategory] = useState<IndicatorCategory>('tor');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Load the stored lists whenever the rule has none yet (first render, reset to defaults).
+  // They are merged in by id, so a list imported while loading is kept and a repeated load is harmless
+  const listsLoaded = !!rule?.config.lists;
+  useEffect(() => {
+    if (listsLoaded) return;
+    loadIndicatorLists()
+      .then(stored => onConfigChange(current => ({ lists: mergeLists(stored, current.lists || []) })))
+      .catch(error => toast.error('Failed to load indicator lists', { description: String(error) }));
+  }, [listsLoaded, onConfigChange]);
+
+  const handleImport = async (file: File) => {
+    try {
+      const fileDate = new Date(file.lastModified).toISOString().slice(0, 10);
+      const list = parseIndicatorList(await file.text(), file.name, category, fileDate);
+      await importIndicatorList(list);
+      onConfigChange(current => ({ lists: mergeLists(current.lists || [], [list]) }));
+      toast.success(`Imported ${list.entries.length} ${INDICATOR_CATEGORY_LABELS[category]} indicator(s) from ${file.name}`, {
+        description: `Version ${list.version}`
+      });
+    } catch (error) {
+      toast.error(`Failed to import ${file.name}`, {
+        description: error instanceof Error ? error.message : 'Expected a list of IPs, networks or ports'
+      });
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await removeIndicatorList(id);
+      onConfigChange(current => ({ lists: (current.lists || []).filter(list => list.id !== id) }));
+    } catch (error) {
+      toast.error('Failed to remove indicator list', { description: String(error) });
+    }
+  };
+
+  const updateMinFlowMinutes = (value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    onConfigChange({ minFlowMinutes: value });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <EyeOff className="w-5 h-5 text-slate-600" />
+            <CardTitle className="text-lg">VPN / Tor / Proxy Usage</CardTitle>
+          </div>
+          <Switch
+            checked={rule?.enabled || false}
+            onCheckedChange={onToggle}
+          />
+        </div>
+        <CardDescription>
+          Matches destinations against imported indicator lists and flags long-lived VPN tunnels
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Badge className={getSeverityColor('medium')}>
+            Medium Severity
+          </Badge>
+          <Badge variant="outline">
+            {lists.length} list(s), {lists.reduce((sum, list) => sum + list.entries.length, 0)} indicators
+          </Badge>
+        </div>
+
+        <div className="space-y-2">
+          {lists.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No indicator lists imported. Only the OpenVPN / WireGuard flow heuristic runs.
+            </p>
+          ) : lists.map(list => (
+            <div key={list.id} className="flex items-center justify-between gap-2 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <Badge variant="secondary">{INDICATOR_CATEGORY_LABELS[list.category]}</Badge>
+                <span className="truncate">{list.name}</span>
+                <span className="text-gray-500 whitespace-nowrap">
+                  v{list.version.replace(/^v/i, '')} · imported {list.importedAt.toISOString().slice(0, 10)} · {list.entries.length}
+                </span>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => handleRemove(list.id)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={category} onValueChange={(value) => setCategory(value as IndicatorCategory)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(INDICATOR_CATEGORY_LABELS) as IndicatorCategory[]).map(key => (
+                <SelectItem key={key} value={key}>{INDICATOR_CATEGORY_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-1" />
+            Import List
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".txt,.csv,.list,text/plain,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="min-flow-minutes" className="text-sm font-medium">
+            Min. VPN Flow (minutes)
+          </Label>
+          <Input
+            id="min-flow-minutes"
+            type="number"
+            min="1"
+            value={config.minFlowMinutes}
+            onChange={(e) => updateMinFlowMinutes(parseInt(e.target.value))}
+            className="mt-1"
+          />
+        </div>
+        <p className="text-sm text-gray-600">
+          Lists are one IP, CIDR, ip:port or port/protocol per line (Tor exit-address files work as is), or a CSV with an IP or port column. A &quot;# version:&quot; line names the version; otherwise the file date is used.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Braces, Download, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAppStore } from '@/lib/store';
+import { DEFAULT_ANOMALY_RULES } from '@/lib/anomaly-detector';
+import {
+  CustomAnomalyRule,
+  EXAMPLE_RULE_DEFINITION,
+  RULE_FIELDS,
+  exportCustomRules,
+  parseCustomRules
+} from '@/lib/anomaly-rules';
+
+const BUILT_IN_RULE_IDS = DEFAULT_ANOMALY_RULES.map(rule => rule.id);
+
+const EXAMPLE_RULE = {
+  id: 'night_cloudflare_fanout',
+  name: 'Night-time Cloudflare fan-out',
+  description: 'Subscriber contacts more than 20 distinct IPs in AS13335 within 10 minutes between 22:00 and 06:00',
+  severity: 'high',
+  enabled: true,
+  definition: EXAMPLE_RULE_DEFINITION
+};
+
+function ruleToJSON(rule: CustomAnomalyRule | typeof EXAMPLE_RULE): string {
+  const { id, name, description, severity, enabled, definition } = rule;
+  return JSON.stringify({ id, name, description, severity, enabled, definition }, null, 2);
+}
+
+function summarize(rule: CustomAnomalyRule): string {
+  const { groupBy, window, having, timeOfDay } = rule.definition;
+  const thresholds = having.map(h => `${h.aggregate} ${h.op} ${h.value}`).join(' and ');
+  const hours = timeOfDay
+    ? ` • ${String(timeOfDay.startHour).padStart(2, '0')}:00-${String(timeOfDay.endHour).padStart(2, '0')}:00`
+    : '';
+  return `Per ${groupBy.join(' + ')} • ${thresholds}${window ? ` within ${window.minutes} min` : ''}${hours}`;
+}
+
+interface CustomAnomalyRulesProps {
+  getSeverityColor: (severity: string) => string;
+}
+
+// Analyst-written rules: edited as JSON, validated before saving, shared as export files
+export function CustomAnomalyRules({ getSeverityColor }: CustomAnomalyRulesProps) {
+  const { customAnomalyRules, saveCustomAnomalyRule, removeCustomAnomalyRule } = useAppStore();
+  const [editing, setEditing] = useState<{ originalId?: string; text: string } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const openEditor = (rule?: CustomAnomalyRule) => {
+    setErrors([]);
+    setEditing({ originalId: rule?.id, text: ruleToJSON(rule || EXAMPLE_RULE) });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    try {
+      const parsed = parseCustomRules(editing.text, BUILT_IN_RULE_IDS);
+      if (parsed.length !== 1) throw new Error('The editor holds one rule at a time');
+      const [rule] = parsed;
+      if (rule.id !== editing.originalId && customAnomalyRules.some(r => r.id === rule.id)) {
+        throw new Error(`A custom rule with id "${rule.id}" already exists`);
+      }
+      if (editing.originalId && rule.id !== editing.originalId) removeCustomAnomalyRule(editing.originalId);
+      saveCustomAnomalyRule(rule);
+      setEditing(null);
+    } catch (error) {
+      setErrors(error instanceof Error ? error.message.split('\n') : ['Invalid rule']);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCustomRules(customAnomalyRules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'anomaly_rules.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const rules = parseCustomRules(await file.text(), BUILT_IN_RULE_IDS);
+      rules.forEach(saveCustomAnomalyRule);
+      toast.success(`Imported ${rules.length} rule(s) from ${file.name}`);
+    } catch (error) {
+      toast.error(`Failed to import ${file.name}`, {
+        description: error instanceof Error ? error.message : 'Expected an anomaly rules JSON file'
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Braces className="w-5 h-5 text-indigo-600" />
+            <CardTitle className="text-lg">Custom Rules</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleExport} disabled={customAnomalyRules.length === 0}>
+              <Download className="w-4 h-4 mr-1" />
+              Export
+            </Button>
+            <Button size="sm" onClick={() => openEditor()}>
+              <Plus className="w-4 h-4 mr-1" />
+              New Rule
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+        <CardDescription>
+          Group records, aggregate them over a time window and flag the groups that cross your thresholds
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {customAnomalyRules.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No custom rules yet. Start a new rule from the example or import a rules file shared by another analyst.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {customAnomalyRules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between gap-3 py-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rule.name}</span>
+                    <Badge className={getSeverityColor(rule.severity)}>{rule.severity}</Badge>
+                  </div>
+                  {rule.description && <p className="text-sm text-gray-600">{rule.description}</p>}
+                  <p className="text-xs text-gray-500 font-mono truncate">{summarize(rule)}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => saveCustomAnomalyRule({ ...rule, enabled })}
+                  />
+                  <Button size="icon" variant="ghost" onClick={() => openEditor(rule)} aria-label={`Edit ${rule.name}`}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => removeCustomAnomalyRule(rule.id)} aria-label={`Delete ${rule.name}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing?.originalId ? 'Edit Custom Rule' : 'New Custom Rule'}</DialogTitle>
+            <DialogDescription>
+              Rules are JSON: where, timeOfDay, groupBy, window, aggregations (count, sum, avg, min, max, distinct) and having.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={editing?.text || ''}
+            onChange={(e) => editing && setEditing({ ...editing, text: e.target.value })}
+            className="font-mono text-xs h-80 max-h-[50vh]"
+            spellCheck={false}
+            aria-invalid={errors.length > 0}
+          />
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 space-y-1 max-h-32 overflow-y-auto">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">
+            Fields: {Object.keys(RULE_FIELDS).join(', ')}
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave}>Save Rule</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -27,6 +27,7 @@ import {
 import { cn } from '@/lib/utils';
 import { IPDRRecord, GraphNode, GraphEdge, GraphData } from '@/lib/types';
 import { useAppStore } from '@/lib/store';
+import { formatIPAddress, formatIPAddressShort } from '@/utils/formatters';
 import {
   ReactFlow,
   Node,
@@ -94,7 +95,7 @@ const CustomNode = ({ data }: { data: any }) => {
         }}
       >
         <div className="text-xs font-medium text-center leading-tight p-1">
-          {data.label?.length > 10 ? `${data.label.substring(0, 8)}...` : data.label}
+          {data.label ? formatIPAddressShort(data.label) : data.label}
         </div>
       </div>
       
@@ -262,8 +263,9 @@ function NetworkVisualizationComponent({ className }: NetworkVisualizationProps)
 
       // Process records to create nodes and edges
       records.forEach((record, index) => {
-        const aParty = record.aParty || 'Unknown';
-        const bParty = record.bParty || 'Unknown';
+        // Canonical addresses, so one IPv6 host is one node whatever notation it arrived in
+        const aParty = record.aParty ? formatIPAddress(record.aParty) : 'Unknown';
+        const bParty = record.bParty ? formatIPAddress(record.bParty) : 'Unknown';
 
         // Create nodes
         if (!nodeMap.has(aParty)) {
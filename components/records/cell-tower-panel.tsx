@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { RadioTowerIcon, Trash2Icon, UploadIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppStore } from '@/lib/store';
+import {
+  CellSiteRegistry,
+  buildTowerLocationHistory,
+  importCellSiteRegistry,
+  loadCellTowers,
+  parseCellSiteCSV,
+  removeCellSiteRegistry,
+  resolveTowerLocations
+} from '@/lib/cell-towers';
+
+// Visits listed for the selected subscriber; the full history stays on the records
+const MAX_VISITS_SHOWN = 50;
+
+// The case's cell-site registries and the tower-level location history they give each subscriber
+export function CellTowerPanel() {
+  const { currentCase, records, updateRecords } = useAppStore();
+  const [registries, setRegistries] = useState<CellSiteRegistry[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [subscriber, setSubscriber] = useState<string>('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const caseId = currentCase?.id;
+
+  useEffect(() => {
+    if (!caseId) return;
+    loadCellTowers(caseId)
+      .then(database => setRegistries(database.registries))
+      .catch(error => console.error('Failed to load cell-site registries:', error));
+  }, [caseId]);
+
+  const history = useMemo(() => buildTowerLocationHistory(records), [records]);
+  const selected = history.find(entry => entry.subscriber === subscriber) || history[0];
+
+  if (!caseId) return null;
+
+  const resolveCaseRecords = async () => {
+    const database = await loadCellTowers(caseId);
+    const resolved = resolveTowerLocations(records, database);
+    const changed = resolved.filter((record, index) => record !== records[index]);
+    if (changed.length > 0) updateRecords(changed);
+    return changed.length;
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const registry = parseCellSiteCSV(await file.text(), file.name, caseId);
+      await importCellSiteRegistry(registry);
+      setRegistries((await loadCellTowers(caseId)).registries);
+      const resolved = await resolveCaseRecords();
+      toast.success(`Imported ${file.name}`, {
+        description: `${registry.sites.length.toLocaleString()} cell sites • ${resolved.toLocaleString()} case records located`
+      });
+    } catch (error) {
+      toast.error(`Failed to import ${file.name}`, {
+        description: error instanceof Error ? error.message : 'Expected a CSV cell-site registry'
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRemove = async (registry: CellSiteRegistry) => {
+    await removeCellSiteRegistry(caseId, registry.id);
+    setRegistries((await loadCellTowers(caseId)).registries);
+  };
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <RadioTowerIcon className="size-4 text-blue-600" />
+          <h3 className="text-sm font-medium">Cell Towers</h3>
+          <span className="text-xs text-muted-foreground">Subscriber location from the serving cell (CGI or LAC and Cell ID)</span>
+        </div>
+        <Button size="sm" variant="outline" disabled={isImporting} onClick={() => inputRef.current?.click()}>
+          <UploadIcon className="-ms-1 size-4" />
+          {isImporting ? 'Importing...' : 'Import Cell-Site Registry'}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.tsv,.txt"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {registries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Import the operator&apos;s cell-site registry for this case: a CSV with a CGI column (or MCC, MNC, LAC and Cell ID), latitude and longitude, and optionally azimuth and address.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {registries.map(registry => (
+            <Badge key={registry.id} variant="secondary" className="gap-1">
+              {registry.name} • {registry.sites.length.toLocaleString()} sites
+              <button type="button" aria-label={`Remove ${registry.name}`} onClick={() => handleRemove(registry)}>
+                <Trash2Icon className="size-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-2 border-t pt-3">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-sm font-medium">Tower Location History</h4>
+            <Select value={selected.subscriber} onValueChange={setSubscriber}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Subscriber" />
+              </SelectTrigger>
+              <SelectContent>
+                {history.map(entry => (
+                  <SelectItem key={entry.subscriber} value={entry.subscriber}>
+                    {entry.subscriber} ({entry.visits.length} towers)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="max-h-64 overflow-y-auto divide-y text-sm">
+            {selected.visits.slice(0, MAX_VISITS_SHOWN).map((visit, index) => (
+              <div key={`${visit.cgi}_${index}`} className="flex items-center justify-between gap-4 py-1.5">
+                <div>
+                  <div className="font-medium">{visit.address || `${visit.latitude?.toFixed(5)}, ${visit.longitude?.toFixed(5)}`}</div>
+                  <div className="text-xs text-muted-foreground font-mono">
+                    {visit.cgi}
+                    {visit.azimuth !== undefined && <span> • {visit.azimuth}°</span>}
+                  </div>
+                </div>
+                <div className="text-right text-xs text-muted-foreground">
+                  <div>{visit.firstSeen.toLocaleString()} – {visit.lastSeen.toLocaleString()}</div>
+                  <div>{visit.sessions.toLocaleString()} session(s)</div>
+                </div>
+              </div>
+            ))}
+          </div>
+          {selected.visits.length > MAX_VISITS_SHOWN && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {MAX_VISITS_SHOWN} of {selected.visits.length.toLocaleString()} tower visits
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { GlobeIcon, Trash2Icon, UploadIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAppStore } from '@/lib/store';
+import {
+  IPIntelSource,
+  enrichRecords,
+  importIPIntelSource,
+  loadIPIntelligence,
+  parseIPRangeCSV,
+  removeIPIntelSource
+} from '@/lib/ip-intelligence';
+
+// Imported IP range files; new uploads are enriched at ingest, and importing a file
+// also enriches the records already in the case
+export function IPIntelligencePanel() {
+  const { records, updateRecords } = useAppStore();
+  const [sources, setSources] = useState<IPIntelSource[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadIPIntelligence()
+      .then(database => setSources(database.sources))
+      .catch(error => console.error('Failed to load IP intelligence:', error));
+  }, []);
+
+  const enrichCaseRecords = async () => {
+    const database = await loadIPIntelligence();
+    const enriched = enrichRecords(records, database);
+    const changed = enriched.filter((record, index) => record !== records[index]);
+    if (changed.length > 0) updateRecords(changed);
+    return changed.length;
+  };
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const source = parseIPRangeCSV(await file.text(), file.name);
+      await importIPIntelSource(source);
+      setSources((await loadIPIntelligence()).sources);
+      const enriched = await enrichCaseRecords();
+      toast.success(`Imported ${file.name}`, {
+        description: `${source.ranges.length.toLocaleString()} IP ranges • ${enriched.toLocaleString()} case records enriched`
+      });
+    } catch (error) {
+      toast.error(`Failed to import ${file.name}`, {
+        description: error instanceof Error ? error.message : 'Expected a CSV of IP ranges'
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleRemove = async (source: IPIntelSource) => {
+    await removeIPIntelSource(source.id);
+    setSources((await loadIPIntelligence()).sources);
+  };
+
+  return (
+    <div className="rounded-lg border bg-white p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <GlobeIcon className="size-4 text-blue-600" />
+          <h3 className="text-sm font-medium">IP Intelligence</h3>
+          <span className="text-xs text-muted-foreground">Destination ASN, organization and country, resolved offline</span>
+        </div>
+        <Button size="sm" variant="outline" disabled={isImporting} onClick={() => inputRef.current?.click()}>
+          <UploadIcon className="-ms-1 size-4" />
+          {isImporting ? 'Importing...' : 'Import Range File'}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.tsv,.txt"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {sources.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Import a GeoLite2 CSV block file or any CSV with a CIDR or start/end IP column and ASN, organization or country columns.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {sources.map(source => (
+            <Badge key={source.id} variant="secondary" className="gap-1">
+              {source.name} • {source.ranges.length.toLocaleString()} ranges
+              <button type="button" aria-label={`Remove ${source.name}`} onClick={() => handleRemove(source)}>
+                <Trash2Icon className="size-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useMemo, useState, useCallback, useEffect } from "react";
 import {
   ColumnDef,
   ColumnFiltersState,
+  FilterFn,
   flexRender,
   getCoreRowModel,
   getFacetedMinMaxValues,
@@ -45,7 +46,9 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { IPDRRecord, TelecomOperator } from "@/lib/types";
-import { formatTimestamp, formatBytes, getOperatorColor } from "@/utils/formatters";
+import { formatTimestamp, formatBytes, formatIPAddress, getOperatorColor } from "@/utils/formatters";
+import { matchesIPPattern } from "@/lib/ip-address";
+import { matchesWatchlistParty } from "@/lib/record-filters";
 import { useWalkthroughTarget } from '@/components/walkthrough/walkthrough-provider';
 import { useAppStore } from '@/lib/store';
 import { Button } from '@/components/ui/button';
@@ -55,6 +58,26 @@ interface RecordsTableProps {
   onSelectionChange?: (selectedRecords: IPDRRecord[]) => void;
 }
 
+// IP column filters accept partial addresses, any IPv6 notation and CIDR blocks
+const ipFilterFn: FilterFn<IPDRRecord> = (row, columnId, value) =>
+  matchesIPPattern(row.getValue<string>(columnId), String(value ?? ''));
+
+// A party's address, flagged when it matches the case watchlist
+function PartyCell({ record, party }: { record: IPDRRecord; party: string }) {
+  const watchlist = useAppStore(state => state.watchlist);
+  const match = watchlist.find(item => item.caseId === record.caseId && matchesWatchlistParty(party, item));
+  return (
+    <div className="font-mono text-sm break-all">
+      {formatIPAddress(party)}
+      {match && (
+        <span className="ml-1 px-1.5 py-0.5 rounded text-xs font-sans font-medium bg-red-100 text-red-800" title={match.label}>
+          Watchlist
+        </span>
+      )}
+    </div>
+  );
+}
+
 const columns: ColumnDef<IPDRRecord>[] = [
   {
     id: "select",
@@ -80,8 +103,9 @@ const columns: ColumnDef<IPDRRecord>[] = [
     header: "Source IP",
     accessorKey: "aParty",
     cell: ({ row }) => (
-      <div className="font-mono text-sm">{row.getValue("aParty")}</div>
+      <PartyCell record={row.original} party={row.original.aParty} />
     ),
+    filterFn: ipFilterFn,
     meta: {
       filterVariant: "text",
     },
@@ -90,8 +114,9 @@ const columns: ColumnDef<IPDRRecord>[] = [
     header: "Destination IP",
     accessorKey: "bParty",
     cell: ({ row }) => (
-      <div className="font-mono text-sm">{row.getValue("bParty")}</div>
+      <PartyCell record={row.original} party={row.original.bParty} />
     ),
+    filterFn: ipFilterFn,
     meta: {
       filterVariant: "text",
     },
@@ -117,6 +142,21 @@ const columns: ColumnDef<IPDRRecord>[] = [
       filterVariant: "select",
     },
   },
+  {
+    header: "Application",
+    accessorKey: "application",
+    cell: ({ row }) => {
+      const application = row.original.application;
+      return application ? (
+        <span className="px-2 py-1 rounded-full text-xs font-medium bg-teal-100 text-teal-800">{application}</span>
+      ) : (
+        <span className="text-sm text-gray-400">-</span>
+      );
+    },
+    meta: {
+      filterVariant: "select",
+    },
+  },
   {
     header: "Start Time",
     accessorKey: "startTimestamp",
@@ -179,6 +219,49 @@ const columns: ColumnDef<IPDRRecord>[] = [
     },
     enableSorting: false,
   },
+  {
+    header: "Subscriber",
+    accessorKey: "subscriberID",
+    cell: ({ row }) => {
+      const { subscriberID, imsi } = row.original;
+      return (
+        <div className="font-mono text-sm">
+          <div>{subscriberID || '-'}</div>
+          {imsi && <div className="text-xs text-gray-500">IMSI {imsi}</div>}
+        </div>
+      );
+    },
+    meta: {
+      filterVariant: "text",
+    },
+  },
+  {
+    header: "IMEI",
+    accessorKey: "imei",
+    cell: ({ row }) => (
+      <div className="font-mono text-sm">{row.original.imei || '-'}</div>
+    ),
+  },
+  {
+    header: "APN",
+    accessorKey: "apn",
+    cell: ({ row }) => (
+      <div className="text-sm">{row.original.apn || '-'}</div>
+    ),
+  },
+  {
+    header: "Cell / LAC",
+    accessorKey: "cellID",
+    cell: ({ row }) => {
+      const { cellID, lac } = row.original;
+      return (
+        <div className="font-mono text-sm">
+          {cellID || '-'}
+          {lac && <span className="text-xs text-gray-500"> / {lac}</span>}
+        </div>
+      );
+    },
+  },
   {
     header: "Location A",
     accessorKey: "aPartyLocation",
@@ -190,11 +273,23 @@ const columns: ColumnDef<IPDRRecord>[] = [
         return (
           <div className="text-sm text-gray-400">
             <div>No location data</div>
-            <div className="text-xs">IP: {record.aParty}</div>
+            <div className="text-xs break-all">IP: {formatIPAddress(record.aParty)}</div>
           </div>
         );
       }
-      
+
+      if (location.cgi) {
+        return (
+          <div className="text-sm">
+            <div className="font-medium text-blue-600">{location.address || `${location.latitude?.toFixed(5)}, ${location.longitude?.toFixed(5)}`}</div>
+            <div className="text-gray-500 text-xs font-mono">
+              {location.cgi}
+              {location.azimuth !== undefined && <span> • {location.azimuth}°</span>}
+            </div>
+          </div>
+        );
+      }
+
       return (
         <div className="text-sm">
           <div className="font-medium text-blue-600">{location.city}</div>
@@ -215,15 +310,18 @@ const columns: ColumnDef<IPDRRecord>[] = [
         return (
           <div className="text-sm text-gray-400">
             <div>No location data</div>
-            <div className="text-xs">IP: {record.bParty}</div>
+            <div className="text-xs break-all">IP: {formatIPAddress(record.bParty)}</div>
           </div>
         );
       }
       
       return (
         <div className="text-sm">
-          <div className="font-medium text-green-600">{location.city}</div>
-          <div className="text-gray-500 text-xs">{location.region}, {location.country}</div>
+          <div className="font-medium text-green-600">{location.city || location.organization || location.country}</div>
+          <div className="text-gray-500 text-xs">
+            {[location.region, location.country].filter(Boolean).join(', ')}
+            {location.asn !== undefined && <span className="font-mono"> • AS{location.asn}</span>}
+          </div>
         </div>
       );
     },
@@ -320,9 +418,7 @@ export function RecordsTable({ records, onSelectionChange }: RecordsTableProps)
     if (records.length > 10000) { // Only virtualize for very large datasets
       setIsLoading(true);
       try {
-        // Simulate async loading for large datasets
-        await new Promise(resolve => setTimeout(resolve, 50));
-        const pageRecords = getRecordsForPage(page, pageSize);
+        const pageRecords = await getRecordsForPage(page, pageSize);
         setVirtualizedRecords(pageRecords);
         
         // Optimize memory periodically
@@ -369,9 +465,15 @@ export function RecordsTable({ records, onSelectionChange }: RecordsTableProps)
         <div className="w-48">
           <Filter column={table.getColumn("bParty")!} placeholder="Destination IP" />
         </div>
+        <div className="w-48">
+          <Filter column={table.getColumn("subscriberID")!} placeholder="MSISDN" />
+        </div>
         <div className="w-32">
           <Filter column={table.getColumn("protocol")!} />
         </div>
+        <div className="w-36">
+          <Filter column={table.getColumn("application")!} />
+        </div>
         <div className="w-32">
           <Filter column={table.getColumn("operator")!} />
         </div>
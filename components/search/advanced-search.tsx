@@ -26,6 +26,7 @@ import {
   Zap
 } from 'lucide-react';
 import { IPDRRecord, TelecomOperator } from '@/lib/types';
+import { getAppSignatures } from '@/lib/app-signatures';
 import { format, addDays } from 'date-fns';
 
 export interface AdvancedSearchFilters {
@@ -37,6 +38,15 @@ export interface AdvancedSearchFilters {
   sourceIP: string;
   destinationIP: string;
   subscriberID: string;
+  imsi: string;
+  imei: string;
+  apn: string;
+  cellID: string;
+  lac: string;
+  application: string;
+  asn: string;
+  organization: string;
+  country: string;
   protocol: string[];
   operator: TelecomOperator[];
   portRange: {
@@ -69,6 +79,7 @@ const WIRESHARK_EXAMPLES = [
   'tcp.port == 443',
   'udp.port == 53',
   'ip.addr == 10.0.0.0/8',
+  'ipv6.src == 2405:200::/29',
   'tcp.flags.syn == 1',
   'frame.time >= "2025-01-01 00:00:00"',
   'ip.src == 192.168.1.1 and tcp.port == 80',
@@ -78,6 +89,7 @@ const WIRESHARK_EXAMPLES = [
 
 const PROTOCOL_OPTIONS = ['TCP', 'UDP', 'HTTP', 'HTTPS', 'DNS', 'FTP', 'SSH', 'ICMP'];
 const OPERATOR_OPTIONS: TelecomOperator[] = ['airtel', 'jio', 'vodafone', 'bsnl'];
+const APPLICATION_OPTIONS = Array.from(new Set(getAppSignatures().map(signature => signature.application)));
 
 export function AdvancedSearch({ onSearch, onClear, totalRecords, filteredCount, isLoading }: AdvancedSearchProps) {
   const [filters, setFilters] = useState<AdvancedSearchFilters>({
@@ -86,6 +98,15 @@ export function AdvancedSearch({ onSearch, onClear, totalRecords, filteredCount,
     sourceIP: '',
     destinationIP: '',
     subscriberID: '',
+    imsi: '',
+    imei: '',
+    apn: '',
+    cellID: '',
+    lac: '',
+    application: '',
+    asn: '',
+    organization: '',
+    country: '',
     protocol: [],
     operator: [],
     portRange: { min: null, max: null },
@@ -136,6 +157,15 @@ export function AdvancedSearch({ onSearch, onClear, totalRecords, filteredCount,
       sourceIP: '',
       destinationIP: '',
       subscriberID: '',
+      imsi: '',
+      imei: '',
+      apn: '',
+      cellID: '',
+      lac: '',
+      application: '',
+      asn: '',
+      organization: '',
+      country: '',
       protocol: [],
       operator: [],
       portRange: { min: null, max: null },
@@ -170,11 +200,11 @@ export function AdvancedSearch({ onSearch, onClear, totalRecords, filteredCount,
     // Basic Wireshark query parser for common patterns
     const newFilters = { ...filters };
     
-    // Parse IP addresses
-    const srcMatch = query.match(/ip\.src\s*==\s*([^\s]+)/);
+    // Parse IPv4 or IPv6 addresses and CIDR blocks
+    const srcMatch = query.match(/\b(?:ip|ipv6)\.src\s*==\s*([^\s]+)/);
     if (srcMatch) newFilters.sourceIP = srcMatch[1].replace(/"/g, '');
     
-    const dstMatch = query.match(/ip\.dst\s*==\s*([^\s]+)/);
+    const dstMatch = query.match(/\b(?:ip|ipv6)\.dst\s*==\s*([^\s]+)/);
     if (dstMatch) newFilters.destinationIP = dstMatch[1].replace(/"/g, '');
     
     // Parse protocols
@@ -363,7 +393,7 @@ export function AdvancedSearch({ onSearch, onClear, totalRecords, filteredCount,
               <div className="space-y-2">
                 <Label>Source IP</Label>
                 <Input
-                  placeholder="192.168.1.1"
+                  placeholder="192.168.1.1, 2405:200::1 or a CIDR block"
                   value={filters.sourceIP}
                   onChange={(e) => handleFilterChange('sourceIP', e.target.value)}
                 />
@@ -373,7 +403,7 @@ export function AdvancedSearch({ onSearch, onClear, totalRecords, filteredCount,
               <div className="space-y-2">
                 <Label>Destination IP</Label>
                 <Input
-                  placeholder="8.8.8.8"
+                  placeholder="8.8.8.8, 2001:4860::/32"
                   value={filters.destinationIP}
                   onChange={(e) => handleFilterChange('destinationIP', e.target.value)}
                 />
@@ -389,6 +419,105 @@ export function AdvancedSearch({ onSearch, onClear, totalRecords, filteredCount,
                 />
               </div>
 
+              {/* IMSI */}
+              <div className="space-y-2">
+                <Label>IMSI</Label>
+                <Input
+                  placeholder="404451234567890"
+                  value={filters.imsi}
+                  onChange={(e) => handleFilterChange('imsi', e.target.value)}
+                />
+              </div>
+
+              {/* IMEI */}
+              <div className="space-y-2">
+                <Label>IMEI</Label>
+                <Input
+                  placeholder="356938035643809"
+                  value={filters.imei}
+                  onChange={(e) => handleFilterChange('imei', e.target.value)}
+                />
+              </div>
+
+              {/* APN */}
+              <div className="space-y-2">
+                <Label>APN</Label>
+                <Input
+                  placeholder="airtelgprs.com"
+                  value={filters.apn}
+                  onChange={(e) => handleFilterChange('apn', e.target.value)}
+                />
+              </div>
+
+              {/* Cell ID */}
+              <div className="space-y-2">
+                <Label>Cell ID</Label>
+                <Input
+                  placeholder="40445-1234-5678"
+                  value={filters.cellID}
+                  onChange={(e) => handleFilterChange('cellID', e.target.value)}
+                />
+              </div>
+
+              {/* LAC */}
+              <div className="space-y-2">
+                <Label>LAC</Label>
+                <Input
+                  placeholder="1234"
+                  value={filters.lac}
+                  onChange={(e) => handleFilterChange('lac', e.target.value)}
+                />
+              </div>
+
+              {/* Application */}
+              <div className="space-y-2">
+                <Label>Application</Label>
+                <Select
+                  value={filters.application || 'all'}
+                  onValueChange={(value) => handleFilterChange('application', value === 'all' ? '' : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All applications" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Applications</SelectItem>
+                    {APPLICATION_OPTIONS.map(application => (
+                      <SelectItem key={application} value={application}>{application}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Destination ASN */}
+              <div className="space-y-2">
+                <Label>Destination ASN</Label>
+                <Input
+                  placeholder="AS15169"
+                  value={filters.asn}
+                  onChange={(e) => handleFilterChange('asn', e.target.value)}
+                />
+              </div>
+
+              {/* Destination Organization */}
+              <div className="space-y-2">
+                <Label>Destination Organization</Label>
+                <Input
+                  placeholder="Google LLC"
+                  value={filters.organization}
+                  onChange={(e) => handleFilterChange('organization', e.target.value)}
+                />
+              </div>
+
+              {/* Destination Country */}
+              <div className="space-y-2">
+                <Label>Destination Country</Label>
+                <Input
+                  placeholder="US"
+                  value={filters.country}
+                  onChange={(e) => handleFilterChange('country', e.target.value)}
+                />
+              </div>
+
               {/* Protocol */}
               <div className="space-y-2">
                 <Label>Protocol</Label>
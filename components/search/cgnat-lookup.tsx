@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { Network, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAppStore } from '@/lib/store';
+import { CGNATCandidate, DEFAULT_CLOCK_SKEW_SECONDS } from '@/lib/cgnat-resolver';
+import { formatIPAddress, formatTimestamp, validateIPAddress } from '@/utils/formatters';
+
+// Supporting records listed per candidate
+const MAX_MATCHES_SHOWN = 5;
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 0.9) return 'bg-green-100 text-green-800';
+  if (confidence >= 0.5) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-800';
+}
+
+// "Who had this public IP:port at time T" against the case's CGNAT translation records
+export function CGNATLookup() {
+  const { resolvePublicIP } = useAppStore();
+  const [publicIP, setPublicIP] = useState('');
+  const [publicPort, setPublicPort] = useState('');
+  const [timestamp, setTimestamp] = useState('');
+  const [clockSkew, setClockSkew] = useState(String(DEFAULT_CLOCK_SKEW_SECONDS));
+  const [candidates, setCandidates] = useState<CGNATCandidate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleResolve = async () => {
+    setError(null);
+    if (!validateIPAddress(publicIP.trim())) {
+      setError('Enter a public IPv4 or IPv6 address');
+      return;
+    }
+    setIsResolving(true);
+    try {
+      setCandidates(await resolvePublicIP({
+        publicIP: publicIP.trim(),
+        publicPort: publicPort.trim() || undefined,
+        timestamp: new Date(timestamp),
+        clockSkewSeconds: Number(clockSkew) || 0
+      }));
+    } catch (err) {
+      setCandidates(null);
+      setError(err instanceof Error ? err.message : 'Lookup failed');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <Network className="h-5 w-5" />
+          Public IP to Subscriber (CGNAT)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2 lg:col-span-2">
+            <Label>Public IP</Label>
+            <Input placeholder="49.36.12.7 or 2405:201::1" value={publicIP} onChange={(e) => setPublicIP(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Public Port</Label>
+            <Input placeholder="Optional" inputMode="numeric" value={publicPort} onChange={(e) => setPublicPort(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Time</Label>
+            <Input type="datetime-local" step={1} value={timestamp} onChange={(e) => setTimestamp(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Clock Skew (s)</Label>
+            <Input type="number" min={0} value={clockSkew} onChange={(e) => setClockSkew(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button onClick={handleResolve} disabled={isResolving || !publicIP || !timestamp}>
+            <Search className="h-4 w-4 mr-2" />
+            {isResolving ? 'Resolving...' : 'Find Subscriber'}
+          </Button>
+          {error && <span className="text-sm text-red-600">{error}</span>}
+        </div>
+
+        {candidates && (
+          candidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No session in this case used that public IP and port within {clockSkew || 0}s of the given time.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {candidates.map(candidate => (
+                <div key={candidate.subscriber} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="font-mono font-medium">{candidate.subscriber}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {candidate.imsi && candidate.imsi !== candidate.subscriber && <span>IMSI {candidate.imsi} • </span>}
+                        Private IP {candidate.privateIPs.map(formatIPAddress).join(', ')}
+                      </div>
+                    </div>
+                    <Badge className={confidenceClass(candidate.confidence)}>
+                      {Math.round(candidate.confidence * 100)}% confidence
+                    </Badge>
+                  </div>
+                  <div className="divide-y text-xs">
+                    {candidate.matches.slice(0, MAX_MATCHES_SHOWN).map(({ record, confidence, portMatch, offsetSeconds }) => (
+                      <div key={record.id} className="flex flex-wrap items-center justify-between gap-2 py-1.5">
+                        <span className="font-mono">
+                          {formatIPAddress(record.aParty)}:{record.aPort || '-'} → {formatIPAddress(record.publicIP || '')}:{record.publicPort || '-'}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {formatTimestamp(record.startTimestamp)} – {formatTimestamp(record.endTimestamp)}
+                          {offsetSeconds > 0 && ` • ${Math.round(offsetSeconds)}s outside session`}
+                          {` • port ${portMatch} • ${Math.round(confidence * 100)}%`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {candidate.matches.length > MAX_MATCHES_SHOWN && (
+                    <p className="text-xs text-muted-foreground">
+                      {candidate.matches.length - MAX_MATCHES_SHOWN} more supporting record(s)
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
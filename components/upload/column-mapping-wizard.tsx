@@ -0,0 +1,311 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangleIcon, CheckIcon, Columns3Icon, RefreshCwIcon, SaveIcon, Trash2Icon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppStore } from '@/lib/store';
+import { TelecomOperator } from '@/lib/types';
+import { FormatFingerprint, fingerprintFile, needsDateOrderConfirmation } from '@/lib/format-fingerprint';
+import { FileProcessingOptions } from '@/lib/processing';
+import {
+  IPDRField,
+  HeaderMapping,
+  IPDR_FIELD_LABELS,
+  getParserProfile,
+  resolveHeaderMapping,
+  findMissingRequiredFields,
+  templateMatchesHeaders
+} from '@/lib/parser-profiles';
+import { TIMESTAMP_FORMATS, TimestampFormat, SOURCE_TIMEZONES, parseTimestamp } from '@/lib/timestamp-parser';
+import { getOperatorDisplayName } from '@/utils/formatters';
+import { toast } from 'sonner';
+
+// Radix Select reserves the empty string, so "not set" options use sentinels
+const IGNORE_COLUMN = '__ignore__';
+const AUTO_FORMAT = '__auto__';
+const NO_TEMPLATE = '__none__';
+
+interface ColumnMappingWizardProps {
+  file: File;
+  fingerprint: FormatFingerprint;
+  operator: TelecomOperator;
+  onApply: (options: FileProcessingOptions) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingWizard({ file, fingerprint: initialFingerprint, operator, onApply, onCancel }: ColumnMappingWizardProps) {
+  const { mappingTemplates, addMappingTemplate, removeMappingTemplate } = useAppStore();
+  const profile = getParserProfile(operator);
+  // JSON files are re-read when the analyst points at a different record path
+  const [fingerprint, setFingerprint] = useState(initialFingerprint);
+  const [recordPath, setRecordPath] = useState(initialFingerprint.jsonRecordPath || '');
+  const headers = fingerprint.headers;
+
+  // Start from a saved template for this layout, otherwise from the profile's aliases
+  const matchingTemplate = mappingTemplates.find(t => templateMatchesHeaders(t, headers));
+  const [templateId, setTemplateId] = useState<string>(matchingTemplate?.id || NO_TEMPLATE);
+  const [mapping, setMapping] = useState<HeaderMapping>(
+    matchingTemplate?.mapping || resolveHeaderMapping(headers, profile)
+  );
+  // Dates of unclear day/month order start unselected so the analyst has to choose
+  const confirmDates = needsDateOrderConfirmation(fingerprint, profile.timestampFormats);
+  const [timestampFormat, setTimestampFormat] = useState<string>(
+    matchingTemplate?.timestampFormats[0] || (confirmDates ? AUTO_FORMAT : fingerprint.timestampFormat || AUTO_FORMAT)
+  );
+  const [timezone, setTimezone] = useState<string>(matchingTemplate?.timezone || profile.timezone);
+  const [templateName, setTemplateName] = useState('');
+
+  const missingFields = findMissingRequiredFields(mapping, profile);
+  const dateFormatUnconfirmed = confirmDates && timestampFormat === AUTO_FORMAT;
+  const timestampFormats = timestampFormat === AUTO_FORMAT ? undefined : [timestampFormat as TimestampFormat];
+
+  const fieldForColumn = (header: string): IPDRField | undefined =>
+    (Object.keys(mapping) as IPDRField[]).find(field => mapping[field] === header);
+
+  const assignColumn = (header: string, value: string) => {
+    setMapping(prev => {
+      const next: HeaderMapping = {};
+      // A field maps to exactly one column, so drop any earlier assignment
+      (Object.keys(prev) as IPDRField[]).forEach(field => {
+        if (prev[field] !== header && field !== value) next[field] = prev[field];
+      });
+      if (value !== IGNORE_COLUMN) next[value as IPDRField] = header;
+      return next;
+    });
+  };
+
+  const loadTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = mappingTemplates.find(t => t.id === id);
+    if (!template) return;
+    setMapping(template.mapping);
+    setTimestampFormat(template.timestampFormats[0] || AUTO_FORMAT);
+    setTimezone(template.timezone);
+  };
+
+  const saveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) return;
+    addMappingTemplate({
+      id: `template_${Date.now()}`,
+      name,
+      operator,
+      mapping,
+      timestampFormats: timestampFormats || [],
+      timezone,
+      createdAt: new Date()
+    });
+    setTemplateName('');
+    toast.success(`Saved mapping template "${name}"`);
+  };
+
+  const reloadRecords = async () => {
+    try {
+      const next = await fingerprintFile(file, { jsonRecordPath: recordPath.trim() || undefined });
+      setFingerprint(next);
+      setMapping(resolveHeaderMapping(next.headers, profile));
+      setTemplateId(NO_TEMPLATE);
+      if (next.sampleRows.length === 0) {
+        toast.error(`No records found at "${recordPath}"`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  // Show how the first start time reads with the chosen format and zone
+  const startTimePreview = useMemo(() => {
+    const column = mapping.startTime;
+    const sample = column ? fingerprint.sampleRows[0]?.[column] : undefined;
+    if (!sample) return null;
+    const parsed = parseTimestamp(sample, timestampFormats, timezone);
+    return { sample, parsed };
+  }, [mapping.startTime, fingerprint.sampleRows, timestampFormats, timezone]);
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <Columns3Icon className="size-4 shrink-0 text-blue-600" />
+          <p className="truncate text-sm font-medium">Map columns • {file.name}</p>
+        </div>
+        <Badge variant="outline" className="shrink-0">{getOperatorDisplayName(operator)}</Badge>
+      </div>
+
+      {fingerprint.layout === 'json' && (
+        <div className="flex items-center gap-2">
+          <Label className="w-28 shrink-0 text-xs">Records path</Label>
+          <Input
+            className="h-8 w-64 font-mono"
+            placeholder="$.data.records"
+            value={recordPath}
+            onChange={(e) => setRecordPath(e.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={reloadRecords}>
+            <RefreshCwIcon className="-ms-1 size-4" />
+            Reload
+          </Button>
+        </div>
+      )}
+
+      {mappingTemplates.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Label className="w-28 shrink-0 text-xs">Template</Label>
+          <Select value={templateId} onValueChange={loadTemplate}>
+            <SelectTrigger className="h-8 w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TEMPLATE}>No template</SelectItem>
+              {mappingTemplates.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {templateId !== NO_TEMPLATE && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-8"
+              aria-label="Delete template"
+              onClick={() => {
+                removeMappingTemplate(templateId);
+                setTemplateId(NO_TEMPLATE);
+              }}
+            >
+              <Trash2Icon className="size-4" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {headers.map(header => (
+                <TableHead key={header} className="min-w-40 align-top py-2">
+                  <p className="mb-1 truncate text-xs font-medium">{header}</p>
+                  <Select value={fieldForColumn(header) || IGNORE_COLUMN} onValueChange={(value) => assignColumn(header, value)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE_COLUMN}>Ignore</SelectItem>
+                      {(Object.keys(IPDR_FIELD_LABELS) as IPDRField[]).map(field => (
+                        <SelectItem key={field} value={field}>
+                          {IPDR_FIELD_LABELS[field]}
+                          {profile.requiredFields.includes(field) && ' *'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fingerprint.sampleRows.map((row, index) => (
+              <TableRow key={index}>
+                {headers.map(header => (
+                  <TableCell key={header} className="max-w-48 truncate font-mono text-xs">{row[header]}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="flex items-center gap-2">
+          <Label className="w-28 shrink-0 text-xs">Date format</Label>
+          <Select value={timestampFormat} onValueChange={setTimestampFormat}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_FORMAT}>Auto ({profile.name} formats)</SelectItem>
+              {TIMESTAMP_FORMATS.map(format => (
+                <SelectItem key={format} value={format}>{format}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="w-28 shrink-0 text-xs">Source timezone</Label>
+          <Select value={timezone} onValueChange={setTimezone}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SOURCE_TIMEZONES.map(zone => (
+                <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {startTimePreview && (
+        <p className="text-xs text-muted-foreground">
+          Start time <span className="font-mono">{startTimePreview.sample}</span> reads as{' '}
+          {startTimePreview.parsed
+            ? <span className="font-mono">{startTimePreview.parsed.toISOString()}</span>
+            : <span className="text-red-600">unparseable with this format</span>}
+        </p>
+      )}
+
+      {dateFormatUnconfirmed && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+          <AlertTriangleIcon className="size-4 shrink-0" />
+          {fingerprint.dateOrder === 'ambiguous'
+            ? 'Dates in this file could be day-first or month-first. Choose the date format the export uses.'
+            : `Dates in this file look ${fingerprint.dateOrder}, unlike the ${profile.name} formats. Choose the date format the export uses.`}
+        </div>
+      )}
+
+      {missingFields.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+          <AlertTriangleIcon className="size-4 shrink-0" />
+          Map the required fields: {missingFields.map(field => IPDR_FIELD_LABELS[field]).join(', ')}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="h-8 w-56"
+          placeholder="Template name"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+        />
+        <Button size="sm" variant="outline" disabled={!templateName.trim()} onClick={saveTemplate}>
+          <SaveIcon className="-ms-1 size-4" />
+          Save Template
+        </Button>
+        <div className="flex-1" />
+        <Button
+          size="sm"
+          disabled={missingFields.length > 0 || dateFormatUnconfirmed}
+          onClick={() => onApply({
+            operator,
+            mapping,
+            timestampFormats,
+            timezone,
+            jsonRecordPath: fingerprint.layout === 'json' ? recordPath.trim() || undefined : undefined
+          })}
+        >
+          <CheckIcon className="-ms-1 size-4" />
+          Apply &amp; Parse
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { CopyIcon, Link2Icon, SkipForwardIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DuplicateAction } from '@/lib/types';
+
+interface DuplicateRecordsPromptProps {
+  filename: string;
+  totalRecords: number;
+  // e.g. "1,204 rows duplicate airtel_aug.csv"
+  summaries: string[];
+  onResolve: (action: DuplicateAction) => void;
+}
+
+export function DuplicateRecordsPrompt({ filename, totalRecords, summaries, onResolve }: DuplicateRecordsPromptProps) {
+  return (
+    <div className="rounded-lg border border-amber-200 bg-background p-4 space-y-3">
+      <div className="flex items-center gap-2 min-w-0">
+        <CopyIcon className="size-4 shrink-0 text-amber-600" />
+        <p className="truncate text-sm font-medium">{filename}</p>
+      </div>
+
+      <div className="space-y-1 text-xs">
+        <p className="text-muted-foreground">
+          Some of the {totalRecords.toLocaleString()} parsed records are already in this case from earlier evidence:
+        </p>
+        <ul className="list-disc pl-5">
+          {summaries.map(summary => <li key={summary}>{summary}</li>)}
+        </ul>
+        <p className="text-muted-foreground">
+          Skipping leaves them out of the case; linking keeps them, marked as duplicates, out of counts and anomaly detection.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button size="sm" onClick={() => onResolve('skip')}>
+          <SkipForwardIcon className="-ms-1 size-4" />
+          Skip Duplicates
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onResolve('link')}>
+          <Link2Icon className="-ms-1 size-4" />
+          Link Duplicates
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,30 @@
 'use client';
 
-import { AlertCircleIcon, FileTextIcon, UploadIcon, XIcon, CheckCircleIcon, LoaderIcon } from "lucide-react";
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircleIcon, FileTextIcon, UploadIcon, XIcon, CheckCircleIcon, LoaderIcon, RotateCcwIcon } from "lucide-react";
 import { useFileUpload, formatBytes, UploadFile } from "@/hooks/use-file-upload";
 import { Button } from "@/components/ui/button";
 import { useAppStore } from '@/lib/store';
-import { TelecomOperator, EvidenceFile } from '@/lib/types';
+import { TelecomOperator, EvidenceFile, IPDRRecord, DuplicateAction } from '@/lib/types';
 import { getOperatorColor, getOperatorDisplayName } from '@/utils/formatters';
-import { processAirtelFile, ProcessingProgress } from '@/lib/processing';
+import { processAirtelFile, processEvidenceArchive, ProcessingProgress, FileProcessingOptions } from '@/lib/processing';
+import { isArchiveFile } from '@/lib/archive-extractor';
+import { ParseCheckpoint, getParseCheckpointStore, parseCheckpointKey } from '@/lib/parse-checkpoints';
+import { globalCoC } from '@/lib/chain-of-custody';
+import { enrichRecords, loadIPIntelligence } from '@/lib/ip-intelligence';
+import { loadCellTowers, resolveTowerLocations } from '@/lib/cell-towers';
+import { detectDuplicateRecords, findEarlierRecords, resolveDuplicateRecords, describeDuplicates, DuplicateDetection } from '@/lib/record-dedup';
+import { fingerprintFile, FormatFingerprint, needsDateOrderConfirmation } from '@/lib/format-fingerprint';
+import {
+  getParserProfile,
+  resolveHeaderMapping,
+  findMissingRequiredFields,
+  templateMatchesHeaders
+} from '@/lib/parser-profiles';
+import { OperatorConfirmation } from '@/components/upload/operator-confirmation';
+import { ColumnMappingWizard } from '@/components/upload/column-mapping-wizard';
+import { ParseResultsPanel } from '@/components/upload/parse-results-panel';
+import { DuplicateRecordsPrompt } from '@/components/upload/duplicate-records-prompt';
 import { toast } from 'sonner';
 import { useWalkthroughTarget } from '@/components/walkthrough/walkthrough-provider';
 
@@ -15,6 +33,17 @@ interface IPDRFileUploadProps {
   onFilesUploaded?: (files: EvidenceFile[]) => void;
 }
 
+// A parsed upload waiting to be added to the case
+interface ParsedUpload {
+  file: File;
+  archive?: EvidenceFile;
+  members: Array<{ evidence: EvidenceFile; records: IPDRRecord[] }>;
+  detection: DuplicateDetection;
+  // Records already written to the case while parsing, duplicates linked; members hold none
+  stored?: boolean;
+  successMessage: string;
+}
+
 const operatorColors = {
   airtel: '#E31E24',
   jio: '#0066CC', 
@@ -28,7 +57,62 @@ export function IPDRFileUpload({ caseId, onFilesUploaded }: IPDRFileUploadProps)
   const maxFiles = 10; // Increased for batch processing
   const walkthroughTarget = useWalkthroughTarget('upload-area');
   
-  const { addEvidenceFile, updateEvidenceFile, addRecords, attachFileToCase, currentCase } = useAppStore();
+  const {
+    evidenceFiles,
+    addEvidenceFile,
+    updateEvidenceFile,
+    addRecords,
+    removeLinkedDuplicates,
+    removeFileRecords,
+    attachFileToCase,
+    currentCase,
+    mappingTemplates
+  } = useAppStore();
+  
+  // Files fingerprinted and waiting for the analyst to confirm the operator
+  const [pendingFiles, setPendingFiles] = useState<Array<{ file: File; fingerprint: FormatFingerprint }>>([]);
+  // File whose columns the analyst is mapping by hand
+  const [mappingFile, setMappingFile] = useState<{
+    file: File;
+    fingerprint: FormatFingerprint;
+    operator: TelecomOperator;
+    sheetNames?: string[];
+  } | null>(null);
+  // Parse outcomes (including rejected rows) for files processed in this session
+  const [parsedFiles, setParsedFiles] = useState<EvidenceFile[]>([]);
+  // Parsed uploads that repeat records already in the case, waiting for skip/link
+  const [duplicateUploads, setDuplicateUploads] = useState<ParsedUpload[]>([]);
+  // Large-file parses in this case that stopped part way; selecting the same file resumes them
+  const [interruptedParses, setInterruptedParses] = useState<ParseCheckpoint[]>([]);
+
+  const refreshInterruptedParses = useCallback(async () => {
+    const checkpoints = getParseCheckpointStore();
+    if (!checkpoints || !currentCase) {
+      setInterruptedParses([]);
+      return;
+    }
+    try {
+      setInterruptedParses(await checkpoints.list(currentCase.id));
+    } catch (error) {
+      console.warn('Could not read parse checkpoints:', error);
+    }
+  }, [currentCase]);
+
+  useEffect(() => {
+    refreshInterruptedParses();
+  }, [refreshInterruptedParses]);
+
+  const discardInterruptedParse = async (checkpoint: ParseCheckpoint) => {
+    await getParseCheckpointStore()?.clear(checkpoint.key);
+    await removeFileRecords(checkpoint.caseId, checkpoint.fileId);
+    await globalCoC.addAuditEntry('analyst', 'delete', checkpoint.fileId, {
+      filename: checkpoint.filename,
+      byteOffset: checkpoint.state.byteOffset,
+      recordsDiscarded: checkpoint.state.recordCount,
+      action: 'parse_checkpoint_discarded'
+    });
+    refreshInterruptedParses();
+  };
 
   const handleUpload = async (files: File[]) => {
     if (!currentCase) {
@@ -37,89 +121,252 @@ export function IPDRFileUpload({ caseId, onFilesUploaded }: IPDRFileUploadProps)
     }
     
     for (const file of files) {
-      const operator = detectOperator(file.name);
-      if (operator === 'airtel') {
-        const fileSize = (file.size / 1024 / 1024).toFixed(1); // MB
-        let progressToast: string | number | null = null;
-        
-        try {
-          // Show initial processing toast
-          progressToast = toast.info(`Processing ${file.name} (${fileSize} MB)...`, {
-            duration: Infinity // Keep until we dismiss it
-          });
-          
-          const { evidence, records } = await processAirtelFile(
-            file, 
-            currentCase.id,
-            (progress: ProcessingProgress) => {
-              // Update progress toast for large files
-              if (file.size > 50 * 1024 * 1024) { // > 50MB
-                const percent = Math.round((progress.processedBytes / progress.totalBytes) * 100);
-                const throughputMB = progress.throughput.toFixed(1);
-                const etaMinutes = Math.round(progress.estimatedTimeRemaining / 60000);
-                
-                if (progressToast) {
-                  toast.dismiss(progressToast);
-                }
-                progressToast = toast.info(
-                  `Processing ${file.name} - ${percent}% complete`, 
-                  {
-                    description: `${progress.processedRows.toLocaleString()} records processed • ${throughputMB} MB/s • ETA: ${etaMinutes}m`,
-                    duration: Infinity
-                  }
-                );
-              }
-            }
-          );
-          
-          // Dismiss progress toast
-          if (progressToast) {
-            toast.dismiss(progressToast);
-          }
-          
-          const evidenceWithStatus: EvidenceFile = {
-            ...evidence,
-            status: 'completed',
-            recordCount: records.length,
-            errorCount: 0
-          };
-          addEvidenceFile(evidenceWithStatus);
-          attachFileToCase(currentCase.id, evidenceWithStatus);
-          addRecords(records);
-          
-          toast.success(`Successfully processed ${file.name}`, {
-            description: `${records.length.toLocaleString()} records parsed • ${evidence.sha256.slice(0, 8)}... hash verified • ${fileSize} MB processed`
-          });
-        } catch (error) {
-          console.error('File processing failed:', error);
-          
-          // Dismiss progress toast on error
+      try {
+        const fingerprint = await fingerprintFile(file);
+        setPendingFiles(prev => [...prev, { file, fingerprint }]);
+      } catch (error) {
+        console.error('File fingerprinting failed:', error);
+        toast.error(`Could not read ${file.name}`, {
+          description: error instanceof Error ? error.message : 'Please check the file and try again'
+        });
+      }
+    }
+  };
+
+  const confirmOperator = async (file: File, fingerprint: FormatFingerprint, operator: TelecomOperator, sheetNames?: string[]) => {
+    setPendingFiles(prev => prev.filter(p => p.file !== file));
+
+    // Unknown layouts, ones with a saved template and dates of unclear day/month
+    // order go through the mapping wizard
+    const profile = getParserProfile(operator);
+    const missing = findMissingRequiredFields(resolveHeaderMapping(fingerprint.headers, profile), profile);
+    const hasTemplate = mappingTemplates.some(t => templateMatchesHeaders(t, fingerprint.headers));
+    const confirmDates = needsDateOrderConfirmation(fingerprint, profile.timestampFormats);
+    if (fingerprint.headers.length > 0 && (missing.length > 0 || hasTemplate || confirmDates)) {
+      setMappingFile({ file, fingerprint, operator, sheetNames });
+      return;
+    }
+
+    await processFile(file, { operator, sheetNames });
+  };
+
+  const mapColumns = (file: File, fingerprint: FormatFingerprint, operator: TelecomOperator, sheetNames?: string[]) => {
+    setPendingFiles(prev => prev.filter(p => p.file !== file));
+    setMappingFile({ file, fingerprint, operator, sheetNames });
+  };
+
+  const applyMapping = async (options: FileProcessingOptions) => {
+    if (!mappingFile) return;
+    const { file, sheetNames } = mappingFile;
+    setMappingFile(null);
+    await processFile(file, { ...options, sheetNames });
+  };
+
+  const skipFile = (file: File) => {
+    setPendingFiles(prev => prev.filter(p => p.file !== file));
+  };
+
+  const processFile = async (file: File, options: FileProcessingOptions) => {
+    if (!currentCase) {
+      toast.error('No active case selected');
+      return;
+    }
+    
+    const fileSize = (file.size / 1024 / 1024).toFixed(1); // MB
+    let progressToast: string | number | null = null;
+    // Large files parse in the background; the progress toast can cancel them
+    const controller = new AbortController();
+    const cancelAction = { label: 'Cancel', onClick: () => controller.abort() };
+    // Evidence file whose records have started going into the case
+    let streamedFileId: string | null = null;
+    
+    try {
+      // Show initial processing toast
+      progressToast = toast.info(`Processing ${file.name} (${fileSize} MB)...`, {
+        duration: Infinity // Keep until we dismiss it
+      });
+      
+      const onProgress = (progress: ProcessingProgress) => {
+        // Update progress toast for large files
+        if (file.size > 50 * 1024 * 1024) { // > 50MB
+          const percent = Math.round((progress.processedBytes / progress.totalBytes) * 100);
+          const throughputMB = progress.throughput.toFixed(1);
+          const etaMinutes = Math.round(progress.estimatedTimeRemaining / 60000);
+            
           if (progressToast) {
             toast.dismiss(progressToast);
           }
-          
-          // Show specific error message
-          let errorMessage = 'File processing failed';
-          if (error instanceof Error) {
-            errorMessage = error.message;
-          } else if (typeof error === 'string') {
-            errorMessage = error;
-          }
-          
-          toast.error(`Failed to process ${file.name}`, {
-            description: errorMessage
-          });
-          
-          toast.error(`Failed to process ${file.name}`, {
-            description: error instanceof Error ? error.message : 'Please check the file format and try again'
-          });
+          progressToast = toast.info(
+            `Processing ${file.name} - ${percent}% complete`, 
+            {
+              description: `${progress.processedRows.toLocaleString()} records processed • ${throughputMB} MB/s • ETA: ${etaMinutes}m`,
+              duration: Infinity,
+              action: cancelAction
+            }
+          );
+        }
+      };
+      
+      if (isArchiveFile(file.name)) {
+        // Archive members become child evidence files, each parsed on its own
+        const { archive, members: parsedMembers } = await processEvidenceArchive(file, currentCase.id, onProgress, { ...options, signal: controller.signal });
+        const intelligence = await loadIPIntelligence();
+        const towers = await loadCellTowers(currentCase.id);
+        const members = parsedMembers.map(member => ({
+          ...member,
+          records: resolveTowerLocations(enrichRecords(member.records, intelligence), towers)
+        }));
+        if (progressToast) {
+          toast.dismiss(progressToast);
+        }
+        
+        const memberRecords = members.flatMap(member => member.records);
+        const failed = members.filter(member => member.evidence.status === 'error').length;
+        const failedNote = failed > 0 ? ` • ${failed} member(s) failed` : '';
+        stageUpload({
+          file,
+          archive,
+          members,
+          detection: detectDuplicateRecords(memberRecords, await findEarlierRecords(memberRecords, useAppStore.getState().records)),
+          successMessage: `${members.length} member file(s) • ${(archive.recordCount || 0).toLocaleString()} records parsed${failedNote} • ${archive.sha256.slice(0, 8)}... archive hash verified`
+        });
+        return;
+      }
+      
+      // Records go into the case batch by batch as they are parsed, with destination ASN,
+      // organization and country from the imported IP intelligence files and subscriber
+      // location from the case's cell-site registries. Repeats of earlier records go in
+      // linked until the analyst decides whether to keep them
+      const intelligence = await loadIPIntelligence();
+      const towers = await loadCellTowers(currentCase.id);
+      const detection: DuplicateDetection = { matches: new Map(), byEvidence: {} };
+      const onRecords = async (parsedRecords: IPDRRecord[]) => {
+        if (parsedRecords.length === 0) return;
+        streamedFileId = parsedRecords[0].sourceFileId;
+        const records = resolveTowerLocations(enrichRecords(parsedRecords, intelligence), towers);
+        const batch = detectDuplicateRecords(records, await findEarlierRecords(records, useAppStore.getState().records));
+        batch.matches.forEach((earlier, id) => detection.matches.set(id, earlier));
+        Object.entries(batch.byEvidence).forEach(([evidenceId, count]) => {
+          detection.byEvidence[evidenceId] = (detection.byEvidence[evidenceId] || 0) + count;
+        });
+        await addRecords(resolveDuplicateRecords(records, batch, 'link'));
+      };
+      const { evidence } = await processAirtelFile(file, currentCase.id, onProgress, { ...options, signal: controller.signal, onRecords });
+      
+      // Dismiss progress toast
+      if (progressToast) {
+        toast.dismiss(progressToast);
+      }
+      
+      const evidenceWithStatus: EvidenceFile = {
+        ...evidence,
+        status: 'completed',
+        errorCount: evidence.errorCount || 0
+      };
+      const rejectedNote = evidenceWithStatus.errorCount ? ` • ${evidenceWithStatus.errorCount.toLocaleString()} rows rejected` : '';
+      stageUpload({
+        file,
+        members: [{ evidence: evidenceWithStatus, records: [] }],
+        detection,
+        stored: true,
+        successMessage: `${getOperatorDisplayName(evidence.operator)} • ${(evidence.recordCount || 0).toLocaleString()} records parsed${rejectedNote} • ${evidence.sha256.slice(0, 8)}... hash verified • ${fileSize} MB processed`
+      });
+    } catch (error) {
+      console.error('File processing failed:', error);
+      
+      // Records of a parse that cannot be resumed never become evidence, so they leave the case
+      if (streamedFileId) {
+        const key = parseCheckpointKey(file, currentCase.id);
+        const checkpoints = await getParseCheckpointStore()?.list(currentCase.id).catch(() => []);
+        if (!checkpoints?.some(checkpoint => checkpoint.key === key)) {
+          await removeFileRecords(currentCase.id, streamedFileId);
         }
-      } else {
-        toast.warning(`${file.name} not recognized as Airtel format`, {
-          description: 'Only Airtel IPDR files are currently supported'
+      }
+      
+      // Dismiss progress toast on error
+      if (progressToast) {
+        toast.dismiss(progressToast);
+      }
+      
+      if (controller.signal.aborted) {
+        toast.info(`Cancelled processing of ${file.name}`, {
+          description: 'Large files can be resumed by selecting the same file again'
         });
+        return;
       }
+      
+      // Show specific error message
+      let errorMessage = 'File processing failed';
+      if (error instanceof Error) {
+        errorMessage = error.message;
+      } else if (typeof error === 'string') {
+        errorMessage = error;
+      }
+      
+      toast.error(`Failed to process ${file.name}`, {
+        description: errorMessage
+      });
+      
+      toast.error(`Failed to process ${file.name}`, {
+        description: error instanceof Error ? error.message : 'Please check the file format and try again'
+      });
+    } finally {
+      refreshInterruptedParses();
+    }
+  };
+
+  // Uploads with duplicates wait for the analyst; the rest go straight into the case
+  const stageUpload = (upload: ParsedUpload) => {
+    if (upload.detection.matches.size > 0) {
+      setDuplicateUploads(prev => [...prev, upload]);
+      return;
+    }
+    addUpload(upload);
+  };
+
+  const resolveDuplicates = async (upload: ParsedUpload, action: DuplicateAction) => {
+    setDuplicateUploads(prev => prev.filter(u => u !== upload));
+    const subject = upload.archive?.id || upload.members[0]?.evidence.id;
+    try {
+      await globalCoC.addAuditEntry('analyst', 'upload', subject, {
+        evidenceIds: upload.members.map(member => member.evidence.id),
+        duplicateRecords: upload.detection.matches.size,
+        duplicatesByEarlierEvidence: upload.detection.byEvidence,
+        duplicateAction: action,
+        action: 'duplicates_detected'
+      });
+    } catch (error) {
+      console.error('Failed to log duplicate resolution:', error);
     }
+    addUpload(upload, action);
+  };
+
+  // The parsed evidence keeps its records as read; only what enters the case changes
+  const addUpload = ({ file, archive, members, detection, stored, successMessage }: ParsedUpload, action?: DuplicateAction) => {
+    const targetCaseId = currentCase?.id || caseId;
+    if (archive) {
+      addEvidenceFile(archive);
+      attachFileToCase(targetCaseId, archive);
+    }
+    const added = members.map(({ evidence, records }) => {
+      const duplicateCount = stored ? detection.matches.size : records.filter(record => detection.matches.has(record.id)).length;
+      const evidenceWithDuplicates: EvidenceFile = action && duplicateCount > 0
+        ? { ...evidence, duplicateCount, duplicateAction: action }
+        : evidence;
+      addEvidenceFile(evidenceWithDuplicates);
+      attachFileToCase(targetCaseId, evidenceWithDuplicates);
+      if (!stored) addRecords(action ? resolveDuplicateRecords(records, detection, action) : records);
+      return evidenceWithDuplicates;
+    });
+    if (stored && action === 'skip') removeLinkedDuplicates(Array.from(detection.matches.keys()));
+    setParsedFiles(prev => [...added, ...prev]);
+
+    const duplicateNote = action
+      ? ` • ${detection.matches.size.toLocaleString()} duplicates ${action === 'skip' ? 'skipped' : 'linked'}`
+      : '';
+    toast.success(`Successfully processed ${file.name}`, {
+      description: `${successMessage}${duplicateNote}`
+    });
   };
 
   const [
@@ -135,25 +382,13 @@ export function IPDRFileUpload({ caseId, onFilesUploaded }: IPDRFileUploadProps)
       getInputProps,
     },
   ] = useFileUpload({
-    accept: ".csv,.xlsx,.xls,.txt,.dat,.xml,.zip",
+    accept: ".csv,.xlsx,.xls,.txt,.dat,.json,.ndjson,.jsonl,.xml,.zip,.gz",
     maxSize,
     multiple: true,
     maxFiles,
     onUpload: handleUpload
   });
 
-  const detectOperator = (filename: string): TelecomOperator | undefined => {
-    const name = filename.toLowerCase();
-    if (name.includes('airtel')) return 'airtel';
-    if (name.includes('jio')) return 'jio';
-    if (name.includes('vodafone') || name.includes('vi')) return 'vodafone';
-    if (name.includes('bsnl')) return 'bsnl';
-    
-    // For demo purposes, default to airtel if no operator detected
-    // In production, this would be determined by file content analysis
-    return 'airtel';
-  };
-
   const getStatusIcon = (file: UploadFile) => {
     switch (file.status) {
       case 'uploading':
@@ -209,7 +444,7 @@ export function IPDRFileUpload({ caseId, onFilesUploaded }: IPDRFileUploadProps)
           <h3 className="mb-2 text-lg font-semibold">Upload IPDR Files</h3>
           <p className="mb-1.5 text-sm font-medium">Drop your IPDR files here</p>
           <p className="text-muted-foreground text-sm mb-4">
-            Supports CSV, Excel, XML, TXT, DAT files (max. {maxSizeMB}MB each) • Enterprise-grade streaming processing
+            Supports CSV, Excel, JSON/NDJSON, XML, TXT, DAT files (max. {maxSizeMB}MB each) • Enterprise-grade streaming processing
           </p>
           
           <div className="text-xs text-blue-600 mb-4">
@@ -247,6 +482,88 @@ export function IPDRFileUpload({ caseId, onFilesUploaded }: IPDRFileUploadProps)
         </div>
       )}
 
+      {/* Operator confirmation */}
+      {pendingFiles.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-medium text-sm">Confirm Operator ({pendingFiles.length})</h4>
+          {pendingFiles.map(({ file, fingerprint }) => (
+            <OperatorConfirmation
+              key={`${file.name}_${file.lastModified}_${file.size}`}
+              file={file}
+              fingerprint={fingerprint}
+              onConfirm={(operator, sheetNames) => confirmOperator(file, fingerprint, operator, sheetNames)}
+              onMapColumns={(operator, sheetNames) => mapColumns(file, fingerprint, operator, sheetNames)}
+              onSkip={() => skipFile(file)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Column mapping */}
+      {mappingFile && (
+        <ColumnMappingWizard
+          key={`${mappingFile.file.name}_${mappingFile.file.lastModified}_${mappingFile.operator}`}
+          file={mappingFile.file}
+          fingerprint={mappingFile.fingerprint}
+          operator={mappingFile.operator}
+          onApply={applyMapping}
+          onCancel={() => setMappingFile(null)}
+        />
+      )}
+
+      {/* Interrupted parses */}
+      {interruptedParses.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-medium text-sm">Interrupted Parses ({interruptedParses.length})</h4>
+          {interruptedParses.map(checkpoint => (
+            <div key={checkpoint.key} className="bg-background flex items-center justify-between gap-3 rounded-lg border p-4">
+              <div className="flex min-w-0 items-center gap-3">
+                <RotateCcwIcon className="size-4 shrink-0 text-blue-600" />
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{checkpoint.filename}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Stopped at {Math.round((checkpoint.state.byteOffset / checkpoint.size) * 100)}% • {checkpoint.state.recordCount.toLocaleString()} records saved • Select the same file to resume
+                  </p>
+                </div>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => discardInterruptedParse(checkpoint)}>
+                Discard
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Duplicate records */}
+      {duplicateUploads.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-medium text-sm">Duplicate Records ({duplicateUploads.length})</h4>
+          {duplicateUploads.map(upload => (
+            <DuplicateRecordsPrompt
+              key={upload.archive?.id || upload.members[0]?.evidence.id}
+              filename={upload.file.name}
+              totalRecords={upload.members.reduce((sum, member) => sum + (upload.stored ? member.evidence.recordCount || 0 : member.records.length), 0)}
+              summaries={describeDuplicates(upload.detection, [...evidenceFiles, ...upload.members.map(member => member.evidence)])}
+              onResolve={(action) => resolveDuplicates(upload, action)}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Parse results */}
+      {parsedFiles.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-medium text-sm">Parse Results ({parsedFiles.length})</h4>
+          {parsedFiles.map(evidence => (
+            <ParseResultsPanel
+              key={evidence.id}
+              evidence={evidence}
+              onDismiss={() => setParsedFiles(prev => prev.filter(f => f.id !== evidence.id))}
+            />
+          ))}
+        </div>
+      )}
+
       {/* File list */}
       {files.length > 0 && (
         <div className="space-y-3">
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangleIcon, CheckIcon, Columns3Icon, ScanSearchIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TelecomOperator } from '@/lib/types';
+import { FormatFingerprint } from '@/lib/format-fingerprint';
+import { CSV_DELIMITER_LABELS } from '@/lib/csv-tokenizer';
+import { getOperatorColor, getOperatorDisplayName } from '@/utils/formatters';
+
+// Guesses below this confidence are highlighted for extra scrutiny
+const LOW_CONFIDENCE = 0.5;
+
+interface OperatorConfirmationProps {
+  file: File;
+  fingerprint: FormatFingerprint;
+  // sheetNames is only set when the analyst changed the workbook sheet selection
+  onConfirm: (operator: TelecomOperator, sheetNames?: string[]) => void;
+  onMapColumns: (operator: TelecomOperator, sheetNames?: string[]) => void;
+  onSkip: () => void;
+}
+
+export function OperatorConfirmation({ file, fingerprint, onConfirm, onMapColumns, onSkip }: OperatorConfirmationProps) {
+  const best = fingerprint.guesses[0];
+  const [operator, setOperator] = useState<TelecomOperator>(best?.operator || 'airtel');
+  const lowConfidence = !best || best.confidence < LOW_CONFIDENCE;
+  const [sheetNames, setSheetNames] = useState<string[] | undefined>();
+  const defaultSheets = (fingerprint.sheets || []).filter(sheet => sheet.rowCount > 0).map(sheet => sheet.name);
+  const selectedSheets = sheetNames || defaultSheets;
+
+  const toggleSheet = (name: string, checked: boolean) => {
+    setSheetNames(checked
+      ? [...selectedSheets, name]
+      : selectedSheets.filter(sheet => sheet !== name));
+  };
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <ScanSearchIcon className="size-4 shrink-0 text-blue-600" />
+          <p className="truncate text-sm font-medium">{file.name}</p>
+        </div>
+        <Badge variant="outline" className="shrink-0 uppercase">
+          {fingerprint.layout}
+          {fingerprint.delimiter && ` • ${CSV_DELIMITER_LABELS[fingerprint.delimiter]}`}
+        </Badge>
+      </div>
+
+      <div className="space-y-1.5">
+        {fingerprint.guesses.filter(g => g.confidence > 0).map(guess => (
+          <div key={guess.profileId} className="flex items-center gap-2 text-xs">
+            <span className="w-28 shrink-0 font-medium" style={{ color: getOperatorColor(guess.operator) }}>
+              {getOperatorDisplayName(guess.operator)}
+            </span>
+            <div className="h-1.5 flex-1 rounded-full bg-gray-200">
+              <div
+                className="h-1.5 rounded-full"
+                style={{ width: `${Math.round(guess.confidence * 100)}%`, backgroundColor: getOperatorColor(guess.operator) }}
+              />
+            </div>
+            <span className="w-10 text-right text-muted-foreground">{Math.round(guess.confidence * 100)}%</span>
+          </div>
+        ))}
+        {best && best.signals.length > 0 && (
+          <ul className="list-disc pl-5 text-xs text-muted-foreground">
+            {best.signals.map(signal => <li key={signal}>{signal}</li>)}
+          </ul>
+        )}
+        {fingerprint.archiveMember && (
+          <p className="text-xs text-muted-foreground">Archive layout taken from {fingerprint.archiveMember}</p>
+        )}
+        {fingerprint.timestampFormat && fingerprint.dateOrder !== 'ambiguous' && (
+          <p className="text-xs text-muted-foreground">Timestamp format: {fingerprint.timestampFormat}</p>
+        )}
+        {fingerprint.dateOrder === 'ambiguous' && (
+          <p className="flex items-center gap-1 text-xs text-amber-700">
+            <AlertTriangleIcon className="size-3.5 shrink-0" />
+            Dates could be day-first or month-first; the date format must be confirmed before parsing
+          </p>
+        )}
+      </div>
+
+      {fingerprint.sheets && fingerprint.sheets.length > 1 && (
+        <div className="space-y-1.5">
+          <p className="text-xs font-medium">Sheets to parse</p>
+          {fingerprint.sheets.map(sheet => (
+            <label key={sheet.name} className="flex items-center gap-2 text-xs">
+              <Checkbox
+                checked={selectedSheets.includes(sheet.name)}
+                onCheckedChange={(checked) => toggleSheet(sheet.name, checked === true)}
+              />
+              <span className="font-medium">{sheet.name}</span>
+              <span className="text-muted-foreground">
+                {sheet.rowCount > 0
+                  ? `~${sheet.rowCount.toLocaleString()} rows • header on row ${sheet.headerRowNumber}`
+                  : 'empty'}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {lowConfidence && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+          <AlertTriangleIcon className="size-4 shrink-0" />
+          Operator could not be identified with confidence. Please verify before parsing.
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Select value={operator} onValueChange={(value) => setOperator(value as TelecomOperator)}>
+          <SelectTrigger className="h-9 w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(['airtel', 'jio', 'vodafone', 'bsnl'] as TelecomOperator[]).map(op => (
+              <SelectItem key={op} value={op}>{getOperatorDisplayName(op)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" disabled={selectedSheets.length === 0 && !!fingerprint.sheets} onClick={() => onConfirm(operator, sheetNames)}>
+          <CheckIcon className="-ms-1 size-4" />
+          Confirm &amp; Parse
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onMapColumns(operator, sheetNames)}>
+          <Columns3Icon className="-ms-1 size-4" />
+          Map Columns
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onSkip}>
+          Skip
+        </Button>
+      </div>
+    </div>
+  );
+}
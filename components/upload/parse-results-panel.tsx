@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangleIcon, CheckCircleIcon, ChevronDownIcon, ChevronUpIcon, DownloadIcon, XIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { EvidenceFile, ParseIssueCode } from '@/lib/types';
+import { PARSE_ISSUE_LABELS, rejectedRowsToCSV } from '@/lib/parse-issues';
+
+// Issues listed inline; the full set is in the CSV download
+const PREVIEW_ISSUES = 20;
+
+interface ParseResultsPanelProps {
+  evidence: EvidenceFile;
+  onDismiss: () => void;
+}
+
+export function ParseResultsPanel({ evidence, onDismiss }: ParseResultsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const issues = evidence.parseIssues || [];
+  const rejected = evidence.errorCount || 0;
+  const warnings = issues.filter(issue => issue.severity === 'warning').length;
+
+  const countsByCode = issues.reduce((counts, issue) => {
+    counts[issue.code] = (counts[issue.code] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<ParseIssueCode, number>>);
+
+  const downloadRejectedRows = () => {
+    const blob = new Blob([rejectedRowsToCSV(issues)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${evidence.filename.replace(/\.[^.]+$/, '')}_rejected_rows.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-lg border bg-background p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          {rejected > 0
+            ? <AlertTriangleIcon className="size-4 shrink-0 text-amber-600" />
+            : <CheckCircleIcon className="size-4 shrink-0 text-green-600" />}
+          <p className="truncate text-sm font-medium">{evidence.filename}</p>
+        </div>
+        <Button size="icon" variant="ghost" className="size-7 shrink-0" onClick={onDismiss} aria-label="Dismiss results">
+          <XIcon className="size-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="outline">{(evidence.recordCount || 0).toLocaleString()} records</Badge>
+        <Badge variant="outline" className={rejected > 0 ? 'border-red-200 text-red-700' : ''}>
+          {rejected.toLocaleString()} rejected
+        </Badge>
+        {warnings > 0 && (
+          <Badge variant="outline" className="border-amber-200 text-amber-700">{warnings.toLocaleString()} warnings</Badge>
+        )}
+        {(evidence.duplicateCount || 0) > 0 && (
+          <Badge variant="outline" className="border-amber-200 text-amber-700">
+            {evidence.duplicateCount!.toLocaleString()} duplicates {evidence.duplicateAction === 'skip' ? 'skipped' : 'linked'}
+          </Badge>
+        )}
+        {evidence.sourceTimezone && (
+          <Badge variant="outline" title={evidence.timestampFormats?.join(', ')}>Times read in {evidence.sourceTimezone}</Badge>
+        )}
+        {(Object.keys(countsByCode) as ParseIssueCode[]).map(code => (
+          <Badge key={code} variant="secondary">{PARSE_ISSUE_LABELS[code]}: {countsByCode[code]}</Badge>
+        ))}
+      </div>
+
+      {issues.length > 0 && (
+        <>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => setExpanded(!expanded)}>
+              {expanded ? <ChevronUpIcon className="-ms-1 size-4" /> : <ChevronDownIcon className="-ms-1 size-4" />}
+              {expanded ? 'Hide issues' : 'Show issues'}
+            </Button>
+            {rejected > 0 && (
+              <Button size="sm" variant="outline" onClick={downloadRejectedRows}>
+                <DownloadIcon className="-ms-1 size-4" />
+                Download Rejected Rows
+              </Button>
+            )}
+          </div>
+          {rejected > issues.filter(issue => issue.severity === 'error').length && (
+            <p className="text-xs text-muted-foreground">
+              Only the first {issues.length.toLocaleString()} issues were retained for this file.
+            </p>
+          )}
+
+          {expanded && (
+            <div className="max-h-72 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead className="w-32">Reason</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Raw Row</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {issues.slice(0, PREVIEW_ISSUES).map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="text-xs">{issue.rowNumber}</TableCell>
+                      <TableCell className="text-xs">
+                        <span className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                          {PARSE_ISSUE_LABELS[issue.code]}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-xs">{issue.message}</TableCell>
+                      <TableCell className="max-w-64 truncate font-mono text-xs">{issue.rawLine}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
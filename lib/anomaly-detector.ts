@@ -1,6 +1,11 @@
 'use client';
 
 import { IPDRRecord, Anomaly } from './types';
+import { CustomAnomalyRule, RuleDefinition, runRuleDefinition, SEVERITY_SCORES } from './anomaly-rules';
+import { DEFAULT_BASELINE_CONFIG, detectBaselineDeviations } from './behavior-baseline';
+import { DEFAULT_BEACON_CONFIG, detectBeaconingAnomalies } from './beacon-detector';
+import { DEFAULT_ANONYMIZER_CONFIG, detectAnonymizerUsage } from './anonymizer-indicators';
+import { throwIfDetectionCancelled } from './anomaly-scan';
 
 // Enhanced anomaly detection with Web Worker support and optimized algorithms
 export interface AnomalyDetectionProgress {
@@ -25,6 +30,7 @@ export interface AnomalyRule {
   severity: 'low' | 'medium' | 'high' | 'critical';
   enabled: boolean;
   config: Record<string, any>;
+  definition?: RuleDefinition; // Custom rules are declarative (see anomaly-rules); built-in rules run by id
 }
 
 export const DEFAULT_ANOMALY_RULES: AnomalyRule[] = [
@@ -71,6 +77,40 @@ export const DEFAULT_ANOMALY_RULES: AnomalyRule[] = [
     config: {
       minOperators: 2
     }
+  },
+  {
+    id: 'watched_application',
+    name: 'Watched Application Use',
+    description: 'Detects subscribers using applications under watch (matched from destination IP, port and protocol)',
+    severity: 'medium',
+    enabled: false, // Nothing is watched until the analyst picks applications
+    config: {
+      applications: []
+    }
+  },
+  {
+    id: 'behavior_baseline',
+    name: 'Behavioral Baseline Deviation',
+    description: "Learns each subscriber's normal hourly volume, contacts, protocols and active hours from a training window and flags statistical deviations",
+    severity: 'medium',
+    enabled: true,
+    config: { ...DEFAULT_BASELINE_CONFIG }
+  },
+  {
+    id: 'beaconing',
+    name: 'Periodic Beaconing',
+    description: 'Detects connections from a source to a destination at regular intervals, as C2 and remote-access tools make when phoning home',
+    severity: 'high',
+    enabled: true,
+    config: { ...DEFAULT_BEACON_CONFIG }
+  },
+  {
+    id: 'anonymizer_usage',
+    name: 'VPN / Tor / Proxy Usage',
+    description: 'Matches destination IPs and ports against imported Tor, VPN and proxy indicator lists, and flags long-lived single UDP flows on VPN ports',
+    severity: 'medium',
+    enabled: true,
+    config: { ...DEFAULT_ANONYMIZER_CONFIG }
   }
 ];
 
@@ -297,27 +337,81 @@ export function detectCrossOperatorAnomalies(records: IPDRRecord[]): Anomaly[] {
   return anomalies;
 }
 
+export function detectApplicationAnomalies(
+  records: IPDRRecord[],
+  applications: string[],
+  severity: AnomalyRule['severity']
+): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  const caseId = records[0]?.caseId || 'unknown';
+  const watched = new Set(applications.map(application => application.toLowerCase()));
+
+  // Group watched-application sessions by source IP and application
+  const usage = new Map<string, { sourceIP: string; application: string; sessions: number; bytes: number }>();
+  records.forEach(record => {
+    if (!record.application || !watched.has(record.application.toLowerCase())) return;
+    const key = `${record.aParty}|${record.application}`;
+    const entry = usage.get(key) || { sourceIP: record.aParty, application: record.application, sessions: 0, bytes: 0 };
+    entry.sessions++;
+    entry.bytes += record.bytesTransferred;
+    usage.set(key, entry);
+  });
+
+  usage.forEach(({ sourceIP, application, sessions, bytes }) => {
+    // Severity is the rule's; more sessions only raise the score within it
+    const score = Math.min(100, SEVERITY_SCORES[severity] + Math.min(15, sessions - 1));
+
+    anomalies.push({
+      id: `anom_${sourceIP}_app_${application.replace(/\W+/g, '_').toLowerCase()}_${Date.now()}`,
+      caseId,
+      entity: sourceIP,
+      entityType: 'ip',
+      rule: 'watched_application',
+      score,
+      reason: `${application} use: ${sessions} session(s), ${formatBytes(bytes)}`,
+      timestamp: new Date(),
+      severity
+    });
+  });
+
+  return anomalies;
+}
+
 export async function runAllAnomalyDetection(
   records: IPDRRecord[], 
   customRules?: Partial<AnomalyRule>[],
-  onProgress?: (progress: AnomalyDetectionProgress) => void
+  onProgress?: (progress: AnomalyDetectionProgress) => void,
+  signal?: AbortSignal
 ): Promise<Anomaly[]> {
   let allAnomalies: Anomaly[] = [];
+  // Linked duplicates repeat records already counted
+  records = records.filter(record => !record.duplicateOf);
+  const startTime = Date.now();
 
-  // Merge custom rules with defaults
-  const rules = DEFAULT_ANOMALY_RULES.map(rule => {
+  // Merge custom rules with defaults; analyst-defined rules run after the built-in ones
+  const rules: AnomalyRule[] = DEFAULT_ANOMALY_RULES.map(rule => {
     const customRule = customRules?.find(cr => cr.id === rule.id);
     return { ...rule, ...customRule };
   });
+  customRules?.forEach(rule => {
+    if (rule.definition && !rules.some(r => r.id === rule.id)) rules.push(rule as CustomAnomalyRule);
+  });
+
+  // Batched rules stop at their next progress report once cancelled
+  const report = (progress: AnomalyDetectionProgress) => {
+    throwIfDetectionCancelled(signal);
+    onProgress?.(progress);
+  };
 
   // Run enabled rules with progress tracking
   for (const rule of rules) {
     if (!rule.enabled) continue;
+    throwIfDetectionCancelled(signal);
 
     try {
       switch (rule.id) {
         case 'late_night_activity':
-          const lateNightAnomalies = await detectLateNightAnomalies(records, rule.config as TimeRange, onProgress);
+          const lateNightAnomalies = await detectLateNightAnomalies(records, rule.config as TimeRange, report);
           allAnomalies.push(...lateNightAnomalies);
           break;
         case 'high_volume':
@@ -332,78 +426,185 @@ export async function runAllAnomalyDetection(
           const crossOpAnomalies = detectCrossOperatorAnomalies(records);
           allAnomalies.push(...crossOpAnomalies);
           break;
+        case 'watched_application':
+          allAnomalies.push(...detectApplicationAnomalies(records, rule.config.applications || [], rule.severity));
+          break;
+        case 'behavior_baseline':
+          allAnomalies.push(...await detectBaselineDeviations(records, rule.config, report, signal));
+          break;
+        case 'beaconing':
+          allAnomalies.push(...await detectBeaconingAnomalies(records, rule.config, report));
+          break;
+        case 'anonymizer_usage':
+          allAnomalies.push(...await detectAnonymizerUsage(records, rule.config, report));
+          break;
+        default:
+          if (rule.definition) {
+            allAnomalies.push(...await runRuleDefinition(records, rule as CustomAnomalyRule, report));
+          }
       }
     } catch (error) {
+      throwIfDetectionCancelled(signal);
       console.error(`Error running rule ${rule.id}:`, error);
     }
+
+    // Every rule reports once done, including those that run in a single pass
+    const elapsed = Date.now() - startTime;
+    report({
+      processedRecords: records.length,
+      totalRecords: records.length,
+      currentRule: rule.id,
+      anomaliesFound: allAnomalies.length,
+      estimatedTimeRemaining: 0,
+      throughput: elapsed > 0 ? records.length / (elapsed / 1000) : records.length
+    });
   }
 
   return allAnomalies;
 }
 
-// Web Worker-based anomaly detection for very large datasets
+// Messages between AnomalyDetectionWorker and the worker in anomaly-worker.ts.
+// Records and anomalies are structured-cloned, so their Dates arrive as Dates.
+export type AnomalyWorkerRequest =
+  | { type: 'detect'; jobId: number; records: IPDRRecord[]; rules: Partial<AnomalyRule>[] }
+  | { type: 'cancel'; jobId: number };
+
+export type AnomalyWorkerResponse =
+  | { type: 'progress'; jobId: number; progress: AnomalyDetectionProgress }
+  | { type: 'done'; jobId: number; anomalies: Anomaly[] }
+  | { type: 'error'; jobId: number; message: string };
+
+// The part of Worker the detector uses
+export interface AnomalyWorkerLike {
+  postMessage(message: AnomalyWorkerRequest): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<AnomalyWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export interface AnomalyDetectionOptions {
+  onProgress?: (progress: AnomalyDetectionProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingDetection {
+  resolve: (anomalies: Anomaly[]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AnomalyDetectionProgress) => void;
+  started: boolean; // Set by the first message; a worker that fails before then never started
+  retry: () => Promise<Anomaly[]>; // The same detection on the main thread
+}
+
+// Web Worker-based anomaly detection for very large datasets.
+// The worker runs runAllAnomalyDetection itself, so results match the main thread exactly;
+// where a worker is unavailable or fails to start, detection runs on the main thread instead.
 export class AnomalyDetectionWorker {
-  private worker: Worker | null = null;
-  private messageId = 0;
-  private pendingMessages = new Map<number, { resolve: Function; reject: Function }>();
-
-  constructor() {
-    if (typeof window !== 'undefined' && typeof Worker !== 'undefined') {
-      this.worker = new Worker('/workers/anomaly-detection.js');
-      this.worker.onmessage = this.handleWorkerMessage.bind(this);
-    }
-  }
+  private worker: AnomalyWorkerLike | null = null;
+  private workerFailed = false;
+  private nextJobId = 0;
+  private pending = new Map<number, PendingDetection>();
+
+  constructor(private createWorker: (() => AnomalyWorkerLike) | null = defaultAnomalyWorkerFactory()) {}
 
   async detectAnomalies(
     records: IPDRRecord[], 
-    rules: AnomalyRule[],
-    onProgress?: (progress: AnomalyDetectionProgress) => void
+    rules: Partial<AnomalyRule>[],
+    { onProgress, signal }: AnomalyDetectionOptions = {}
   ): Promise<Anomaly[]> {
-    if (!this.worker) {
-      // Fallback to main thread if Web Workers not available
-      return runAllAnomalyDetection(records, rules, onProgress);
-    }
-
-    return new Promise((resolve, reject) => {
-      const messageId = ++this.messageId;
-      this.pendingMessages.set(messageId, { resolve, reject });
-
-      this.worker!.postMessage({
-        id: messageId,
-        type: 'detect_anomalies',
-        records: records.map(r => ({
-          ...r,
-          startTimestamp: r.startTimestamp.toISOString(),
-          endTimestamp: r.endTimestamp.toISOString()
-        })),
-        rules
+    throwIfDetectionCancelled(signal);
+    const onMainThread = () => runAllAnomalyDetection(records, rules, onProgress, signal);
+    const worker = this.acquire();
+    if (!worker) return onMainThread();
+
+    const jobId = ++this.nextJobId;
+    return new Promise<Anomaly[]>((resolve, reject) => {
+      const settle = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(jobId);
+      };
+      const onAbort = () => {
+        settle();
+        this.worker?.postMessage({ type: 'cancel', jobId });
+        reject(new Error('Anomaly detection was cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      this.pending.set(jobId, {
+        resolve: anomalies => { settle(); resolve(anomalies); },
+        reject: error => { settle(); reject(error); },
+        onProgress,
+        started: false,
+        retry: () => { settle(); return onMainThread(); }
       });
+      worker.postMessage({ type: 'detect', jobId, records, rules });
     });
   }
 
-  private handleWorkerMessage(event: MessageEvent) {
-    const { id, type, data, error } = event.data;
-    const pending = this.pendingMessages.get(id);
-    
-    if (!pending) return;
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(pending => pending.reject(new Error('Anomaly detection worker was terminated')));
+  }
 
-    if (error) {
-      pending.reject(new Error(error));
-    } else {
-      pending.resolve(data);
+  private acquire(): AnomalyWorkerLike | null {
+    if (this.worker) return this.worker;
+    if (!this.createWorker || this.workerFailed) return null;
+    try {
+      this.worker = this.createWorker();
+    } catch (error) {
+      console.warn('Anomaly worker could not start; detecting on the main thread:', error);
+      this.workerFailed = true;
+      return null;
     }
+    this.worker.onmessage = (event) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => this.handleWorkerError(event);
+    return this.worker;
+  }
 
-    this.pendingMessages.delete(id);
+  private handleResponse(response: AnomalyWorkerResponse) {
+    const pending = this.pending.get(response.jobId);
+    if (!pending) return;
+    pending.started = true;
+
+    switch (response.type) {
+      case 'progress':
+        pending.onProgress?.(response.progress);
+        break;
+      case 'done':
+        pending.resolve(response.anomalies);
+        break;
+      case 'error':
+        pending.reject(new Error(response.message));
+        break;
+    }
   }
 
-  terminate() {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
+  // A worker error ends every detection on it; those that never heard back are rerun on the main thread
+  private handleWorkerError(event: ErrorEvent) {
+    const neverStarted = Array.from(this.pending.values()).every(pending => !pending.started);
+    this.worker?.terminate();
+    this.worker = null;
+    if (neverStarted) {
+      console.warn('Anomaly worker failed to start; detecting on the main thread:', event.message);
+      this.workerFailed = true;
     }
+
+    Array.from(this.pending.values()).forEach(pending => {
+      if (pending.started) {
+        pending.reject(new Error(event.message || 'Anomaly detection worker failed'));
+      } else {
+        const { resolve, reject } = pending;
+        pending.retry().then(resolve, reject);
+      }
+    });
   }
 }
 
+function defaultAnomalyWorkerFactory(): (() => AnomalyWorkerLike) | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+  return () => new Worker(new URL('./anomaly-worker.ts', import.meta.url), { type: 'module' });
+}
+
 // Factory function for creating anomaly detection workers
 export function createAnomalyDetectionWorker(): AnomalyDetectionWorker {
   return new AnomalyDetectionWorker();
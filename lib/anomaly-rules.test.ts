@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CustomAnomalyRule,
+  EXAMPLE_RULE_DEFINITION,
+  exportCustomRules,
+  parseCustomRules,
+  runRuleDefinition,
+  validateRuleDefinition
+} from './anomaly-rules';
+import { AnomalyDetectionProgress, DEFAULT_ANOMALY_RULES, runAllAnomalyDetection } from './anomaly-detector';
+import { IPDRRecord } from './types';
+
+const NIGHT_FANOUT: CustomAnomalyRule = {
+  id: 'night_cloudflare_fanout',
+  name: 'Night-time Cloudflare fan-out',
+  description: 'More than 20 distinct AS13335 IPs within 10 minutes between 22:00 and 06:00',
+  severity: 'high',
+  enabled: true,
+  config: {},
+  definition: EXAMPLE_RULE_DEFINITION
+};
+
+// count sessions, minutesApart apart from start, each to a different destination IP
+function sessions(subscriberID: string, start: string, count: number, minutesApart: number, asn = 13335): IPDRRecord[] {
+  return Array.from({ length: count }, (_, i) => {
+    const startTimestamp = new Date(new Date(start).getTime() + i * minutesApart * 60 * 1000);
+    return {
+      id: `rec_${subscriberID}_${i}`,
+      caseId: 'case7',
+      aParty: `100.64.0.${subscriberID.slice(-1)}`,
+      bParty: `104.16.${i}.1`,
+      protocol: 'TCP',
+      startTimestamp,
+      endTimestamp: new Date(startTimestamp.getTime() + 5000),
+      duration: 5,
+      bytesTransferred: 2048,
+      sourceFileId: 'file7',
+      rawRowHash: `${subscriberID}_${i}`,
+      operator: 'jio',
+      subscriberID,
+      bPartyLocation: { country: 'US', region: '', city: '', timezone: '', isp: 'Cloudflare', asn }
+    };
+  });
+}
+
+describe('custom anomaly rules', () => {
+  const records = [
+    ...sessions('919800000001', '2025-08-20T17:35:00Z', 25, 0.25), // 23:05 IST, 25 IPs in 6 minutes
+    ...sessions('919800000002', '2025-08-20T17:35:00Z', 25, 3), // Same IPs spread over 72 minutes
+    ...sessions('919800000003', '2025-08-20T06:30:00Z', 25, 0.25), // 12:00 IST
+    ...sessions('919800000004', '2025-08-20T17:35:00Z', 25, 0.25, 15169) // Not in AS13335
+  ];
+
+  it('flags subscribers contacting many distinct IPs in an ASN within the window at night', async () => {
+    const progress: AnomalyDetectionProgress[] = [];
+    const anomalies = await runRuleDefinition(records, NIGHT_FANOUT, p => progress.push(p));
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      entity: '919800000001',
+      entityType: 'phone',
+      rule: 'night_cloudflare_fanout',
+      severity: 'high',
+      reason: '919800000001 contacted 25 distinct IPs in AS13335 within 10 min at night'
+    });
+    expect(anomalies[0].score).toBe(83);
+    expect(progress.at(-1)).toMatchObject({ processedRecords: 100, totalRecords: 100, currentRule: 'night_cloudflare_fanout' });
+  });
+
+  it('runs enabled custom rules alongside the built-in ones', async () => {
+    const builtInsOff = DEFAULT_ANOMALY_RULES.map(rule => ({ id: rule.id, enabled: false }));
+    const anomalies = await runAllAnomalyDetection(records, [...builtInsOff, NIGHT_FANOUT]);
+    expect(anomalies.map(a => a.entity)).toEqual(['919800000001']);
+
+    const disabled = await runAllAnomalyDetection(records, [...builtInsOff, { ...NIGHT_FANOUT, enabled: false }]);
+    expect(disabled).toEqual([]);
+  });
+
+  it('aggregates sums over a sliding window without a reason template', async () => {
+    const rule: CustomAnomalyRule = {
+      ...NIGHT_FANOUT,
+      id: 'bulk_upload',
+      name: 'Bulk upload',
+      severity: 'medium',
+      definition: {
+        version: 1,
+        where: [{ field: 'bParty', op: 'in_cidr', value: ['104.16.0.0/13'] }],
+        groupBy: ['aParty'],
+        window: { minutes: 5 },
+        aggregations: [{ id: 'bytes', fn: 'sum', field: 'bytesTransferred' }, { id: 'sessions', fn: 'count' }],
+        having: [{ aggregate: 'bytes', op: 'gte', value: 40960 }]
+      }
+    };
+    const anomalies = await runRuleDefinition(records, rule);
+
+    expect(anomalies.map(a => a.entity).sort()).toEqual(['100.64.0.1', '100.64.0.3', '100.64.0.4']);
+    expect(anomalies[0]).toMatchObject({
+      entityType: 'ip',
+      reason: 'Bulk upload: sum bytesTransferred = 40 KB, count = 20 within 5 min'
+    });
+  });
+
+  it('matches IP conditions in any notation', async () => {
+    const ipv6 = sessions('919800000005', '2025-08-20T06:30:00Z', 3, 1).map((record, i) => ({
+      ...record,
+      bParty: ['2001:db8::1', 'fe80::1%eth0', '2001:db8::2'][i]
+    }));
+    const rule: CustomAnomalyRule = {
+      ...NIGHT_FANOUT,
+      id: 'watched_ipv6',
+      definition: {
+        version: 1,
+        where: [{ field: 'bParty', op: 'in', value: ['2001:0DB8:0:0:0:0:0:1', 'FE80::0001'] }],
+        groupBy: ['aParty'],
+        aggregations: [{ id: 'sessions', fn: 'count' }],
+        having: [{ aggregate: 'sessions', op: 'gte', value: 2 }]
+      }
+    };
+
+    expect(await runRuleDefinition(ipv6, rule)).toHaveLength(1);
+  });
+
+  it('reports every problem in a definition', () => {
+    expect(validateRuleDefinition(EXAMPLE_RULE_DEFINITION)).toEqual([]);
+    expect(validateRuleDefinition({
+      version: 2,
+      where: [{ field: 'protocol', op: 'gt', value: 5 }, { field: 'bParty', op: 'in_cidr', value: '10.0.0.0/33' }],
+      timeOfDay: { startHour: 22, endHour: 24, timezone: 'Mars/Olympus' },
+      groupBy: ['msisdn'],
+      window: { minutes: 0 },
+      aggregations: [{ id: 'total', fn: 'sum', field: 'protocol' }, { id: 'total', fn: 'median', field: 'duration' }],
+      having: [{ aggregate: 'missing', op: 'gt', value: '20' }]
+    })).toEqual([
+      'version must be 1',
+      'where[0].op "gt" does not apply to string field protocol',
+      'where[1].value "10.0.0.0/33" is not a CIDR block',
+      'timeOfDay hours must be whole numbers from 0 to 23',
+      'timeOfDay.timezone "Mars/Olympus" is not a known timezone',
+      'groupBy[0] "msisdn" is not a known field',
+      'window.minutes must be a positive number',
+      'aggregations[0]: sum needs a numeric field, not protocol',
+      'aggregations[1].id "total" is used twice',
+      'aggregations[1].fn "median" must be one of count, sum, avg, min, max, distinct',
+      'having[0].aggregate "missing" is not a defined aggregate',
+      'having[0].value must be a number'
+    ]);
+  });
+
+  it('round-trips rules through export and import', () => {
+    const imported = parseCustomRules(exportCustomRules([NIGHT_FANOUT]));
+    expect(imported).toEqual([NIGHT_FANOUT]);
+
+    expect(() => parseCustomRules('{"rules": [')).toThrow('Rules file is not valid JSON');
+    expect(() => parseCustomRules(JSON.stringify({ ...NIGHT_FANOUT, id: 'high_volume' }), ['high_volume']))
+      .toThrow('Rule "Night-time Cloudflare fan-out": id "high_volume" is a built-in rule');
+    expect(() => parseCustomRules(JSON.stringify([NIGHT_FANOUT, NIGHT_FANOUT])))
+      .toThrow('id "night_cloudflare_fanout" is used by another rule in the file');
+  });
+});
@@ -0,0 +1,596 @@
+// Declarative anomaly rules written by analysts, without a code change
+// A rule filters records (field predicates and a time-of-day range), groups them (e.g. by
+// subscriber), aggregates each group over a sliding time window and flags the groups whose
+// aggregates meet every "having" condition. Example: "subscriber contacts more than 20 distinct
+// IPs in AS13335 within 10 minutes between 22:00 and 06:00" is
+//   where:        destinationASN eq 13335
+//   timeOfDay:    22 → 6 Asia/Kolkata
+//   groupBy:      subscriber
+//   window:       10 minutes
+//   aggregations: distinctIPs = distinct bParty
+//   having:       distinctIPs gt 20
+
+import { IPDRRecord, Anomaly } from './types';
+import type { AnomalyDetectionProgress, AnomalyRule } from './anomaly-detector';
+import { scanRecords } from './anomaly-scan';
+import { canonicalizeIP, ipInCIDR, ipVersion, parseCIDR } from './ip-address';
+import { formatBytes } from '@/utils/formatters';
+
+export const RULE_DEFINITION_VERSION = 1;
+
+export type RuleFieldType = 'string' | 'number' | 'ip';
+
+export type RuleField =
+  | 'subscriber'
+  | 'aParty'
+  | 'bParty'
+  | 'aPort'
+  | 'bPort'
+  | 'protocol'
+  | 'operator'
+  | 'application'
+  | 'subscriberID'
+  | 'imsi'
+  | 'imei'
+  | 'apn'
+  | 'cellID'
+  | 'publicIP'
+  | 'destinationASN'
+  | 'destinationOrganization'
+  | 'destinationCountry'
+  | 'bytesTransferred'
+  | 'duration';
+
+interface RuleFieldSpec {
+  label: string;
+  type: RuleFieldType;
+  get: (record: IPDRRecord) => string | number | undefined;
+}
+
+export const RULE_FIELDS: Record<RuleField, RuleFieldSpec> = {
+  subscriber: { label: 'Subscriber', type: 'string', get: r => r.subscriberID || r.aParty },
+  aParty: { label: 'Source IP', type: 'ip', get: r => r.aParty },
+  bParty: { label: 'Destination IP', type: 'ip', get: r => r.bParty },
+  aPort: { label: 'Source port', type: 'number', get: r => portNumber(r.aPort) },
+  bPort: { label: 'Destination port', type: 'number', get: r => portNumber(r.bPort) },
+  protocol: { label: 'Protocol', type: 'string', get: r => r.protocol },
+  operator: { label: 'Operator', type: 'string', get: r => r.operator },
+  application: { label: 'Application', type: 'string', get: r => r.application },
+  subscriberID: { label: 'Subscriber ID', type: 'string', get: r => r.subscriberID },
+  imsi: { label: 'IMSI', type: 'string', get: r => r.imsi },
+  imei: { label: 'IMEI', type: 'string', get: r => r.imei },
+  apn: { label: 'APN', type: 'string', get: r => r.apn },
+  cellID: { label: 'Cell ID', type: 'string', get: r => r.cellID },
+  publicIP: { label: 'Public IP', type: 'ip', get: r => r.publicIP },
+  destinationASN: { label: 'Destination ASN', type: 'number', get: r => r.bPartyLocation?.asn },
+  destinationOrganization: { label: 'Destination organization', type: 'string', get: r => r.bPartyLocation?.organization },
+  destinationCountry: { label: 'Destination country', type: 'string', get: r => r.bPartyLocation?.country },
+  bytesTransferred: { label: 'Bytes', type: 'number', get: r => r.bytesTransferred },
+  duration: { label: 'Duration (s)', type: 'number', get: r => r.duration }
+};
+
+export type ConditionOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'not_in' | 'contains' | 'in_cidr';
+
+export interface RecordCondition {
+  field: RuleField;
+  op: ConditionOperator;
+  value: string | number | (string | number)[];
+}
+
+// Hours in the rule's timezone; wraps past midnight when startHour > endHour
+export interface RuleTimeOfDay {
+  startHour: number; // Inclusive
+  endHour: number; // Exclusive
+  timezone: string;
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'distinct';
+
+export interface RuleAggregation {
+  id: string; // Referenced by "having" conditions and {placeholders} in the reason
+  fn: AggregateFunction;
+  field?: RuleField; // Not used by count
+}
+
+export type ComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface HavingCondition {
+  aggregate: string;
+  op: ComparisonOperator;
+  value: number;
+}
+
+export interface RuleDefinition {
+  version: typeof RULE_DEFINITION_VERSION;
+  where?: RecordCondition[];
+  timeOfDay?: RuleTimeOfDay;
+  groupBy: RuleField[];
+  window?: { minutes: number }; // Sliding window over record start times; the whole dataset without one
+  aggregations: RuleAggregation[];
+  having: HavingCondition[];
+  reason?: string; // Template with {entity}, {window} and {<aggregation id>} placeholders
+}
+
+export type CustomAnomalyRule = AnomalyRule & { definition: RuleDefinition };
+
+const CONDITION_OPERATORS: Record<RuleFieldType, ConditionOperator[]> = {
+  string: ['eq', 'neq', 'in', 'not_in', 'contains'],
+  ip: ['eq', 'neq', 'in', 'not_in', 'contains', 'in_cidr'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in']
+};
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max', 'distinct'];
+const SEVERITIES: AnomalyRule['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+// Score a rule's anomalies start from at its severity; custom rules raise it by how far the
+// first threshold is exceeded
+export const SEVERITY_SCORES: Record<AnomalyRule['severity'], number> = { low: 40, medium: 60, high: 80, critical: 95 };
+
+export const EXAMPLE_RULE_DEFINITION: RuleDefinition = {
+  version: RULE_DEFINITION_VERSION,
+  where: [{ field: 'destinationASN', op: 'eq', value: 13335 }],
+  timeOfDay: { startHour: 22, endHour: 6, timezone: 'Asia/Kolkata' },
+  groupBy: ['subscriber'],
+  window: { minutes: 10 },
+  aggregations: [{ id: 'distinctIPs', fn: 'distinct', field: 'bParty' }],
+  having: [{ aggregate: 'distinctIPs', op: 'gt', value: 20 }],
+  reason: '{entity} contacted {distinctIPs} distinct IPs in AS13335 within {window} at night'
+};
+
+function portNumber(port: string | undefined): number | undefined {
+  return port && /^\d+$/.test(port.trim()) ? Number(port) : undefined;
+}
+
+function isRuleField(field: unknown): field is RuleField {
+  return typeof field === 'string' && Object.prototype.hasOwnProperty.call(RULE_FIELDS, field);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isOneOf<T>(options: readonly T[], value: unknown): value is T {
+  return (options as readonly unknown[]).includes(value);
+}
+
+function isValidTimezone(timezone: unknown): boolean {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isHour(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 23;
+}
+
+function validateCondition(condition: unknown, path: string): string[] {
+  if (!isRecord(condition)) return [`${path} must be an object`];
+  const { field, op, value: conditionValue } = condition;
+  if (!isRuleField(field)) return [`${path}.field "${field}" is not a known field`];
+  const type = RULE_FIELDS[field].type;
+  if (!isOneOf(CONDITION_OPERATORS[type], op)) {
+    return [`${path}.op "${op}" does not apply to ${type} field ${field}`];
+  }
+
+  const values: unknown[] = Array.isArray(conditionValue) ? conditionValue : [conditionValue];
+  const listOperator = op === 'in' || op === 'not_in' || op === 'in_cidr';
+  if (Array.isArray(conditionValue) && !listOperator) return [`${path}.value must be a single value for ${op}`];
+  if (values.length === 0) return [`${path}.value must not be empty`];
+
+  const errors: string[] = [];
+  values.forEach(value => {
+    if (op === 'in_cidr') {
+      if (typeof value !== 'string' || !parseCIDR(value)) errors.push(`${path}.value "${value}" is not a CIDR block`);
+    } else if (type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path}.value "${value}" must be a number`);
+    } else if (typeof value !== 'string' && typeof value !== 'number') {
+      errors.push(`${path}.value must be text`);
+    }
+  });
+  return errors;
+}
+
+function validateAggregations(aggregations: unknown, aggregateIds: Set<string>): string[] {
+  if (!Array.isArray(aggregations) || aggregations.length === 0) return ['aggregations must define at least one aggregate'];
+  const errors: string[] = [];
+  aggregations.forEach((aggregation: unknown, i: number) => {
+    const path = `aggregations[${i}]`;
+    if (!isRecord(aggregation) || typeof aggregation.id !== 'string' || !/^\w+$/.test(aggregation.id)) {
+      errors.push(`${path}.id must be a word of letters, digits or underscores`);
+      return;
+    }
+    const { id, fn, field } = aggregation;
+    if (aggregateIds.has(id)) errors.push(`${path}.id "${id}" is used twice`);
+    aggregateIds.add(id);
+
+    if (!isOneOf(AGGREGATE_FUNCTIONS, fn)) {
+      errors.push(`${path}.fn "${fn}" must be one of ${AGGREGATE_FUNCTIONS.join(', ')}`);
+    } else if (fn !== 'count') {
+      if (!isRuleField(field)) errors.push(`${path}.field "${field}" is not a known field`);
+      else if (fn !== 'distinct' && RULE_FIELDS[field].type !== 'number') {
+        errors.push(`${path}: ${fn} needs a numeric field, not ${field}`);
+      }
+    }
+  });
+  return errors;
+}
+
+function validateHaving(having: unknown, aggregateIds: Set<string>): string[] {
+  if (!Array.isArray(having) || having.length === 0) return ['having must list at least one condition'];
+  const errors: string[] = [];
+  having.forEach((condition: unknown, i: number) => {
+    const path = `having[${i}]`;
+    const { aggregate, op, value } = isRecord(condition) ? condition : {} as Record<string, unknown>;
+    if (typeof aggregate !== 'string' || !aggregateIds.has(aggregate)) errors.push(`${path}.aggregate "${aggregate}" is not a defined aggregate`);
+    if (!isOneOf(COMPARISON_OPERATORS, op)) errors.push(`${path}.op "${op}" must be one of ${COMPARISON_OPERATORS.join(', ')}`);
+    if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path}.value must be a number`);
+  });
+  return errors;
+}
+
+// Problems with a definition, as messages an analyst can act on; empty when it can run
+export function validateRuleDefinition(definition: unknown): string[] {
+  if (!isRecord(definition)) return ['Definition must be an object'];
+  const errors: string[] = [];
+
+  if (definition.version !== RULE_DEFINITION_VERSION) errors.push(`version must be ${RULE_DEFINITION_VERSION}`);
+
+  if (definition.where !== undefined) {
+    if (!Array.isArray(definition.where)) errors.push('where must be a list of conditions');
+    else definition.where.forEach((condition: unknown, i: number) => errors.push(...validateCondition(condition, `where[${i}]`)));
+  }
+
+  if (definition.timeOfDay !== undefined) {
+    const { startHour, endHour, timezone } = isRecord(definition.timeOfDay) ? definition.timeOfDay : {} as Record<string, unknown>;
+    if (!isHour(startHour) || !isHour(endHour)) errors.push('timeOfDay hours must be whole numbers from 0 to 23');
+    if (!isValidTimezone(timezone)) errors.push(`timeOfDay.timezone "${timezone}" is not a known timezone`);
+  }
+
+  if (!Array.isArray(definition.groupBy) || definition.groupBy.length === 0) {
+    errors.push('groupBy must name at least one field');
+  } else {
+    definition.groupBy.forEach((field: unknown, i: number) => {
+      if (!isRuleField(field)) errors.push(`groupBy[${i}] "${field}" is not a known field`);
+    });
+  }
+
+  if (definition.window !== undefined) {
+    const minutes = isRecord(definition.window) ? definition.window.minutes : undefined;
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes <= 0) errors.push('window.minutes must be a positive number');
+  }
+
+  const aggregateIds = new Set<string>();
+  errors.push(...validateAggregations(definition.aggregations, aggregateIds));
+  errors.push(...validateHaving(definition.having, aggregateIds));
+
+  if (definition.reason !== undefined && typeof definition.reason !== 'string') errors.push('reason must be text');
+
+  return errors;
+}
+
+// Problems with a whole custom rule; reservedIds are the built-in rule ids it may not reuse
+export function validateCustomRule(rule: unknown, reservedIds: string[] = []): string[] {
+  if (!isRecord(rule)) return ['Rule must be an object'];
+  const errors: string[] = [];
+  if (typeof rule.id !== 'string' || !/^[\w-]+$/.test(rule.id)) errors.push('id must be letters, digits, "-" or "_"');
+  else if (reservedIds.includes(rule.id)) errors.push(`id "${rule.id}" is a built-in rule`);
+  if (typeof rule.name !== 'string' || !rule.name.trim()) errors.push('name is required');
+  if (!isOneOf(SEVERITIES, rule.severity)) errors.push(`severity must be one of ${SEVERITIES.join(', ')}`);
+  return [...errors, ...validateRuleDefinition(rule.definition)];
+}
+
+function isCustomRule(rule: unknown): rule is CustomAnomalyRule {
+  return validateCustomRule(rule).length === 0;
+}
+
+// Rules from an export file, a bare list or a single rule; throws naming every invalid rule
+export function parseCustomRules(json: string, reservedIds: string[] = []): CustomAnomalyRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Rules file is not valid JSON');
+  }
+  const list: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed) && Array.isArray(parsed.rules) ? parsed.rules : [parsed];
+
+  const problems: string[] = [];
+  const seen = new Set<unknown>();
+  list.forEach((rule, i) => {
+    const { id, name } = isRecord(rule) ? rule : {} as Record<string, unknown>;
+    const label = typeof name === 'string' && name ? `"${name}"` : `#${i + 1}`;
+    const errors = validateCustomRule(rule, reservedIds);
+    if (seen.has(id)) errors.push(`id "${id}" is used by another rule in the file`);
+    seen.add(id);
+    if (errors.length > 0) problems.push(`Rule ${label}: ${errors.join('; ')}`);
+  });
+  if (problems.length > 0) throw new Error(problems.join('\n'));
+
+  return list.filter(isCustomRule).map(rule => ({
+    id: rule.id,
+    name: rule.name.trim(),
+    description: typeof rule.description === 'string' ? rule.description : '',
+    severity: rule.severity,
+    enabled: rule.enabled !== false,
+    config: {},
+    definition: rule.definition
+  }));
+}
+
+export function exportCustomRules(rules: CustomAnomalyRule[]): string {
+  return JSON.stringify({
+    format: 'ipdr-intel-anomaly-rules',
+    version: RULE_DEFINITION_VERSION,
+    exportedAt: new Date().toISOString(),
+    rules: rules.map(({ id, name, description, severity, enabled, definition }) => ({ id, name, description, severity, enabled, definition }))
+  }, null, 2);
+}
+
+const hourFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Hour of the day (0-23) in the given timezone
+export function hourOfDay(date: Date, timezone: string): number {
+  let formatter = hourFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' });
+    hourFormatters.set(timezone, formatter);
+  }
+  return Number(formatter.format(date));
+}
+
+function inTimeOfDay(record: IPDRRecord, timeOfDay: RuleTimeOfDay): boolean {
+  const { startHour, endHour } = timeOfDay;
+  if (startHour === endHour) return true;
+  const hour = hourOfDay(record.startTimestamp, timeOfDay.timezone);
+  return startHour < endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour;
+}
+
+// Addresses are compared in canonical form; one written without a zone ID matches it in any zone
+function sameIP(actual: string, expected: string): boolean {
+  const address = canonicalizeIP(actual).toLowerCase();
+  const wanted = canonicalizeIP(expected).toLowerCase();
+  return address === wanted || (!wanted.includes('%') && address.split('%')[0] === wanted);
+}
+
+function sameValue(actual: string | number, expected: string | number, type: RuleFieldType): boolean {
+  if (typeof actual === 'number') return actual === Number(expected);
+  if (type === 'ip') return sameIP(actual, String(expected));
+  return actual.toLowerCase() === String(expected).toLowerCase();
+}
+
+function matchesCondition(record: IPDRRecord, condition: RecordCondition): boolean {
+  const { type, get } = RULE_FIELDS[condition.field];
+  const actual = get(record);
+  const expected = Array.isArray(condition.value) ? condition.value : [condition.value];
+  if (actual === undefined || actual === '') return condition.op === 'neq' || condition.op === 'not_in';
+
+  switch (condition.op) {
+    case 'eq':
+    case 'in':
+      return expected.some(value => sameValue(actual, value, type));
+    case 'neq':
+    case 'not_in':
+      return !expected.some(value => sameValue(actual, value, type));
+    case 'gt':
+      return Number(actual) > Number(expected[0]);
+    case 'gte':
+      return Number(actual) >= Number(expected[0]);
+    case 'lt':
+      return Number(actual) < Number(expected[0]);
+    case 'lte':
+      return Number(actual) <= Number(expected[0]);
+    case 'contains':
+      return String(actual).toLowerCase().includes(String(expected[0]).toLowerCase());
+    case 'in_cidr':
+      return expected.some(cidr => ipInCIDR(String(actual), String(cidr)));
+  }
+}
+
+function compare(value: number, op: ComparisonOperator, threshold: number): boolean {
+  switch (op) {
+    case 'eq': return value === threshold;
+    case 'neq': return value !== threshold;
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+  }
+}
+
+// One aggregate over the records in the window; records leave in the order they arrived
+class WindowAggregate {
+  private count = 0;
+  private numericCount = 0;
+  private sum = 0;
+  private distinct = new Map<string, number>();
+  // Monotonic queues of [arrival index, value] for sliding min and max
+  private minQueue: [number, number][] = [];
+  private maxQueue: [number, number][] = [];
+  private minHead = 0;
+  private maxHead = 0;
+
+  constructor(private spec: RuleAggregation) {}
+
+  add(record: IPDRRecord, index: number) {
+    this.count++;
+    if (this.spec.fn === 'count' || !this.spec.field) return;
+    const value = RULE_FIELDS[this.spec.field].get(record);
+    if (value === undefined || value === '') return;
+
+    if (this.spec.fn === 'distinct') {
+      const key = String(value).toLowerCase();
+      this.distinct.set(key, (this.distinct.get(key) || 0) + 1);
+      return;
+    }
+    const numeric = Number(value);
+    if (!Number.isFinite(numeric)) return;
+    this.numericCount++;
+    this.sum += numeric;
+    while (this.minQueue.length > this.minHead && this.minQueue[this.minQueue.length - 1][1] >= numeric) this.minQueue.pop();
+    this.minQueue.push([index, numeric]);
+    while (this.maxQueue.length > this.maxHead && this.maxQueue[this.maxQueue.length - 1][1] <= numeric) this.maxQueue.pop();
+    this.maxQueue.push([index, numeric]);
+  }
+
+  remove(record: IPDRRecord, index: number) {
+    this.count--;
+    if (this.spec.fn === 'count' || !this.spec.field) return;
+    const value = RULE_FIELDS[this.spec.field].get(record);
+    if (value === undefined || value === '') return;
+
+    if (this.spec.fn === 'distinct') {
+      const key = String(value).toLowerCase();
+      const remaining = (this.distinct.get(key) || 1) - 1;
+      if (remaining > 0) this.distinct.set(key, remaining);
+      else this.distinct.delete(key);
+      return;
+    }
+    const numeric = Number(value);
+    if (!Number.isFinite(numeric)) return;
+    this.numericCount--;
+    this.sum -= numeric;
+    if (this.minQueue[this.minHead]?.[0] === index) this.minHead++;
+    if (this.maxQueue[this.maxHead]?.[0] === index) this.maxHead++;
+  }
+
+  value(): number {
+    switch (this.spec.fn) {
+      case 'count': return this.count;
+      case 'distinct': return this.distinct.size;
+      case 'sum': return this.sum;
+      case 'avg': return this.numericCount > 0 ? this.sum / this.numericCount : 0;
+      case 'min': return this.minQueue[this.minHead]?.[1] ?? 0;
+      case 'max': return this.maxQueue[this.maxHead]?.[1] ?? 0;
+    }
+  }
+}
+
+interface GroupMatch {
+  values: Record<string, number>;
+}
+
+// Strongest window (highest value of the first "having" aggregate) in which every condition held
+function evaluateGroup(records: IPDRRecord[], definition: RuleDefinition): GroupMatch | null {
+  const aggregates = definition.aggregations.map(spec => ({ id: spec.id, aggregate: new WindowAggregate(spec) }));
+  const windowMs = definition.window ? definition.window.minutes * 60 * 1000 : Infinity;
+  const primary = definition.having[0].aggregate;
+  let best: GroupMatch | null = null;
+  let left = 0;
+
+  const holds = (values: Record<string, number>) =>
+    definition.having.every(condition => compare(values[condition.aggregate], condition.op, condition.value));
+  const current = () => Object.fromEntries(aggregates.map(({ id, aggregate }) => [id, aggregate.value()]));
+
+  for (let i = 0; i < records.length; i++) {
+    const time = records[i].startTimestamp.getTime();
+    aggregates.forEach(({ aggregate }) => aggregate.add(records[i], i));
+    while (time - records[left].startTimestamp.getTime() >= windowMs) {
+      aggregates.forEach(({ aggregate }) => aggregate.remove(records[left], left));
+      left++;
+    }
+    // Without a window the rule is judged on the group as a whole
+    if (windowMs === Infinity && i < records.length - 1) continue;
+
+    const values = current();
+    if (!holds(values)) continue;
+    if (!best || values[primary] > best.values[primary]) best = { values };
+  }
+  return best;
+}
+
+function formatAggregate(definition: RuleDefinition, id: string, value: number): string {
+  const spec = definition.aggregations.find(aggregation => aggregation.id === id);
+  const rounded = Math.round(value * 100) / 100;
+  if (spec?.field === 'bytesTransferred' && spec.fn !== 'count' && spec.fn !== 'distinct') return formatBytes(rounded);
+  return String(rounded);
+}
+
+function describeWindow(definition: RuleDefinition): string {
+  return definition.window ? `${definition.window.minutes} min` : 'the dataset';
+}
+
+function describeMatch(rule: CustomAnomalyRule, entity: string, match: GroupMatch): string {
+  const { definition } = rule;
+  if (definition.reason) {
+    return definition.reason.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+      if (key === 'entity') return entity;
+      if (key === 'window') return describeWindow(definition);
+      return key in match.values ? formatAggregate(definition, key, match.values[key]) : placeholder;
+    });
+  }
+
+  const aggregates = definition.aggregations
+    .map(({ id, fn, field }) => `${fn}${field && fn !== 'count' ? ` ${field}` : ''} = ${formatAggregate(definition, id, match.values[id])}`)
+    .join(', ');
+  const timeOfDay = definition.timeOfDay
+    ? ` between ${String(definition.timeOfDay.startHour).padStart(2, '0')}:00 and ${String(definition.timeOfDay.endHour).padStart(2, '0')}:00`
+    : '';
+  return `${rule.name}: ${aggregates} within ${describeWindow(definition)}${timeOfDay}`;
+}
+
+function entityTypeOf(definition: RuleDefinition, entity: string): Anomaly['entityType'] {
+  if (definition.groupBy.length !== 1) return 'pattern';
+  const field = definition.groupBy[0];
+  if (RULE_FIELDS[field].type === 'ip' || (field === 'subscriber' && ipVersion(entity))) return 'ip';
+  return field === 'subscriber' || field === 'subscriberID' ? 'phone' : 'pattern';
+}
+
+function anomalyScore(rule: CustomAnomalyRule, match: GroupMatch): number {
+  const threshold = rule.definition.having[0];
+  const value = match.values[threshold.aggregate];
+  const ratio = (threshold.op === 'gt' || threshold.op === 'gte') && threshold.value > 0 ? value / threshold.value : 1;
+  return Math.min(100, SEVERITY_SCORES[rule.severity] + Math.min(15, Math.round(Math.max(0, ratio - 1) * 10)));
+}
+
+// Runs a custom rule, reporting progress like the built-in rules; one anomaly per flagged group
+export async function runRuleDefinition(
+  records: IPDRRecord[],
+  rule: CustomAnomalyRule,
+  onProgress?: (progress: AnomalyDetectionProgress) => void
+): Promise<Anomaly[]> {
+  const { definition } = rule;
+  const errors = validateRuleDefinition(definition);
+  if (errors.length > 0) throw new Error(`Rule ${rule.name} is invalid: ${errors.join('; ')}`);
+
+  const anomalies: Anomaly[] = [];
+  const caseId = records[0]?.caseId || 'unknown';
+  const groups = new Map<string, IPDRRecord[]>();
+
+  // Filter and group
+  await scanRecords(records, rule.id, record => {
+    if (definition.where && !definition.where.every(condition => matchesCondition(record, condition))) return;
+    if (definition.timeOfDay && !inTimeOfDay(record, definition.timeOfDay)) return;
+    const keyParts = definition.groupBy.map(field => RULE_FIELDS[field].get(record));
+    if (keyParts.some(part => part === undefined || part === '')) return;
+    const key = keyParts.join(' / ');
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }, onProgress);
+
+  for (const [entity, groupRecords] of groups) {
+    groupRecords.sort((a, b) => a.startTimestamp.getTime() - b.startTimestamp.getTime());
+    const match = evaluateGroup(groupRecords, definition);
+    if (!match) continue;
+
+    anomalies.push({
+      id: `anom_${entity.replace(/\W+/g, '_')}_${rule.id}_${Date.now()}`,
+      caseId,
+      entity,
+      entityType: entityTypeOf(definition, entity),
+      rule: rule.id,
+      score: anomalyScore(rule, match),
+      reason: describeMatch(rule, entity, match),
+      timestamp: new Date(),
+      severity: rule.severity
+    });
+  }
+
+  return anomalies;
+}
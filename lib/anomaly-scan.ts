@@ -0,0 +1,56 @@
+// Batched record scan shared by the anomaly rules
+// The rules run in the detection worker, or on the main thread when no worker is available.
+// Scanning in batches lets each rule report progress, and yielding between batches keeps the
+// page responsive in the main-thread fallback (and lets a worker see a cancel message).
+
+import { IPDRRecord } from './types';
+import type { AnomalyDetectionProgress } from './anomaly-detector';
+
+const BATCH_SIZE = 10000;
+// Batches between yields to the event loop
+const BATCHES_PER_YIELD = 5;
+
+export function throwIfDetectionCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new Error('Anomaly detection was cancelled');
+  }
+}
+
+// Visits every record, reporting progress under ruleId after each batch and stopping there once
+// signal is aborted. Rules build their anomalies once the scan is done, so progress reports none
+// found yet
+export async function scanRecords(
+  records: IPDRRecord[],
+  ruleId: string,
+  visit: (record: IPDRRecord) => void,
+  onProgress?: (progress: AnomalyDetectionProgress) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const startTime = Date.now();
+  const totalRecords = records.length;
+
+  for (let i = 0, batch = 0; i < totalRecords; i += BATCH_SIZE, batch++) {
+    const end = Math.min(totalRecords, i + BATCH_SIZE);
+    for (let j = i; j < end; j++) visit(records[j]);
+    throwIfDetectionCancelled(signal);
+
+    if (onProgress) {
+      const elapsed = Date.now() - startTime;
+      const throughput = end / (elapsed / 1000);
+      const estimatedTotal = (totalRecords / end) * elapsed;
+
+      onProgress({
+        processedRecords: end,
+        totalRecords,
+        currentRule: ruleId,
+        anomaliesFound: 0,
+        estimatedTimeRemaining: Math.max(0, estimatedTotal - elapsed),
+        throughput
+      });
+    }
+
+    if (batch % BATCHES_PER_YIELD === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  AnomalyDetectionProgress,
+  AnomalyDetectionWorker,
+  AnomalyRule,
+  AnomalyWorkerLike,
+  AnomalyWorkerRequest,
+  AnomalyWorkerResponse,
+  runAllAnomalyDetection
+} from './anomaly-detector';
+import { createAnomalyWorkerHandler } from './anomaly-worker';
+import { CustomAnomalyRule } from './anomaly-rules';
+import { IPDRRecord, TelecomOperator } from './types';
+
+// Runs the worker handler in-process, with messages cloned and delivered asynchronously like a real worker
+class FakeAnomalyWorker implements AnomalyWorkerLike {
+  onmessage: ((event: MessageEvent<AnomalyWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: AnomalyWorkerRequest[] = [];
+  terminated = false;
+  private handle = createAnomalyWorkerHandler(response => {
+    setTimeout(() => {
+      if (!this.terminated) this.onmessage?.({ data: structuredClone(response) } as MessageEvent<AnomalyWorkerResponse>);
+    }, 0);
+  });
+
+  postMessage(message: AnomalyWorkerRequest) {
+    this.requests.push(message);
+    const copy = structuredClone(message);
+    setTimeout(() => this.handle(copy), 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+function record(i: number, aParty: string, start: string, operator: TelecomOperator = 'jio', extra: Partial<IPDRRecord> = {}): IPDRRecord {
+  const startTimestamp = new Date(start);
+  return {
+    id: `rec_${i}`,
+    caseId: 'case8',
+    aParty,
+    bParty: `142.250.${i % 200}.10`,
+    protocol: 'TCP',
+    startTimestamp,
+    endTimestamp: new Date(startTimestamp.getTime() + 30000),
+    duration: 30,
+    bytesTransferred: 150000,
+    sourceFileId: 'file8',
+    rawRowHash: `hash_${i}`,
+    operator,
+    ...extra
+  };
+}
+
+// 20:30 UTC is 02:00 IST: late night only when the rule's timezone is honoured
+const RECORDS: IPDRRecord[] = [
+  ...Array.from({ length: 12 }, (_, i) => record(i, '10.1.0.1', `2025-08-20T20:${String(30 + i).padStart(2, '0')}:00Z`)),
+  ...Array.from({ length: 8 }, (_, i) => record(100 + i, '10.1.0.2', `2025-08-20T09:${String(i * 5).padStart(2, '0')}:00Z`, i % 2 ? 'airtel' : 'jio')),
+  record(200, '10.1.0.3', '2025-08-20T11:00:00Z', 'jio', { application: 'Telegram', subscriberID: '919800000010' }),
+  record(201, '10.1.0.3', '2025-08-20T11:01:00Z', 'jio', { application: 'Telegram', subscriberID: '919800000010', duplicateOf: 'rec_200' })
+];
+
+const MANY_SESSIONS: CustomAnomalyRule = {
+  id: 'many_sessions',
+  name: 'Many sessions',
+  description: '',
+  severity: 'low',
+  enabled: true,
+  config: {},
+  definition: {
+    version: 1,
+    groupBy: ['aParty'],
+    window: { minutes: 30 },
+    aggregations: [{ id: 'sessions', fn: 'count' }],
+    having: [{ aggregate: 'sessions', op: 'gte', value: 6 }]
+  }
+};
+
+const RULES: Partial<AnomalyRule>[] = [
+  { id: 'late_night_activity', config: { startHour: 1, endHour: 4, timezone: 'Asia/Kolkata' } },
+  { id: 'watched_application', enabled: true, config: { applications: ['Telegram', 'Signal', 'WhatsApp'] } },
+  MANY_SESSIONS
+];
+
+describe('anomaly worker', () => {
+  // Anomaly ids and timestamps come from the clock; hold it still so both runs can be compared
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('detects exactly what the main thread detects, streaming progress', async () => {
+    const worker = new FakeAnomalyWorker();
+    const detector = new AnomalyDetectionWorker(() => worker);
+    const progress: AnomalyDetectionProgress[] = [];
+
+    const inWorker = await detector.detectAnomalies(RECORDS, RULES, { onProgress: p => progress.push(p) });
+    const mainThreadProgress: AnomalyDetectionProgress[] = [];
+    const onMainThread = await runAllAnomalyDetection(RECORDS, RULES, p => mainThreadProgress.push(p));
+
+    expect(inWorker).toEqual(onMainThread);
+    expect(new Set(inWorker.map(a => a.rule))).toEqual(new Set([
+      'late_night_activity', 'high_volume', 'cross_operator', 'watched_application', 'many_sessions'
+    ]));
+    expect(inWorker.find(a => a.rule === 'late_night_activity')?.entity).toBe('10.1.0.1');
+    expect(inWorker.find(a => a.rule === 'watched_application')?.reason).toContain('1 session(s)');
+    expect(progress).toEqual(mainThreadProgress);
+    expect(progress.at(-1)).toMatchObject({ currentRule: 'many_sessions', processedRecords: 21, totalRecords: 21 });
+  });
+
+  it('cancels a detection in the worker', async () => {
+    const worker = new FakeAnomalyWorker();
+    const detector = new AnomalyDetectionWorker(() => worker);
+    const controller = new AbortController();
+
+    const detecting = detector.detectAnomalies(RECORDS, RULES, { signal: controller.signal, onProgress: () => controller.abort() });
+    await expect(detecting).rejects.toThrow('Anomaly detection was cancelled');
+    expect(worker.requests.map(r => r.type)).toEqual(['detect', 'cancel']);
+
+    // The worker stays usable for the next detection
+    await expect(detector.detectAnomalies(RECORDS, RULES)).resolves.toEqual(await runAllAnomalyDetection(RECORDS, RULES));
+  });
+
+  it('falls back to the main thread when the worker cannot start', async () => {
+    const expected = await runAllAnomalyDetection(RECORDS, RULES);
+
+    const unavailable = new AnomalyDetectionWorker(null);
+    await expect(unavailable.detectAnomalies(RECORDS, RULES)).resolves.toEqual(expected);
+
+    const throwing = new AnomalyDetectionWorker(() => { throw new Error('Worker scripts are blocked'); });
+    await expect(throwing.detectAnomalies(RECORDS, RULES)).resolves.toEqual(expected);
+
+    // A worker whose script fails to load reports an error before any reply
+    const broken = new FakeAnomalyWorker();
+    broken.postMessage = () => setTimeout(() => broken.onerror?.({ message: 'Failed to load worker' } as ErrorEvent), 0);
+    const created = vi.fn(() => broken);
+    const detector = new AnomalyDetectionWorker(created);
+    await expect(detector.detectAnomalies(RECORDS, RULES)).resolves.toEqual(expected);
+    await expect(detector.detectAnomalies(RECORDS, RULES)).resolves.toEqual(expected);
+    expect(created).toHaveBeenCalledTimes(1);
+  });
+});
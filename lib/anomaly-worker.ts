@@ -0,0 +1,41 @@
+// Anomaly detection worker: runs the same rules as the main thread (runAllAnomalyDetection)
+// Progress is streamed back as it is reported; a cancel request stops the job at its next report.
+
+import { runAllAnomalyDetection } from './anomaly-detector';
+import type { AnomalyWorkerRequest, AnomalyWorkerResponse } from './anomaly-detector';
+
+export function createAnomalyWorkerHandler(post: (response: AnomalyWorkerResponse) => void) {
+  const running = new Map<number, AbortController>();
+
+  const detect = async ({ jobId, records, rules }: Extract<AnomalyWorkerRequest, { type: 'detect' }>) => {
+    const controller = new AbortController();
+    running.set(jobId, controller);
+    try {
+      const anomalies = await runAllAnomalyDetection(
+        records,
+        rules,
+        progress => post({ type: 'progress', jobId, progress }),
+        controller.signal
+      );
+      post({ type: 'done', jobId, anomalies });
+    } catch (error) {
+      post({ type: 'error', jobId, message: error instanceof Error ? error.message : 'Anomaly detection failed' });
+    } finally {
+      running.delete(jobId);
+    }
+  };
+
+  return (request: AnomalyWorkerRequest) => {
+    if (request.type === 'cancel') {
+      running.get(request.jobId)?.abort();
+      return;
+    }
+    return detect(request);
+  };
+}
+
+// Only registered when this module is loaded as a worker
+if (typeof window === 'undefined' && typeof self !== 'undefined') {
+  const handleRequest = createAnomalyWorkerHandler(response => self.postMessage(response));
+  self.addEventListener('message', (event: MessageEvent<AnomalyWorkerRequest>) => handleRequest(event.data));
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { IndicatorMatcher, detectAnonymizerUsage, parseIndicatorList } from './anonymizer-indicators';
+import { DEFAULT_ANOMALY_RULES, runAllAnomalyDetection } from './anomaly-detector';
+import { IPDRRecord } from './types';
+
+const TOR_EXITS = [
+  '# Tor exit relays',
+  '# version: 2025-08-18',
+  'ExitNode 0011BD2485AD45D984EC4159C88FC066E5E3300E',
+  'ExitAddress 185.220.101.7 2025-08-18 09:12:44',
+  '2001:67c:e60:c0c:192:42:116:16 # IPv6 exit'
+].join('\n');
+
+const VPN_RANGES = [
+  'provider,network,port,protocol',
+  'NordVPN,5.253.204.0/23,,',
+  'Mullvad,193.32.249.0/24,,',
+  'Generic SOCKS,,1080,TCP'
+].join('\n');
+
+let sequence = 0;
+function session(aParty: string, bParty: string, bPort: string, protocol: string, duration = 30): IPDRRecord {
+  const start = Date.parse('2025-08-20T10:00:00Z') + sequence * 60000;
+  sequence++;
+  return {
+    id: `rec_${sequence}`,
+    caseId: 'case11',
+    aParty,
+    bParty,
+    bPort,
+    protocol,
+    startTimestamp: new Date(start),
+    endTimestamp: new Date(start + duration * 1000),
+    duration,
+    bytesTransferred: 4096,
+    sourceFileId: 'file11',
+    rawRowHash: `hash_${sequence}`,
+    operator: 'jio'
+  };
+}
+
+describe('anonymizer indicators', () => {
+  it('parses Tor exit lists and CSV ranges with their version', () => {
+    const tor = parseIndicatorList(TOR_EXITS, 'tor-exits.txt', 'tor');
+    expect(tor.version).toBe('2025-08-18');
+    expect(tor.entries).toEqual([
+      { network: '185.220.101.7', label: undefined },
+      { network: '2001:67c:e60:c0c:192:42:116:16', label: 'IPv6 exit' }
+    ]);
+
+    const vpn = parseIndicatorList(VPN_RANGES, 'vpn.csv', 'vpn', '2025-07-01');
+    expect(vpn.version).toBe('2025-07-01');
+    expect(vpn.entries).toEqual([
+      { network: '5.253.204.0/23', port: undefined, protocol: undefined, label: 'NordVPN' },
+      { network: '193.32.249.0/24', port: undefined, protocol: undefined, label: 'Mullvad' },
+      { network: undefined, port: 1080, protocol: 'TCP', label: 'Generic SOCKS' }
+    ]);
+
+    expect(() => parseIndicatorList('# only comments\nnot an address\n', 'empty.txt', 'proxy')).toThrow('empty.txt has no IP addresses, networks or ports');
+    expect(() => parseIndicatorList('host,owner\nexample.org,someone\n', 'hosts.csv', 'proxy')).toThrow();
+  });
+
+  it('matches destinations and cites the list version and import date', async () => {
+    const tor = parseIndicatorList(TOR_EXITS, 'tor-exits.txt', 'tor');
+    const vpn = parseIndicatorList(VPN_RANGES, 'vpn.csv', 'vpn');
+    tor.importedAt = new Date('2025-08-19T06:00:00Z');
+
+    const matcher = new IndicatorMatcher([tor, vpn]);
+    expect(matcher.match(session('10.0.0.1', '5.253.205.10', '443', 'TCP')).map(hit => hit.entry.label)).toEqual(['NordVPN']);
+    expect(matcher.match(session('10.0.0.1', '8.8.8.8', '1080', 'UDP'))).toEqual([]);
+
+    const records = [
+      session('10.0.0.1', '185.220.101.7', '443', 'TCP'),
+      session('10.0.0.1', '185.220.101.7', '9001', 'TCP'),
+      session('10.0.0.2', '8.8.8.8', '1080', 'TCP'),
+      session('10.0.0.3', '142.250.183.14', '443', 'TCP')
+    ];
+    const anomalies = await detectAnonymizerUsage(records, { lists: [tor, vpn] });
+
+    expect(anomalies).toHaveLength(2);
+    expect(anomalies[0]).toMatchObject({ entity: '10.0.0.1', rule: 'anonymizer_usage', severity: 'high' });
+    expect(anomalies[0].reason).toBe('Tor use: 2 session(s) to 185.220.101.7:443, 185.220.101.7:9001 (list "tor-exits.txt" v2025-08-18, imported 2025-08-19)');
+    expect(anomalies[1].entity).toBe('10.0.0.2');
+    expect(anomalies[1].reason).toMatch(/^VPN use: 1 session\(s\) to port 1080 \(list "vpn\.csv" v\d{4}-\d{2}-\d{2}, imported \d{4}-\d{2}-\d{2}\)$/);
+  });
+
+  it('flags long-lived single UDP flows on VPN ports without any list', async () => {
+    const records = [
+      session('10.0.0.4', '203.0.113.50', '51820', 'UDP', 2 * 60 * 60),
+      session('10.0.0.5', '203.0.113.51', '1194', 'UDP', 120),
+      session('10.0.0.6', '203.0.113.52', '51820', 'TCP', 2 * 60 * 60)
+    ];
+    const anomalies = await detectAnonymizerUsage(records);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ entity: '10.0.0.4', score: 70, severity: 'medium' });
+    expect(anomalies[0].reason).toBe('Likely WireGuard VPN: single UDP flow to 203.0.113.50:51820 lasting 2h (heuristic: UDP flow on port 51820 longer than 10 min)');
+
+    const builtInsOff = DEFAULT_ANOMALY_RULES.filter(rule => rule.id !== 'anonymizer_usage').map(rule => ({ id: rule.id, enabled: false }));
+    expect(await runAllAnomalyDetection(records, builtInsOff)).toHaveLength(1);
+    expect(await runAllAnomalyDetection(records, [...builtInsOff, { id: 'anonymizer_usage', config: { minFlowMinutes: 180 } }])).toEqual([]);
+  });
+});
@@ -0,0 +1,334 @@
+// VPN, Tor and anonymizing proxy indicators
+// Analysts import indicator lists (Tor relay and exit lists, commercial VPN ranges, proxy
+// endpoints and ports) as plain text or CSV. Destination IPs and ports are matched against
+// them locally, and every anomaly cites the list name, version and import date it matched.
+// Without any list, long-lived single UDP flows on the OpenVPN and WireGuard ports are still flagged.
+
+import { IPDRRecord, Anomaly } from './types';
+import type { AnomalyDetectionProgress } from './anomaly-detector';
+import { scanRecords } from './anomaly-scan';
+import { tokenizeCSV } from './csv-tokenizer';
+import { normalizeHeaderKey } from './parser-profiles';
+import { IPCIDR, canonicalizeIP, ipInCIDR, parseCIDR } from './ip-address';
+import { formatDuration, validateIPAddress } from '@/utils/formatters';
+import { DatabaseSchema, deleteValue, getAllValues, putValue } from './indexed-db';
+
+export type IndicatorCategory = 'tor' | 'vpn' | 'proxy';
+
+export const INDICATOR_CATEGORY_LABELS: Record<IndicatorCategory, string> = {
+  tor: 'Tor',
+  vpn: 'VPN',
+  proxy: 'Proxy'
+};
+
+// An address or network, a port, or both (an endpoint such as 203.0.113.5:1080)
+export interface IndicatorEntry {
+  network?: string; // IP or CIDR, canonical
+  port?: number;
+  protocol?: 'TCP' | 'UDP';
+  label?: string;
+}
+
+export interface IndicatorList {
+  id: string;
+  name: string;
+  category: IndicatorCategory;
+  version: string; // From the file's "# version:" (or updated/generated) header, else its date
+  importedAt: Date;
+  entries: IndicatorEntry[];
+}
+
+export interface AnonymizerConfig {
+  lists?: IndicatorList[]; // Loaded into the rule before it runs, so the worker sees the same lists
+  minFlowMinutes: number; // Shortest single UDP flow on a VPN port the heuristic reports
+}
+
+export const DEFAULT_ANONYMIZER_CONFIG: AnonymizerConfig = {
+  minFlowMinutes: 10
+};
+
+// Ports whose long-lived UDP flows are VPN tunnels even without an indicator list
+const VPN_TUNNEL_PORTS: Record<number, string> = {
+  1194: 'OpenVPN',
+  51820: 'WireGuard'
+};
+
+type IndicatorColumn = 'network' | 'port' | 'protocol' | 'label';
+
+const COLUMN_ALIASES: Record<IndicatorColumn, string[]> = {
+  network: ['network', 'cidr', 'ip', 'ipaddress', 'address', 'exitaddress', 'range', 'subnet', 'prefix'],
+  port: ['port', 'dstport', 'destinationport', 'orport'],
+  protocol: ['protocol', 'proto', 'transport'],
+  label: ['label', 'name', 'provider', 'service', 'description', 'nickname', 'comment']
+};
+
+const VERSION_COMMENT = /^#\s*(?:version|updated|last[\s_-]?updated|generated)\s*[:=]\s*(.+)$/i;
+
+function parseProtocol(value: string | undefined): IndicatorEntry['protocol'] {
+  const protocol = value?.trim().toUpperCase();
+  return protocol === 'TCP' || protocol === 'UDP' ? protocol : undefined;
+}
+
+function parsePort(value: string | undefined): number | undefined {
+  const text = value?.trim();
+  if (!text || !/^\d{1,5}$/.test(text)) return undefined;
+  const port = Number(text);
+  return port > 0 && port <= 65535 ? port : undefined;
+}
+
+// An IP or CIDR in canonical form, or null
+function parseNetwork(value: string | undefined): string | null {
+  const text = value?.trim().replace(/^\[|\]$/g, '');
+  if (!text) return null;
+  if (text.includes('/')) {
+    const slash = text.lastIndexOf('/');
+    const address = canonicalizeIP(text.slice(0, slash));
+    return parseCIDR(`${address}${text.slice(slash)}`) ? `${address}${text.slice(slash)}` : null;
+  }
+  return validateIPAddress(text) ? canonicalizeIP(text) : null;
+}
+
+// One plain-text line: an IP, CIDR, ip:port endpoint, port[/protocol], or a Tor "ExitAddress" line
+function parsePlainLine(line: string): IndicatorEntry | null {
+  const [content, ...comment] = line.split('#');
+  const label = comment.join('#').trim() || undefined;
+  const tokens = content.trim().split(/\s+/);
+  const token = tokens[0] === 'ExitAddress' ? tokens[1] : tokens[0];
+  if (!token) return null;
+
+  const portOnly = token.match(/^(\d{1,5})(?:\/(tcp|udp))?$/i);
+  if (portOnly) {
+    const port = parsePort(portOnly[1]);
+    return port ? { port, protocol: parseProtocol(portOnly[2]), label } : null;
+  }
+
+  const endpoint = token.match(/^(\d{1,3}(?:\.\d{1,3}){3}):(\d{1,5})$/) || token.match(/^\[([0-9a-f:.%]+)\]:(\d{1,5})$/i);
+  if (endpoint) {
+    const network = parseNetwork(endpoint[1]);
+    const port = parsePort(endpoint[2]);
+    return network && port ? { network, port, label } : null;
+  }
+
+  const network = parseNetwork(token);
+  return network ? { network, label } : null;
+}
+
+function parseCSVEntries(text: string, name: string): IndicatorEntry[] {
+  const [headerRow, ...rows] = tokenizeCSV(text);
+  const headerKeys = headerRow.map(normalizeHeaderKey);
+  const columns: Partial<Record<IndicatorColumn, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as IndicatorColumn[]).forEach(column => {
+    const index = headerKeys.findIndex(key => COLUMN_ALIASES[column].includes(key));
+    if (index !== -1) columns[column] = index;
+  });
+  if (columns.network === undefined && columns.port === undefined) {
+    throw new Error(`${name} has no IP, network or port column`);
+  }
+
+  const cell = (row: string[], column: IndicatorColumn) =>
+    columns[column] === undefined ? undefined : row[columns[column] as number];
+
+  const entries: IndicatorEntry[] = [];
+  for (const row of rows) {
+    const network = parseNetwork(cell(row, 'network')) || undefined;
+    const port = parsePort(cell(row, 'port'));
+    if (!network && !port) continue;
+    entries.push({ network, port, protocol: parseProtocol(cell(row, 'protocol')), label: cell(row, 'label')?.trim() || undefined });
+  }
+  return entries;
+}
+
+// Parse an indicator list file; fallbackVersion (e.g. the file's date) is used when the file names no version
+export function parseIndicatorList(text: string, name: string, category: IndicatorCategory, fallbackVersion?: string): IndicatorList {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const version = lines.map(line => line.trim().match(VERSION_COMMENT)?.[1].trim()).find(Boolean);
+  const content = lines.filter(line => line.trim() && !line.trim().startsWith('#'));
+  if (content.length === 0) throw new Error(`${name} is empty`);
+
+  // A header row with a known column makes it a CSV; otherwise one indicator per line
+  const header = content[0].split(',').map(normalizeHeaderKey);
+  const isCSV = content[0].includes(',') &&
+    header.some(key => COLUMN_ALIASES.network.includes(key) || COLUMN_ALIASES.port.includes(key));
+  const entries = isCSV
+    ? parseCSVEntries(content.join('\n'), name)
+    : content.map(parsePlainLine).filter((entry): entry is IndicatorEntry => entry !== null);
+  if (entries.length === 0) throw new Error(`${name} has no IP addresses, networks or ports`);
+
+  const importedAt = new Date();
+  return {
+    id: `indicators_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    category,
+    version: version || fallbackVersion || importedAt.toISOString().slice(0, 10),
+    importedAt,
+    entries
+  };
+}
+
+export interface IndicatorHit {
+  list: IndicatorList;
+  entry: IndicatorEntry;
+}
+
+interface CompiledEntry {
+  list: IndicatorList;
+  entry: IndicatorEntry;
+  block?: IPCIDR;
+}
+
+// Indicator lists compiled for matching destinations; network lookups are cached per destination IP
+export class IndicatorMatcher {
+  private exact = new Map<string, CompiledEntry[]>();
+  private blocks: CompiledEntry[] = [];
+  private portsOnly: CompiledEntry[] = [];
+  private cache = new Map<string, CompiledEntry[]>();
+
+  constructor(lists: IndicatorList[] = []) {
+    lists.forEach(list => list.entries.forEach(entry => {
+      const compiled: CompiledEntry = { list, entry };
+      if (!entry.network) {
+        this.portsOnly.push(compiled);
+      } else if (entry.network.includes('/')) {
+        const block = parseCIDR(entry.network);
+        if (block) this.blocks.push({ ...compiled, block });
+      } else {
+        const matches = this.exact.get(entry.network);
+        if (matches) matches.push(compiled);
+        else this.exact.set(entry.network, [compiled]);
+      }
+    }));
+  }
+
+  get isEmpty(): boolean {
+    return this.exact.size === 0 && this.blocks.length === 0 && this.portsOnly.length === 0;
+  }
+
+  private networkMatches(ip: string): CompiledEntry[] {
+    let matches = this.cache.get(ip);
+    if (!matches) {
+      const address = canonicalizeIP(ip);
+      matches = [...(this.exact.get(address) || []), ...this.blocks.filter(({ block }) => ipInCIDR(address, block!))];
+      this.cache.set(ip, matches);
+    }
+    return matches;
+  }
+
+  match(record: IPDRRecord): IndicatorHit[] {
+    const port = parsePort(record.bPort);
+    const protocol = record.protocol.toUpperCase();
+    return [...this.networkMatches(record.bParty), ...this.portsOnly]
+      .filter(({ entry }) => (entry.port === undefined || entry.port === port) && (!entry.protocol || entry.protocol === protocol))
+      .map(({ list, entry }) => ({ list, entry }));
+  }
+}
+
+function describeList(list: IndicatorList): string {
+  return `list "${list.name}" v${list.version.replace(/^v/i, '')}, imported ${list.importedAt.toISOString().slice(0, 10)}`;
+}
+
+// Score by what the indicator reveals: Tor hides the most
+const CATEGORY_SCORES: Record<IndicatorCategory, number> = { tor: 80, vpn: 65, proxy: 55 };
+const TUNNEL_SCORE = 60;
+
+export async function detectAnonymizerUsage(
+  records: IPDRRecord[],
+  config: Partial<AnonymizerConfig> = {},
+  onProgress?: (progress: AnomalyDetectionProgress) => void
+): Promise<Anomaly[]> {
+  const { lists = [], minFlowMinutes } = { ...DEFAULT_ANONYMIZER_CONFIG, ...config };
+  const matcher = new IndicatorMatcher(lists);
+  const anomalies: Anomaly[] = [];
+  const caseId = records[0]?.caseId || 'unknown';
+
+  // Indicator matches by source IP and list, and the longest VPN-port UDP flow by source IP
+  const usage = new Map<string, { sourceIP: string; list: IndicatorList; sessions: number; destinations: Set<string> }>();
+  const tunnels = new Map<string, { record: IPDRRecord; tunnel: string }>();
+
+  await scanRecords(records, 'anonymizer_usage', record => {
+    if (!matcher.isEmpty) {
+      const seen = new Set<string>();
+      matcher.match(record).forEach(({ list, entry }) => {
+        if (seen.has(list.id)) return;
+        seen.add(list.id);
+        const key = `${record.aParty}|${list.id}`;
+        const entryUsage = usage.get(key) || { sourceIP: record.aParty, list, sessions: 0, destinations: new Set<string>() };
+        entryUsage.sessions++;
+        entryUsage.destinations.add(entry.network ? `${record.bParty}${record.bPort ? `:${record.bPort}` : ''}` : `port ${record.bPort}`);
+        usage.set(key, entryUsage);
+      });
+    }
+
+    const tunnel = VPN_TUNNEL_PORTS[parsePort(record.bPort) ?? -1];
+    if (tunnel && record.protocol.toUpperCase() === 'UDP' && record.duration >= minFlowMinutes * 60) {
+      const longest = tunnels.get(record.aParty);
+      if (!longest || record.duration > longest.record.duration) tunnels.set(record.aParty, { record, tunnel });
+    }
+  }, onProgress);
+
+  usage.forEach(({ sourceIP, list, sessions, destinations }) => {
+    const score = Math.min(100, CATEGORY_SCORES[list.category] + Math.min(15, sessions));
+    const severity: Anomaly['severity'] = score >= 80 ? 'high' : score >= 60 ? 'medium' : 'low';
+    const shown = Array.from(destinations).slice(0, 3).join(', ');
+    const more = destinations.size > 3 ? ` and ${destinations.size - 3} more` : '';
+
+    anomalies.push({
+      id: `anom_${sourceIP}_anonymizer_${list.id}_${Date.now()}`,
+      caseId,
+      entity: sourceIP,
+      entityType: 'ip',
+      rule: 'anonymizer_usage',
+      score,
+      reason: `${INDICATOR_CATEGORY_LABELS[list.category]} use: ${sessions} session(s) to ${shown}${more} (${describeList(list)})`,
+      timestamp: new Date(),
+      severity
+    });
+  });
+
+  tunnels.forEach(({ record, tunnel }, sourceIP) => {
+    const score = Math.min(100, TUNNEL_SCORE + Math.min(20, Math.floor(record.duration / 3600) * 5));
+    const severity: Anomaly['severity'] = score >= 80 ? 'high' : score >= 60 ? 'medium' : 'low';
+
+    anomalies.push({
+      id: `anom_${sourceIP}_tunnel_${Date.now()}`,
+      caseId,
+      entity: sourceIP,
+      entityType: 'ip',
+      rule: 'anonymizer_usage',
+      score,
+      reason: `Likely ${tunnel} VPN: single UDP flow to ${record.bParty}:${record.bPort} lasting ${formatDuration(Math.round(record.duration))} ` +
+        `(heuristic: UDP flow on port ${record.bPort} longer than ${minFlowMinutes} min)`,
+      timestamp: new Date(),
+      severity
+    });
+  });
+
+  return anomalies;
+}
+
+// Imported lists are kept in IndexedDB so they survive a reload; they apply to every case
+const INDICATOR_LISTS = 'indicatorLists';
+
+const INDICATOR_DB: DatabaseSchema = {
+  name: 'ipdr-intel-indicators',
+  version: 1,
+  upgrade: (db) => {
+    db.createObjectStore(INDICATOR_LISTS, { keyPath: 'id' });
+  }
+};
+
+// The analyst's imported lists, oldest first; empty where IndexedDB is unavailable (server rendering, tests)
+export async function loadIndicatorLists(): Promise<IndicatorList[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  const lists = await getAllValues<IndicatorList>(INDICATOR_DB, INDICATOR_LISTS);
+  return lists.sort((a, b) => a.importedAt.getTime() - b.importedAt.getTime());
+}
+
+export async function importIndicatorList(list: IndicatorList): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  await putValue(INDICATOR_DB, INDICATOR_LISTS, list);
+}
+
+export async function removeIndicatorList(id: string): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  await deleteValue(INDICATOR_DB, INDICATOR_LISTS, id);
+}
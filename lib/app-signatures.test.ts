@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { attributeApplication } from './app-signatures';
+import { detectApplicationAnomalies } from './anomaly-detector';
+import { IPDRRecord } from './types';
+
+function record(aParty: string, bParty: string, bPort: string, protocol = 'TCP'): IPDRRecord {
+  return {
+    id: `rec_${aParty}_${bParty}_${bPort}`,
+    caseId: 'caseA',
+    aParty,
+    bParty,
+    bPort,
+    protocol,
+    startTimestamp: new Date('2025-08-20T10:00:00Z'),
+    endTimestamp: new Date('2025-08-20T10:00:05Z'),
+    duration: 5,
+    bytesTransferred: 2048,
+    sourceFileId: 'fileA',
+    rawRowHash: `${aParty}_${bParty}_${bPort}`,
+    operator: 'airtel',
+    application: attributeApplication({ bParty, bPort, protocol })
+  };
+}
+
+describe('application signatures', () => {
+  it('attributes the services in the test data generator', () => {
+    expect(attributeApplication({ bParty: '185.60.216.35', bPort: '443', protocol: 'TCP' })).toBe('WhatsApp');
+    expect(attributeApplication({ bParty: '31.13.82.51', bPort: '443', protocol: 'TCP' })).toBe('WhatsApp');
+    // Same Meta range, outside the messaging servers
+    expect(attributeApplication({ bParty: '31.13.82.1', bPort: '443', protocol: 'TCP' })).toBe('Facebook');
+    expect(attributeApplication({ bParty: '149.154.167.51', bPort: '443', protocol: 'TCP' })).toBe('Telegram');
+    expect(attributeApplication({ bParty: '142.250.183.14', bPort: '443', protocol: 'HTTPS' })).toBe('Google');
+    expect(attributeApplication({ bParty: '8.8.8.8', bPort: '53', protocol: 'UDP' })).toBe('Public DNS');
+  });
+
+  it('attributes IPv6 destinations', () => {
+    expect(attributeApplication({ bParty: '2404:6800:4009:812::200e', bPort: '443', protocol: 'TCP' })).toBe('Google');
+    expect(attributeApplication({ bParty: '2001:67c:4e8:f004::a', bPort: '443', protocol: 'TCP' })).toBe('Telegram');
+    expect(attributeApplication({ bParty: '2606:4700:4700::1111', bPort: '53', protocol: 'UDP' })).toBe('Public DNS');
+    expect(attributeApplication({ bParty: '2001:db8::1', bPort: '443', protocol: 'TCP' })).toBeUndefined();
+    // An IPv4-mapped address falls in the IPv4 ranges
+    expect(attributeApplication({ bParty: '::ffff:149.154.167.51', bPort: '443', protocol: 'TCP' })).toBe('Telegram');
+  });
+
+  it('matches on ports and protocols where no range is given', () => {
+    expect(attributeApplication({ bParty: '203.0.113.9', bPort: '5060', protocol: 'UDP' })).toBe('SIP VoIP');
+    expect(attributeApplication({ bParty: '203.0.113.9', bPort: '22', protocol: 'TCP' })).toBe('SSH');
+    expect(attributeApplication({ bParty: '203.0.113.9', bPort: '22', protocol: 'UDP' })).toBeUndefined();
+    expect(attributeApplication({ bParty: '203.0.113.9', bPort: undefined, protocol: 'TCP' })).toBeUndefined();
+  });
+
+  it('flags subscribers using watched applications', () => {
+    const records = [
+      record('10.0.0.1', '149.154.167.51', '443'),
+      record('10.0.0.1', '149.154.167.91', '443'),
+      record('10.0.0.2', '142.250.183.14', '443'),
+      record('10.0.0.3', '185.60.216.35', '443')
+    ];
+    const anomalies = detectApplicationAnomalies(records, ['telegram'], 'high');
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ entity: '10.0.0.1', rule: 'watched_application', severity: 'high', score: 81 });
+    expect(anomalies[0].reason).toBe('Telegram use: 2 session(s), 4 KB');
+  });
+});
@@ -0,0 +1,155 @@
+// Application attribution from destination IP, port and protocol
+// Each signature names an application and the destination CIDR ranges, ports and
+// protocols it is seen on. Signatures are tried in order and the first match wins,
+// so narrower signatures (a messaging service inside its parent company's ranges)
+// come before broader ones.
+
+import { IPDRRecord } from './types';
+import { cidrRange, ipToBigInt } from './ip-address';
+
+export type AppCategory = 'messaging' | 'voip' | 'social' | 'video' | 'web' | 'dns' | 'cloud' | 'email' | 'remote_access';
+
+export interface AppSignature {
+  id: string;
+  application: string; // Shown on records and in analytics, e.g. "WhatsApp"
+  category: AppCategory;
+  cidrs?: string[]; // Destination IPv4 or IPv6 ranges; any destination when omitted
+  ports?: Array<number | [number, number]>; // Destination ports or inclusive port ranges
+  protocols?: string[]; // Normalized protocol names (TCP, UDP, ...)
+}
+
+// Known ranges of the services analysts ask about most
+export const DEFAULT_APP_SIGNATURES: AppSignature[] = [
+  {
+    id: 'whatsapp',
+    application: 'WhatsApp',
+    category: 'messaging',
+    cidrs: ['185.60.216.0/22', '31.13.82.48/28', '31.13.64.48/28', '157.240.0.48/28', '157.240.192.48/28']
+  },
+  {
+    id: 'telegram',
+    application: 'Telegram',
+    category: 'messaging',
+    cidrs: ['91.105.192.0/23', '91.108.4.0/22', '91.108.8.0/22', '91.108.12.0/22', '91.108.16.0/22', '91.108.20.0/22', '91.108.56.0/22', '95.161.64.0/20', '149.154.160.0/20', '185.76.151.0/24', '2001:b28:f23c::/48', '2001:b28:f23d::/48', '2001:b28:f23f::/48', '2001:67c:4e8::/48', '2a0a:f280::/32']
+  },
+  {
+    id: 'signal',
+    application: 'Signal',
+    category: 'messaging',
+    cidrs: ['13.248.212.111/32', '76.223.92.165/32', '3.33.189.146/32', '15.197.193.85/32']
+  },
+  {
+    id: 'facebook',
+    application: 'Facebook',
+    category: 'social',
+    cidrs: ['31.13.24.0/21', '31.13.64.0/18', '66.220.144.0/20', '69.63.176.0/20', '69.171.224.0/19', '157.240.0.0/16', '173.252.64.0/18', '179.60.192.0/22', '2a03:2880::/32']
+  },
+  {
+    id: 'google_meet',
+    application: 'Google Meet',
+    category: 'voip',
+    cidrs: ['74.125.247.128/32', '74.125.250.0/24', '142.250.82.0/24'],
+    ports: [[19302, 19309], 3478],
+    protocols: ['UDP']
+  },
+  {
+    id: 'netflix',
+    application: 'Netflix',
+    category: 'video',
+    cidrs: ['23.246.0.0/18', '37.77.184.0/21', '45.57.0.0/17', '64.120.128.0/17', '66.197.128.0/17', '108.175.32.0/20', '185.2.220.0/22', '185.9.188.0/22', '192.173.64.0/18', '198.38.96.0/19', '198.45.48.0/20', '2a00:86c0::/32', '2620:10c:7000::/44']
+  },
+  {
+    id: 'google',
+    application: 'Google',
+    category: 'web',
+    cidrs: ['142.250.0.0/15', '172.217.0.0/16', '172.253.0.0/16', '216.58.192.0/19', '74.125.0.0/16', '64.233.160.0/19', '108.177.0.0/17', '2404:6800::/32', '2607:f8b0::/32', '2a00:1450::/32', '2800:3f0::/32']
+  },
+  {
+    id: 'microsoft',
+    application: 'Microsoft 365',
+    category: 'cloud',
+    cidrs: ['13.107.0.0/16', '40.96.0.0/13', '40.126.0.0/18', '52.96.0.0/14']
+  },
+  {
+    id: 'public_dns',
+    application: 'Public DNS',
+    category: 'dns',
+    cidrs: ['8.8.8.8/32', '8.8.4.4/32', '1.1.1.1/32', '1.0.0.1/32', '9.9.9.9/32', '208.67.222.222/32', '208.67.220.220/32', '2001:4860:4860::8888/128', '2001:4860:4860::8844/128', '2606:4700:4700::1111/128', '2606:4700:4700::1001/128', '2620:fe::fe/128']
+  },
+  {
+    id: 'sip',
+    application: 'SIP VoIP',
+    category: 'voip',
+    ports: [5060, 5061]
+  },
+  {
+    id: 'dns',
+    application: 'DNS',
+    category: 'dns',
+    ports: [53]
+  },
+  {
+    id: 'ssh',
+    application: 'SSH',
+    category: 'remote_access',
+    ports: [22],
+    protocols: ['TCP']
+  },
+  {
+    id: 'email',
+    application: 'Email',
+    category: 'email',
+    ports: [25, 110, 143, 465, 587, 993, 995],
+    protocols: ['TCP']
+  }
+];
+
+// Signatures with their CIDRs resolved to 128-bit bounds (see ipToBigInt)
+interface CompiledSignature {
+  signature: AppSignature;
+  ranges: Array<{ start: bigint; end: bigint }> | null;
+}
+
+function compileSignature(signature: AppSignature): CompiledSignature {
+  return {
+    signature,
+    ranges: signature.cidrs
+      ? signature.cidrs.map(cidr => {
+          const range = cidrRange(cidr);
+          if (!range) throw new Error(`Invalid CIDR ${cidr} in application signature ${signature.id}`);
+          return range;
+        })
+      : null
+  };
+}
+
+const compiled: CompiledSignature[] = DEFAULT_APP_SIGNATURES.map(compileSignature);
+
+export function getAppSignatures(): AppSignature[] {
+  return compiled.map(entry => entry.signature);
+}
+
+function portMatches(ports: AppSignature['ports'], port: number | null): boolean {
+  if (!ports) return true;
+  if (port === null) return false;
+  return ports.some(entry => Array.isArray(entry) ? port >= entry[0] && port <= entry[1] : port === entry);
+}
+
+// The matching signature for a destination, if any
+export function matchAppSignature(destinationIP: string, destinationPort: string | undefined, protocol: string): AppSignature | null {
+  const address = ipToBigInt(destinationIP);
+  const port = destinationPort && /^\d+$/.test(destinationPort) ? Number(destinationPort) : null;
+  const normalizedProtocol = protocol.toUpperCase();
+
+  for (const { signature, ranges } of compiled) {
+    if (ranges && (address === null || !ranges.some(range => address >= range.start && address <= range.end))) continue;
+    if (!portMatches(signature.ports, port)) continue;
+    if (signature.protocols && !signature.protocols.includes(normalizedProtocol)) continue;
+    return signature;
+  }
+  return null;
+}
+
+export function attributeApplication(record: Pick<IPDRRecord, 'bParty' | 'bPort' | 'protocol'>): string | undefined {
+  return matchAppSignature(record.bParty, record.bPort, record.protocol)?.application;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { zipSync, gzipSync, strToU8 } from 'fflate';
+import { extractArchive, isArchiveFile } from './archive-extractor';
+import { processEvidenceArchive, sha256Hex } from './processing';
+
+const DAY1 = `SourceIP,DestinationIP,Protocol,StartTime,EndTime,Bytes
+10.0.0.1,142.250.183.14,TCP,2025-08-20 10:00:05,2025-08-20 10:00:15,2048`;
+const DAY2 = `SourceIP,DestinationIP,Protocol,StartTime,EndTime,Bytes
+10.0.0.2,142.250.183.14,UDP,2025-08-21 10:00:05,2025-08-21 10:00:15,512
+10.0.0.3,142.250.183.14,UDP,2025-08-21 10:01:05,2025-08-21 10:01:15,256`;
+
+function buildZip(): Uint8Array {
+  return zipSync({
+    'exports/day1.csv': strToU8(DAY1),
+    'exports/day2.csv': strToU8(DAY2),
+    'exports/notes.txt': strToU8('not an ipdr file'),
+    '__MACOSX/exports/._day1.csv': strToU8('resource fork'),
+    'exports/cover-letter.pdf': strToU8('%PDF')
+  });
+}
+
+describe('archive extraction', () => {
+  it('extracts parseable members and skips metadata and unsupported files', () => {
+    const { members, skipped } = extractArchive(buildZip(), 'airtel.zip');
+    expect(members.map(m => m.path)).toEqual(['exports/day1.csv', 'exports/day2.csv', 'exports/notes.txt']);
+    expect(members[0].name).toBe('day1.csv');
+    expect(skipped).toEqual(['exports/cover-letter.pdf']);
+    expect(isArchiveFile('dump.csv.gz')).toBe(true);
+  });
+
+  it('unpacks a single gzipped export', () => {
+    const { members } = extractArchive(gzipSync(strToU8(DAY1)), 'day1.csv.gz');
+    expect(members[0].name).toBe('day1.csv');
+    expect(new TextDecoder().decode(members[0].data)).toBe(DAY1);
+  });
+
+  it('creates child evidence per member with its own hash and parent link', async () => {
+    const zip = buildZip();
+    const file = new File([zip.slice().buffer as ArrayBuffer], 'airtel.zip', { type: 'application/zip' });
+    const { archive, members } = await processEvidenceArchive(file, 'caseA', undefined, { operator: 'airtel' });
+
+    expect(archive.sha256).toBe(await sha256Hex(zip.slice().buffer as ArrayBuffer));
+    expect(archive.recordCount).toBe(3);
+    expect(members).toHaveLength(3);
+    expect(members.every(m => m.evidence.parentId === archive.id)).toBe(true);
+    expect(members[1].evidence.archivePath).toBe('exports/day2.csv');
+    expect(members[1].evidence.sha256).toBe(await sha256Hex(new TextEncoder().encode(DAY2).buffer as ArrayBuffer));
+    expect(members[1].records.every(r => r.sourceFileId === members[1].evidence.id)).toBe(true);
+    // The stray text file is kept as failed evidence instead of aborting the archive
+    expect(members[2].evidence.status).toBe('error');
+  });
+});
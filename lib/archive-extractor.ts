@@ -0,0 +1,92 @@
+// ZIP and GZIP evidence archive extraction
+// Operators usually deliver a ZIP of daily exports; each member is unpacked in memory
+// so it can be hashed and parsed as evidence in its own right.
+
+import { unzipSync, gunzipSync, UnzipFileInfo } from 'fflate';
+
+export const ARCHIVE_EXTENSIONS = ['zip', 'gz'];
+
+// Member extensions that the parsing pipeline understands
+const PARSEABLE_EXTENSIONS = ['csv', 'tsv', 'txt', 'dat', 'json', 'ndjson', 'jsonl', 'xml', 'xlsx', 'xls'];
+
+// Guard against decompression bombs: total uncompressed bytes accepted per archive
+export const MAX_EXTRACTED_BYTES = 2 * 1024 * 1024 * 1024;
+
+export interface ArchiveMember {
+  path: string; // Path inside the archive
+  name: string; // Base filename
+  data: Uint8Array;
+}
+
+export interface ArchiveContents {
+  members: ArchiveMember[];
+  skipped: string[]; // Directories, OS metadata and unsupported file types
+}
+
+function extensionOf(filename: string): string {
+  return filename.toLowerCase().split('.').pop() || '';
+}
+
+export function isArchiveFile(filename: string): boolean {
+  return ARCHIVE_EXTENSIONS.includes(extensionOf(filename));
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+// macOS resource forks and hidden files ride along in many archives
+function isMetadataEntry(path: string): boolean {
+  return path.startsWith('__MACOSX/') || baseName(path).startsWith('.');
+}
+
+// Extract parseable members; pass limit to stop after the first few (e.g. for fingerprinting)
+export function extractArchive(data: Uint8Array, filename: string, limit?: number): ArchiveContents {
+  if (extensionOf(filename) === 'gz') {
+    const inner = filename.replace(/\.gz$/i, '');
+    if (extensionOf(inner) === 'tar') {
+      throw new Error('TAR archives are not supported. Please provide a ZIP or a single gzipped file.');
+    }
+    let unpacked: Uint8Array;
+    try {
+      unpacked = gunzipSync(data);
+    } catch (error) {
+      console.error('GZIP extraction error:', error);
+      throw new Error('Invalid GZIP file. The archive may be corrupted or truncated.');
+    }
+    return { members: [{ path: baseName(inner), name: baseName(inner), data: unpacked }], skipped: [] };
+  }
+
+  const skipped: string[] = [];
+  let accepted = 0;
+  let totalBytes = 0;
+  const filter = (info: UnzipFileInfo) => {
+    if (info.name.endsWith('/') || isMetadataEntry(info.name)) {
+      return false;
+    }
+    if (!PARSEABLE_EXTENSIONS.includes(extensionOf(info.name)) || (limit !== undefined && accepted >= limit)) {
+      skipped.push(info.name);
+      return false;
+    }
+    totalBytes += info.originalSize;
+    if (totalBytes > MAX_EXTRACTED_BYTES) {
+      throw new Error(`Archive expands beyond ${MAX_EXTRACTED_BYTES / 1024 / 1024 / 1024} GB and was not extracted.`);
+    }
+    accepted++;
+    return true;
+  };
+
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data, { filter });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Archive expands')) throw error;
+    console.error('ZIP extraction error:', error);
+    throw new Error('Invalid ZIP archive. The archive may be corrupted, truncated or encrypted.');
+  }
+
+  const members = Object.keys(entries)
+    .sort()
+    .map(path => ({ path, name: baseName(path), data: entries[path] }));
+  return { members, skipped };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeBeaconing, detectBeaconingAnomalies, isBeaconing } from './beacon-detector';
+import { DEFAULT_ANOMALY_RULES, runAllAnomalyDetection } from './anomaly-detector';
+import { IPDRRecord } from './types';
+
+const START = Date.parse('2025-08-20T10:00:00Z');
+// Deterministic jitter in seconds, within ±6s
+const JITTER = [3, -4, 1, 6, -2, 0, -5, 2, 4, -1, -3, 5, -6, 2, 0, 1, -2, 3, -4, 1];
+
+// A check-in every 5 minutes with jitter; the 8th beacon is missed
+const BEACON_TIMES = JITTER.map((jitter, i) => START + (i * 300 + jitter) * 1000).filter((_, i) => i !== 7);
+// Someone browsing: irregular gaps between a few seconds and twenty minutes
+const HUMAN_GAPS = [12, 340, 45, 1210, 8, 95, 600, 30, 2, 410, 75, 980, 15];
+const HUMAN_TIMES = HUMAN_GAPS.reduce((times, gap) => [...times, times[times.length - 1] + gap * 1000], [START]);
+
+function connections(aParty: string, bParty: string, times: number[]): IPDRRecord[] {
+  return times.map((time, i) => ({
+    id: `rec_${aParty}_${bParty}_${i}`,
+    caseId: 'case10',
+    aParty,
+    bParty,
+    bPort: '443',
+    protocol: 'TCP',
+    startTimestamp: new Date(time),
+    endTimestamp: new Date(time + 2000),
+    duration: 2,
+    bytesTransferred: 512,
+    sourceFileId: 'file10',
+    rawRowHash: `${aParty}_${bParty}_${i}`,
+    operator: 'vodafone'
+  }));
+}
+
+describe('beaconing detector', () => {
+  it('measures the period, jitter and missed beacons of regular check-ins', () => {
+    const analysis = analyzeBeaconing(BEACON_TIMES)!;
+
+    expect(analysis.beacons).toBe(19);
+    expect(analysis.periodSeconds).toBeCloseTo(300, 0);
+    expect(analysis.jitterSeconds).toBeGreaterThan(2);
+    expect(analysis.jitterSeconds).toBeLessThan(6);
+    expect(analysis.missedBeacons).toBe(1);
+    expect(analysis.onSchedule).toBe(1);
+    expect(analysis.periodicity).toBeGreaterThan(0.98);
+    expect(isBeaconing(analysis)).toBe(true);
+
+    // Parallel connections in the same second are one check-in
+    expect(analyzeBeaconing([...BEACON_TIMES, ...BEACON_TIMES.map(time => time + 200)])!.beacons).toBe(19);
+  });
+
+  it('does not mistake irregular traffic or short series for beaconing', () => {
+    expect(isBeaconing(analyzeBeaconing(HUMAN_TIMES))).toBe(false);
+    expect(analyzeBeaconing(BEACON_TIMES.slice(0, 5))).toBeNull();
+    expect(isBeaconing(analyzeBeaconing(BEACON_TIMES), { maxJitter: 0.005 })).toBe(false);
+    expect(isBeaconing(analyzeBeaconing(BEACON_TIMES), { maxPeriodSeconds: 120 })).toBe(false);
+  });
+
+  it('reports beaconing pairs with period, jitter and beacon count', async () => {
+    const records = [
+      ...connections('10.20.0.5', '185.220.101.7', BEACON_TIMES),
+      ...connections('10.20.0.5', '142.250.183.14', HUMAN_TIMES),
+      ...connections('10.20.0.9', '185.220.101.7', BEACON_TIMES.slice(0, 4))
+    ];
+    const anomalies = await detectBeaconingAnomalies(records);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ entity: '10.20.0.5', entityType: 'ip', rule: 'beaconing', severity: 'high' });
+    expect(anomalies[0].reason).toMatch(/^Beaconing to 185\.220\.101\.7: 19 connections every 5m \(jitter ±\d\.\ds, \d\.\d%, 1 missed\), periodicity 0\.9\d$/);
+
+    const builtInsOff = DEFAULT_ANOMALY_RULES.filter(rule => rule.id !== 'beaconing').map(rule => ({ id: rule.id, enabled: false }));
+    expect(await runAllAnomalyDetection(records, builtInsOff)).toHaveLength(1);
+    expect(await runAllAnomalyDetection(records, [...builtInsOff, { id: 'beaconing', config: { minBeacons: 25 } }])).toEqual([]);
+  });
+});
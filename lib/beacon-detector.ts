@@ -0,0 +1,142 @@
+// Periodic beaconing (C2 / remote-access "phone home") detection
+// Malware checks in with its controller at a fixed interval, with a little jitter and the
+// occasional missed beacon. For each aParty → bParty pair the connection start times are
+// reduced to inter-arrival intervals; intervals within the jitter tolerance of the median
+// interval, or of a small multiple of it (missed beacons), are on schedule. The pair is a
+// beacon when most intervals are on schedule and their coefficient of variation is low.
+
+import { IPDRRecord, Anomaly } from './types';
+import type { AnomalyDetectionProgress } from './anomaly-detector';
+import { scanRecords } from './anomaly-scan';
+import { median } from './behavior-baseline';
+import { formatDuration } from '@/utils/formatters';
+
+export interface BeaconConfig {
+  minBeacons: number; // Connections needed before a pair is judged
+  jitterTolerance: number; // Fraction of the period an interval may stray and still be on schedule
+  maxJitter: number; // Highest coefficient of variation of on-schedule intervals
+  minPeriodSeconds: number;
+  maxPeriodSeconds: number;
+}
+
+export const DEFAULT_BEACON_CONFIG: BeaconConfig = {
+  minBeacons: 8,
+  jitterTolerance: 0.2,
+  maxJitter: 0.1,
+  minPeriodSeconds: 10,
+  maxPeriodSeconds: 24 * 60 * 60
+};
+
+export interface BeaconAnalysis {
+  beacons: number; // Distinct connection times
+  periodSeconds: number;
+  jitterSeconds: number; // Standard deviation of the on-schedule intervals
+  coefficientOfVariation: number;
+  onSchedule: number; // Fraction of intervals on schedule
+  missedBeacons: number; // Beacons skipped inside on-schedule intervals
+  periodicity: number; // 0-1: on-schedule fraction, discounted by the jitter
+}
+
+// Missed beacons an interval may span and still count as on schedule
+const MAX_MISSED_BEACONS = 2;
+// Fraction of intervals that must be on schedule
+const MIN_ON_SCHEDULE = 0.8;
+
+// Periodicity of a series of connection times (ms); null when there are too few to judge
+export function analyzeBeaconing(times: number[], config: Partial<BeaconConfig> = {}): BeaconAnalysis | null {
+  const { minBeacons, jitterTolerance } = { ...DEFAULT_BEACON_CONFIG, ...config };
+  // Connections opened in the same second are one check-in
+  const seconds = Array.from(new Set(times.map(time => Math.floor(time / 1000)))).sort((a, b) => a - b);
+  if (seconds.length < Math.max(3, minBeacons)) return null;
+
+  const intervals = seconds.slice(1).map((second, i) => second - seconds[i]);
+  const typical = median(intervals);
+
+  // Per-beacon interval of each on-schedule gap; a gap of k periods contributes gap / k
+  const onSchedule: number[] = [];
+  let missedBeacons = 0;
+  intervals.forEach(interval => {
+    const multiple = Math.round(interval / typical);
+    if (multiple < 1 || multiple > MAX_MISSED_BEACONS + 1) return;
+    if (Math.abs(interval - multiple * typical) > jitterTolerance * typical) return;
+    onSchedule.push(interval / multiple);
+    missedBeacons += multiple - 1;
+  });
+  if (onSchedule.length === 0) return null;
+
+  const periodSeconds = onSchedule.reduce((sum, interval) => sum + interval, 0) / onSchedule.length;
+  const jitterSeconds = Math.sqrt(onSchedule.reduce((sum, interval) => sum + (interval - periodSeconds) ** 2, 0) / onSchedule.length);
+  const coefficientOfVariation = jitterSeconds / periodSeconds;
+  const onScheduleFraction = onSchedule.length / intervals.length;
+
+  return {
+    beacons: seconds.length,
+    periodSeconds,
+    jitterSeconds,
+    coefficientOfVariation,
+    onSchedule: onScheduleFraction,
+    missedBeacons,
+    periodicity: onScheduleFraction * Math.max(0, 1 - coefficientOfVariation)
+  };
+}
+
+export function isBeaconing(analysis: BeaconAnalysis | null, config: Partial<BeaconConfig> = {}): analysis is BeaconAnalysis {
+  const { minBeacons, maxJitter, minPeriodSeconds, maxPeriodSeconds } = { ...DEFAULT_BEACON_CONFIG, ...config };
+  return !!analysis &&
+    analysis.beacons >= minBeacons &&
+    analysis.onSchedule >= MIN_ON_SCHEDULE &&
+    analysis.coefficientOfVariation <= maxJitter &&
+    analysis.periodSeconds >= minPeriodSeconds &&
+    analysis.periodSeconds <= maxPeriodSeconds;
+}
+
+function formatSeconds(seconds: number): string {
+  return seconds < 10 ? `${seconds.toFixed(1)}s` : formatDuration(Math.round(seconds));
+}
+
+export async function detectBeaconingAnomalies(
+  records: IPDRRecord[],
+  config: Partial<BeaconConfig> = {},
+  onProgress?: (progress: AnomalyDetectionProgress) => void
+): Promise<Anomaly[]> {
+  const settings = { ...DEFAULT_BEACON_CONFIG, ...config };
+  const anomalies: Anomaly[] = [];
+  const caseId = records[0]?.caseId || 'unknown';
+
+  // Connection times by source and destination
+  const pairs = new Map<string, { aParty: string; bParty: string; times: number[] }>();
+
+  await scanRecords(records, 'beaconing', record => {
+    const key = `${record.aParty}|${record.bParty}`;
+    const pair = pairs.get(key);
+    if (pair) pair.times.push(record.startTimestamp.getTime());
+    else pairs.set(key, { aParty: record.aParty, bParty: record.bParty, times: [record.startTimestamp.getTime()] });
+  }, onProgress);
+
+  pairs.forEach(({ aParty, bParty, times }) => {
+    if (times.length < settings.minBeacons) return;
+    const analysis = analyzeBeaconing(times, settings);
+    if (!isBeaconing(analysis, settings)) return;
+
+    // Regular, long-running check-ins score highest
+    const score = Math.min(100, Math.round(40 + analysis.periodicity * 40 + Math.min(20, analysis.beacons / 5)));
+    const severity: Anomaly['severity'] = score >= 80 ? 'high' : score >= 60 ? 'medium' : 'low';
+    const missed = analysis.missedBeacons > 0 ? `, ${analysis.missedBeacons} missed` : '';
+
+    anomalies.push({
+      id: `anom_${aParty}_beacon_${bParty.replace(/\W+/g, '_')}_${Date.now()}`,
+      caseId,
+      entity: aParty,
+      entityType: 'ip',
+      rule: 'beaconing',
+      score,
+      reason: `Beaconing to ${bParty}: ${analysis.beacons} connections every ${formatSeconds(analysis.periodSeconds)} ` +
+        `(jitter ±${formatSeconds(analysis.jitterSeconds)}, ${(analysis.coefficientOfVariation * 100).toFixed(1)}%${missed}), ` +
+        `periodicity ${analysis.periodicity.toFixed(2)}`,
+      timestamp: new Date(),
+      severity
+    });
+  });
+
+  return anomalies;
+}
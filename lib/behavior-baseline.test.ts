@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { buildBaselines, describeDistribution, detectBaselineDeviations, deviationFrom } from './behavior-baseline';
+import { detectHighVolumeAnomalies } from './anomaly-detector';
+import { IPDRRecord } from './types';
+
+const TRAINING_START = Date.parse('2025-08-01T04:30:00Z'); // 10:00 IST
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function session(subscriberID: string, time: number, bParty: string, bytes: number, protocol = 'TCP'): IPDRRecord {
+  return {
+    id: `rec_${subscriberID}_${time}_${bParty}`,
+    caseId: 'case9',
+    aParty: `100.64.9.${subscriberID.slice(-1)}`,
+    bParty,
+    protocol,
+    startTimestamp: new Date(time),
+    endTimestamp: new Date(time + 60000),
+    duration: 60,
+    bytesTransferred: bytes,
+    sourceFileId: 'file9',
+    rawRowHash: `${subscriberID}_${time}_${bParty}`,
+    operator: 'airtel',
+    subscriberID
+  };
+}
+
+// A quiet subscriber (tens of KB an hour) and a heavy one (5 MB an hour), 10:00-13:00 IST for a week
+function trainingWeek(): IPDRRecord[] {
+  const records: IPDRRecord[] = [];
+  for (let day = 0; day < 7; day++) {
+    for (let hour = 0; hour < 3; hour++) {
+      const time = TRAINING_START + day * DAY + hour * HOUR;
+      records.push(session('919800000001', time, hour === 2 && day % 2 ? '9.9.9.9' : ['8.8.8.8', '1.1.1.1'][hour % 2], 20000 + day * 1000 + hour * 500));
+      records.push(session('919800000002', time, ['142.250.1.1', '142.250.1.2', '142.250.1.3'][hour], 5_000_000));
+    }
+  }
+  return records;
+}
+
+describe('behavioral baselines', () => {
+  it('summarises distributions and scores deviations robustly', () => {
+    const stats = describeDistribution([10, 12, 11, 13, 9, 100]);
+    expect(stats).toMatchObject({ samples: 6, median: 11.5, mad: 1.5 });
+    expect(deviationFrom(20, stats)).toEqual({ score: expect.closeTo(3.82, 2), method: 'MAD' });
+
+    // No spread at all: deviations are relative to the median
+    expect(deviationFrom(30, describeDistribution([3, 3, 3]))).toEqual({ score: 27, method: 'relative' });
+  });
+
+  it('learns each subscriber baseline from the training window', async () => {
+    const baselines = await buildBaselines(trainingWeek(), { trainingDays: 7 });
+    const quiet = baselines.get('919800000001')!;
+
+    expect(quiet.trainingRecords).toBe(21);
+    expect(quiet.hourlyBytes).toMatchObject({ samples: 21, median: 23500 });
+    expect(quiet.dailyContacts).toMatchObject({ samples: 7, median: 2 });
+    expect(Array.from(quiet.contacts).sort()).toEqual(['1.1.1.1', '8.8.8.8', '9.9.9.9']);
+    expect(quiet.protocols).toEqual({ TCP: 21 });
+    expect(quiet.activeHours.flatMap((sessions, hour) => sessions ? [hour] : [])).toEqual([10, 11, 12]);
+  });
+
+  it('reports progress while learning and stops once cancelled', async () => {
+    const records = trainingWeek();
+    const progress: number[] = [];
+    const controller = new AbortController();
+    await expect(buildBaselines(records, { trainingDays: 7 }, p => {
+      progress.push(p.processedRecords);
+      controller.abort();
+    }, controller.signal)).rejects.toThrow('Anomaly detection was cancelled');
+    expect(progress).toEqual([records.length]);
+  });
+
+  it('flags a quiet target deviating from its own baseline, not a steady heavy user', async () => {
+    const spike = TRAINING_START + 7 * DAY + 16 * HOUR; // 02:00 IST on day 8
+    const records = [
+      ...trainingWeek(),
+      ...Array.from({ length: 15 }, (_, i) => session('919800000001', spike + i * 60000, `45.77.0.${i}`, 150000, 'UDP')),
+      ...[0, 1, 2].map(hour => session('919800000002', TRAINING_START + 7 * DAY + hour * HOUR, `142.250.1.${hour + 1}`, 5_000_000))
+    ];
+
+    const anomalies = await detectBaselineDeviations(records, { trainingDays: 7 });
+    expect(anomalies.every(a => a.entity === '919800000001' && a.rule === 'behavior_baseline')).toBe(true);
+    const reasons = anomalies.map(a => a.reason);
+    expect(reasons).toHaveLength(4);
+    expect(reasons[0]).toMatch(/^Hourly volume 2\.1 MB in the hour from 09 Aug 2025, 01:30:00 am vs baseline median 23 KB, MAD 1\.5 KB over 21 active hours \(robust z \d+\.\d\)$/);
+    expect(reasons[1]).toMatch(/^15 distinct contacts \(15 never seen in training\) on day 8 vs baseline mean 2\.4, SD 0\.5 over 7 active days \(z \d+\.\d\)$/);
+    expect(reasons[2]).toBe('New protocol(s) UDP (15 sessions); baseline over 21 sessions: TCP 100%');
+    expect(reasons[3]).toBe('15 sessions at 02:00, hours never active in training; baseline active hours 10:00, 11:00, 12:00 (Asia/Kolkata)');
+    expect(anomalies[0].severity).toBe('high');
+
+    // The fixed 1 MB/hour threshold also flags the steady heavy user
+    expect(new Set(detectHighVolumeAnomalies(records).map(a => a.entity))).toEqual(new Set(['100.64.9.2', '100.64.9.1']));
+  });
+
+  it('trains a subscriber who first appears after the first training window on its own first week', async () => {
+    // Subscriber 3 starts a week after everyone else, then spikes in its second week
+    const late = trainingWeek()
+      .filter(record => record.subscriberID === '919800000001')
+      .map(record => session('919800000003', record.startTimestamp.getTime() + 7 * DAY, record.bParty, record.bytesTransferred));
+    const spike = TRAINING_START + 14 * DAY + HOUR;
+    const records = [...trainingWeek(), ...late, session('919800000003', spike, '8.8.8.8', 3_000_000)];
+
+    const baseline = (await buildBaselines(records, { trainingDays: 7 })).get('919800000003')!;
+    expect(baseline.trainingStart).toBe(TRAINING_START + 7 * DAY);
+    expect(baseline.trainingRecords).toBe(21);
+
+    const anomalies = await detectBaselineDeviations(records, { trainingDays: 7 });
+    expect(anomalies.map(a => a.entity)).toEqual(['919800000003']);
+    expect(anomalies[0].reason).toMatch(/^Hourly volume 2\.9 MB/);
+  });
+});
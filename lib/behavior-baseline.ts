@@ -0,0 +1,294 @@
+// Per-subscriber behavioural baselines
+// Fixed thresholds flag every heavy user and miss quiet targets. Instead, each entity's normal
+// behaviour is learned from a training window at the start of its own activity (hourly volume,
+// daily contact fan-out, protocols and active hours of the day), and its later activity is scored
+// by how far it deviates from that baseline: robust z-scores from the median and MAD,
+// falling back to the mean and standard deviation when the MAD is zero.
+
+import { IPDRRecord, Anomaly } from './types';
+import type { AnomalyDetectionProgress } from './anomaly-detector';
+import { scanRecords } from './anomaly-scan';
+import { hourOfDay } from './anomaly-rules';
+import { formatBytes, formatTimestamp } from '@/utils/formatters';
+
+export interface BaselineConfig {
+  trainingDays: number; // Training window, from each entity's first record
+  threshold: number; // Deviation (robust z) at which activity is flagged
+  minTrainingHours: number; // Active training hours an entity needs before it is scored
+  timezone: string; // For active hours of the day
+}
+
+export const DEFAULT_BASELINE_CONFIG: BaselineConfig = {
+  trainingDays: 7,
+  threshold: 3.5,
+  minTrainingHours: 5,
+  timezone: 'Asia/Kolkata'
+};
+
+export interface DistributionStats {
+  samples: number;
+  median: number;
+  mad: number; // Median absolute deviation from the median
+  mean: number;
+  stdDev: number;
+}
+
+export interface EntityBaseline {
+  entity: string;
+  trainingStart: number; // The entity's first record (ms)
+  trainingEnd: number; // Activity from here on is scored
+  trainingRecords: number;
+  hourlyBytes: DistributionStats; // Bytes per active clock hour
+  dailyContacts: DistributionStats; // Distinct contacts per active day
+  contacts: Set<string>;
+  protocols: Record<string, number>; // Sessions by protocol
+  activeHours: number[]; // Sessions by hour of the day, 0-23
+}
+
+export interface Deviation {
+  score: number; // Signed deviation in robust z units
+  method: 'MAD' | 'z-score' | 'relative';
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Scales the MAD to a standard deviation for normally distributed data
+const MAD_SCALE = 1.4826;
+// Sessions in hours never active during training before they count as off-hours use
+const MIN_OFF_HOURS_SESSIONS = 3;
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function describeDistribution(values: number[]): DistributionStats {
+  const mid = median(values);
+  const mean = values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  const variance = values.length ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length : 0;
+  return {
+    samples: values.length,
+    median: mid,
+    mad: median(values.map(v => Math.abs(v - mid))),
+    mean,
+    stdDev: Math.sqrt(variance)
+  };
+}
+
+// How far a value lies from a baseline distribution
+export function deviationFrom(value: number, stats: DistributionStats): Deviation {
+  if (stats.mad > 0) return { score: (value - stats.median) / (MAD_SCALE * stats.mad), method: 'MAD' };
+  if (stats.stdDev > 0) return { score: (value - stats.mean) / stats.stdDev, method: 'z-score' };
+  // A flat baseline: a 10% change counts as one deviation
+  return { score: (value - stats.median) / Math.max(Math.abs(stats.median) * 0.1, 1), method: 'relative' };
+}
+
+function entityOf(record: IPDRRecord): string {
+  return record.subscriberID || record.aParty;
+}
+
+interface Activity {
+  records: number;
+  hourlyBytes: Map<number, number>; // By clock hour since the epoch
+  dailyContacts: Map<number, Set<string>>; // By day since the start of training
+  contacts: Set<string>;
+  protocols: Record<string, number>;
+  activeHours: number[];
+}
+
+function emptyActivity(): Activity {
+  return { records: 0, hourlyBytes: new Map(), dailyContacts: new Map(), contacts: new Set(), protocols: {}, activeHours: new Array(24).fill(0) };
+}
+
+function addActivity(activity: Activity, record: IPDRRecord, trainingStart: number, timezone: string) {
+  const time = record.startTimestamp.getTime();
+  const hour = Math.floor(time / HOUR_MS);
+  const day = Math.floor((time - trainingStart) / DAY_MS);
+  activity.records++;
+  activity.hourlyBytes.set(hour, (activity.hourlyBytes.get(hour) || 0) + record.bytesTransferred);
+  let contacts = activity.dailyContacts.get(day);
+  if (!contacts) {
+    contacts = new Set();
+    activity.dailyContacts.set(day, contacts);
+  }
+  contacts.add(record.bParty);
+  activity.contacts.add(record.bParty);
+  const protocol = record.protocol.toUpperCase();
+  activity.protocols[protocol] = (activity.protocols[protocol] || 0) + 1;
+  activity.activeHours[hourOfDay(record.startTimestamp, timezone)]++;
+}
+
+function toBaseline(entity: string, training: Activity, trainingStart: number, trainingEnd: number): EntityBaseline {
+  return {
+    entity,
+    trainingStart,
+    trainingEnd,
+    trainingRecords: training.records,
+    hourlyBytes: describeDistribution(Array.from(training.hourlyBytes.values())),
+    dailyContacts: describeDistribution(Array.from(training.dailyContacts.values(), contacts => contacts.size)),
+    contacts: training.contacts,
+    protocols: training.protocols,
+    activeHours: training.activeHours
+  };
+}
+
+// Baselines for every entity, each learned from the first trainingDays of its own activity.
+// Both passes report progress under behavior_baseline and stop once signal is aborted
+export async function buildBaselines(
+  records: IPDRRecord[],
+  config: Partial<BaselineConfig> = {},
+  onProgress?: (progress: AnomalyDetectionProgress) => void,
+  signal?: AbortSignal
+): Promise<Map<string, EntityBaseline>> {
+  const { trainingDays, timezone } = { ...DEFAULT_BASELINE_CONFIG, ...config };
+  const firstSeen = new Map<string, number>();
+  await scanRecords(records, 'behavior_baseline', record => {
+    const entity = entityOf(record);
+    const time = record.startTimestamp.getTime();
+    const first = firstSeen.get(entity);
+    if (first === undefined || time < first) firstSeen.set(entity, time);
+  }, onProgress, signal);
+
+  const training = new Map<string, Activity>();
+  await scanRecords(records, 'behavior_baseline', record => {
+    const entity = entityOf(record);
+    const start = firstSeen.get(entity)!;
+    if (record.startTimestamp.getTime() >= start + trainingDays * DAY_MS) return;
+    if (!training.has(entity)) training.set(entity, emptyActivity());
+    addActivity(training.get(entity)!, record, start, timezone);
+  }, onProgress, signal);
+  return new Map(Array.from(training, ([entity, activity]) => {
+    const start = firstSeen.get(entity)!;
+    return [entity, toBaseline(entity, activity, start, start + trainingDays * DAY_MS)];
+  }));
+}
+
+function formatStats(stats: DistributionStats, format: (value: number) => string, unit: string, deviation: Deviation): string {
+  const spread = deviation.method === 'z-score'
+    ? `mean ${format(stats.mean)}, SD ${format(stats.stdDev)}`
+    : `median ${format(stats.median)}, MAD ${format(stats.mad)}`;
+  const label = deviation.method === 'MAD' ? 'robust z' : deviation.method === 'z-score' ? 'z' : 'relative deviation';
+  return `baseline ${spread} over ${stats.samples} ${unit} (${label} ${deviation.score.toFixed(1)})`;
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+function scoreFor(deviation: number, threshold: number): number {
+  return Math.min(100, Math.round(50 + 10 * (deviation - threshold)));
+}
+
+function severityFor(score: number): Anomaly['severity'] {
+  return score >= 80 ? 'high' : score >= 60 ? 'medium' : 'low';
+}
+
+// Deviations of one entity's post-training activity from its baseline; the strongest per dimension
+function scoreEntity(baseline: EntityBaseline, activity: Activity, config: BaselineConfig, caseId: string): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  const { entity } = baseline;
+  const flag = (dimension: string, deviation: number, reason: string) => {
+    const score = scoreFor(deviation, config.threshold);
+    anomalies.push({
+      id: `anom_${entity}_baseline_${dimension}_${Date.now()}`,
+      caseId,
+      entity,
+      entityType: /[.:]/.test(entity) ? 'ip' : 'phone',
+      rule: 'behavior_baseline',
+      score,
+      reason,
+      timestamp: new Date(),
+      severity: severityFor(score)
+    });
+  };
+
+  // Hourly volume
+  let peakHour: { hour: number; bytes: number; deviation: Deviation } | null = null;
+  for (const [hour, bytes] of activity.hourlyBytes) {
+    const deviation = deviationFrom(bytes, baseline.hourlyBytes);
+    if (deviation.score >= config.threshold && (!peakHour || deviation.score > peakHour.deviation.score)) peakHour = { hour, bytes, deviation };
+  }
+  if (peakHour) {
+    const { hour, bytes, deviation } = peakHour;
+    flag('volume', deviation.score,
+      `Hourly volume ${formatBytes(bytes)} in the hour from ${formatTimestamp(new Date(hour * HOUR_MS))} vs ${formatStats(baseline.hourlyBytes, formatBytes, 'active hours', deviation)}`);
+  }
+
+  // Daily contact fan-out
+  let peakDay: { day: number; contacts: Set<string>; deviation: Deviation } | null = null;
+  for (const [day, contacts] of activity.dailyContacts) {
+    const deviation = deviationFrom(contacts.size, baseline.dailyContacts);
+    if (deviation.score >= config.threshold && (!peakDay || deviation.score > peakDay.deviation.score)) peakDay = { day, contacts, deviation };
+  }
+  if (peakDay) {
+    const { day, contacts, deviation } = peakDay;
+    const unseen = Array.from(contacts).filter(contact => !baseline.contacts.has(contact)).length;
+    flag('contacts', deviation.score,
+      `${contacts.size} distinct contacts (${unseen} never seen in training) on day ${day + 1} vs ${formatStats(baseline.dailyContacts, value => String(Math.round(value * 10) / 10), 'active days', deviation)}`);
+  }
+
+  // Protocols never used in training
+  const newProtocols = Object.entries(activity.protocols).filter(([protocol]) => !baseline.protocols[protocol]);
+  const newSessions = newProtocols.reduce((sum, [, sessions]) => sum + sessions, 0);
+  if (newSessions > 0) {
+    const share = newSessions / activity.records;
+    // Novel behaviour has no distribution to deviate from; it scores past the threshold by the share of sessions involved
+    const deviation = config.threshold + share * 10;
+    const usual = Object.entries(baseline.protocols)
+      .sort(([, a], [, b]) => b - a)
+      .map(([protocol, sessions]) => `${protocol} ${Math.round((sessions / baseline.trainingRecords) * 100)}%`)
+      .join(', ');
+    flag('protocols', deviation,
+      `New protocol(s) ${newProtocols.map(([protocol, sessions]) => `${protocol} (${sessions} sessions)`).join(', ')}; baseline over ${baseline.trainingRecords} sessions: ${usual}`);
+  }
+
+  // Activity in hours of the day never active in training
+  const offHours = activity.activeHours
+    .map((sessions, hour) => ({ hour, sessions }))
+    .filter(({ hour, sessions }) => sessions > 0 && baseline.activeHours[hour] === 0);
+  const offHourSessions = offHours.reduce((sum, { sessions }) => sum + sessions, 0);
+  if (offHourSessions >= MIN_OFF_HOURS_SESSIONS) {
+    const usualHours = baseline.activeHours.map((sessions, hour) => sessions > 0 ? formatHour(hour) : null).filter(Boolean);
+    const deviation = config.threshold + (offHourSessions / activity.records) * 10;
+    flag('hours', deviation,
+      `${offHourSessions} sessions at ${offHours.map(({ hour }) => formatHour(hour)).join(', ')}, hours never active in training; baseline active hours ${usualHours.join(', ')} (${config.timezone})`);
+  }
+
+  return anomalies;
+}
+
+// Learns each entity's baseline from its own training window and flags later activity that deviates from it
+export async function detectBaselineDeviations(
+  records: IPDRRecord[],
+  config: Partial<BaselineConfig> = {},
+  onProgress?: (progress: AnomalyDetectionProgress) => void,
+  signal?: AbortSignal
+): Promise<Anomaly[]> {
+  const settings = { ...DEFAULT_BASELINE_CONFIG, ...config };
+  const anomalies: Anomaly[] = [];
+  const caseId = records[0]?.caseId || 'unknown';
+  if (records.length === 0) return anomalies;
+
+  const baselines = await buildBaselines(records, settings, onProgress, signal);
+  const scored = new Map<string, Activity>();
+
+  // Accumulate each entity's activity after its training window
+  await scanRecords(records, 'behavior_baseline', record => {
+    const entity = entityOf(record);
+    const baseline = baselines.get(entity)!;
+    if (record.startTimestamp.getTime() < baseline.trainingEnd) return;
+    if (!scored.has(entity)) scored.set(entity, emptyActivity());
+    addActivity(scored.get(entity)!, record, baseline.trainingStart, settings.timezone);
+  }, onProgress, signal);
+
+  // Entities with too few active training hours have no reliable baseline
+  scored.forEach((activity, entity) => {
+    const baseline = baselines.get(entity)!;
+    if (baseline.hourlyBytes.samples < settings.minTrainingHours) return;
+    anomalies.push(...scoreEntity(baseline, activity, settings, caseId));
+  });
+
+  return anomalies;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { CellTowerDatabase, buildTowerLocationHistory, parseCellSiteCSV, resolveTowerLocations } from './cell-towers';
+import { IPDRRecord } from './types';
+
+const REGISTRY = [
+  'CGI,Latitude,Longitude,Azimuth,Site Address',
+  '404-45-1234-00101,12.97160,77.59460,120,"MG Road, Bengaluru"',
+  '404-45-1234-102,12.93520,77.62450,240,Koramangala',
+  '404-45-2001-101,13.02490,77.59520,0,Hebbal',
+  'not-a-cgi,0,0,0,Broken'
+].join('\n');
+
+function record(id: string, start: string, cell: Partial<IPDRRecord>): IPDRRecord {
+  return {
+    id,
+    caseId: 'caseT',
+    aParty: '10.0.0.1',
+    bParty: '142.250.183.14',
+    protocol: 'TCP',
+    startTimestamp: new Date(start),
+    endTimestamp: new Date(new Date(start).getTime() + 60000),
+    duration: 60,
+    bytesTransferred: 100,
+    sourceFileId: 'fileT',
+    rawRowHash: id,
+    operator: 'airtel',
+    subscriberID: '919800000001',
+    ...cell
+  };
+}
+
+describe('cell tower registry', () => {
+  it('parses CGI or LAC and Cell ID registries', () => {
+    const registry = parseCellSiteCSV(REGISTRY, 'sites.csv', 'caseT');
+    expect(registry.sites).toHaveLength(3);
+    expect(registry.sites[0]).toEqual({
+      cgi: '404-45-1234-101',
+      lac: '1234',
+      cellID: '101',
+      latitude: 12.9716,
+      longitude: 77.5946,
+      azimuth: 120,
+      address: 'MG Road, Bengaluru'
+    });
+
+    const split = parseCellSiteCSV('LAC,CI,Lat,Long\n0x04D2,101,12.9716,77.5946', 'split.csv', 'caseT');
+    expect(split.sites[0]).toMatchObject({ cgi: '1234-101', lac: '1234', cellID: '101' });
+
+    expect(() => parseCellSiteCSV('Cell,Address\n101,x', 'bad.csv', 'caseT')).toThrow('no CGI column or LAC and Cell ID columns');
+    expect(() => parseCellSiteCSV('CGI,Address\n404-45-1-2,x', 'bad.csv', 'caseT')).toThrow('no latitude and longitude columns');
+  });
+
+  it('resolves records by CGI, LAC and Cell ID, or an unambiguous Cell ID', () => {
+    const database = new CellTowerDatabase([parseCellSiteCSV(REGISTRY, 'sites.csv', 'caseT')]);
+
+    expect(database.lookup('404-45-1234-101')?.address).toBe('MG Road, Bengaluru');
+    expect(database.lookup('101', '01234')?.address).toBe('MG Road, Bengaluru');
+    expect(database.lookup('102')?.address).toBe('Koramangala');
+    // Cell 101 exists under two LACs
+    expect(database.lookup('101')).toBeNull();
+    expect(database.lookup('999', '1234')).toBeNull();
+
+    const records = [record('r1', '2025-08-20T10:00:00Z', { cellID: '404-45-1234-101' }), record('r2', '2025-08-20T10:05:00Z', {})];
+    const resolved = resolveTowerLocations(records, database);
+    expect(resolved[0].aPartyLocation).toMatchObject({ cgi: '404-45-1234-101', latitude: 12.9716, azimuth: 120 });
+    expect(resolved[1]).toBe(records[1]);
+  });
+
+  it('builds tower-level location history per subscriber', () => {
+    const database = new CellTowerDatabase([parseCellSiteCSV(REGISTRY, 'sites.csv', 'caseT')]);
+    const records = resolveTowerLocations([
+      record('r3', '2025-08-20T11:00:00Z', { cellID: '101', lac: '2001' }),
+      record('r1', '2025-08-20T10:00:00Z', { cellID: '101', lac: '1234' }),
+      record('r2', '2025-08-20T10:30:00Z', { cellID: '101', lac: '1234' }),
+      record('r4', '2025-08-20T12:00:00Z', { cellID: '102', lac: '1234' }),
+      record('r5', '2025-08-20T12:00:00Z', {})
+    ], database);
+
+    const history = buildTowerLocationHistory(records);
+    expect(history).toHaveLength(1);
+    expect(history[0].subscriber).toBe('919800000001');
+    expect(history[0].visits.map(visit => [visit.address, visit.sessions])).toEqual([
+      ['MG Road, Bengaluru', 2],
+      ['Hebbal', 1],
+      ['Koramangala', 1]
+    ]);
+    expect(history[0].visits[0].lastSeen).toEqual(new Date('2025-08-20T10:31:00Z'));
+  });
+});
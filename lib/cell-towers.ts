@@ -0,0 +1,309 @@
+// Cell tower (CGI / LAC + Cell ID) to location resolution
+// Analysts import the operator's cell-site registry for a case (CGI or MCC/MNC/LAC/Cell ID,
+// latitude and longitude, sector azimuth, site address). Records that carry a serving
+// cell are resolved against it into aPartyLocation, which gives tower-level location
+// history for each subscriber.
+
+import { Geolocation, IPDRRecord } from './types';
+import { tokenizeCSV } from './csv-tokenizer';
+import { normalizeHeaderKey } from './parser-profiles';
+import { DatabaseSchema, deleteValue, getAllValues, putValue } from './indexed-db';
+
+export interface CellSite {
+  cgi: string; // MCC-MNC-LAC-CellID, or LAC-CellID when the registry has no MCC and MNC
+  lac: string;
+  cellID: string;
+  latitude: number;
+  longitude: number;
+  azimuth?: number; // Sector bearing in degrees from north
+  address?: string;
+}
+
+// One imported registry file; registries belong to a case
+export interface CellSiteRegistry {
+  id: string;
+  caseId: string;
+  name: string;
+  importedAt: Date;
+  sites: CellSite[];
+}
+
+type CellSiteColumn = 'cgi' | 'mcc' | 'mnc' | 'lac' | 'cellID' | 'latitude' | 'longitude' | 'azimuth' | 'address';
+
+const COLUMN_ALIASES: Record<CellSiteColumn, string[]> = {
+  cgi: ['cgi', 'ecgi', 'cellglobalidentity', 'globalcellid'],
+  mcc: ['mcc', 'mobilecountrycode'],
+  mnc: ['mnc', 'mobilenetworkcode'],
+  lac: ['lac', 'locationareacode', 'tac', 'trackingareacode'],
+  cellID: ['cellid', 'ci', 'cell', 'cellidentity', 'eci'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng', 'long'],
+  azimuth: ['azimuth', 'azimuthdeg', 'bearing', 'sectorazimuth'],
+  address: ['address', 'siteaddress', 'location', 'sitename', 'site']
+};
+
+// Cell identifiers are compared as decimal numbers; operators pad them with zeros or give them in hex
+function normalizeCellPart(value: string | undefined): string | null {
+  const text = value?.trim();
+  if (!text) return null;
+  if (/^0x[0-9a-f]+$/i.test(text)) return String(parseInt(text.slice(2), 16));
+  if (/^\d+$/.test(text)) return String(Number(text));
+  return null;
+}
+
+// MCC-MNC-LAC-CellID with any common separator
+export function parseCGI(cgi: string): { mcc: string; mnc: string; lac: string; cellID: string } | null {
+  const parts = cgi.trim().split(/[-:/._\s]+/);
+  if (parts.length !== 4) return null;
+  const [mcc, mnc, lac, cellID] = parts.map(normalizeCellPart);
+  if (mcc === null || mnc === null || lac === null || cellID === null) return null;
+  return { mcc, mnc, lac, cellID };
+}
+
+function cellKey(lac: string, cellID: string): string {
+  return `${lac}/${cellID}`;
+}
+
+function optionalText(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  return text && text !== '-' ? text : undefined;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  const text = optionalText(value);
+  if (!text) return undefined;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// Parse a cell-site registry CSV; rows without a cell identity or coordinates are skipped
+export function parseCellSiteCSV(text: string, name: string, caseId: string): CellSiteRegistry {
+  const [headerRow, ...rows] = tokenizeCSV(text.replace(/^\uFEFF/, ''));
+  if (!headerRow) throw new Error(`${name} is empty`);
+
+  const headerKeys = headerRow.map(normalizeHeaderKey);
+  const columns: Partial<Record<CellSiteColumn, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as CellSiteColumn[]).forEach(column => {
+    for (const alias of COLUMN_ALIASES[column]) {
+      const index = headerKeys.indexOf(alias);
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+        break;
+      }
+    }
+  });
+  if (columns.cgi === undefined && (columns.lac === undefined || columns.cellID === undefined)) {
+    throw new Error(`${name} has no CGI column or LAC and Cell ID columns`);
+  }
+  if (columns.latitude === undefined || columns.longitude === undefined) {
+    throw new Error(`${name} has no latitude and longitude columns`);
+  }
+
+  const cell = (row: string[], column: CellSiteColumn) =>
+    columns[column] === undefined ? undefined : row[columns[column] as number];
+
+  const sites: CellSite[] = [];
+  for (const row of rows) {
+    const parsed = parseCGI(cell(row, 'cgi') || '');
+    const lac = parsed?.lac ?? normalizeCellPart(cell(row, 'lac'));
+    const cellID = parsed?.cellID ?? normalizeCellPart(cell(row, 'cellID'));
+    const latitude = optionalNumber(cell(row, 'latitude'));
+    const longitude = optionalNumber(cell(row, 'longitude'));
+    if (lac === null || cellID === null || latitude === undefined || longitude === undefined) continue;
+
+    const mcc = parsed?.mcc ?? normalizeCellPart(cell(row, 'mcc'));
+    const mnc = parsed?.mnc ?? normalizeCellPart(cell(row, 'mnc'));
+    sites.push({
+      cgi: (mcc !== null && mnc !== null ? [mcc, mnc, lac, cellID] : [lac, cellID]).join('-'),
+      lac,
+      cellID,
+      latitude,
+      longitude,
+      azimuth: optionalNumber(cell(row, 'azimuth')),
+      address: optionalText(cell(row, 'address'))
+    });
+  }
+  if (sites.length === 0) throw new Error(`${name} has no cell sites with coordinates`);
+
+  return {
+    id: `cellsites_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    caseId,
+    name,
+    importedAt: new Date(),
+    sites
+  };
+}
+
+export class CellTowerDatabase {
+  private registriesById = new Map<string, CellSiteRegistry>();
+  private byCell = new Map<string, CellSite>();
+  // Cell IDs that appear under a single LAC, for records that carry no LAC
+  private byCellIDOnly = new Map<string, CellSite | null>();
+
+  constructor(registries: CellSiteRegistry[] = []) {
+    registries.forEach(registry => this.registriesById.set(registry.id, registry));
+    this.rebuild();
+  }
+
+  get registries(): CellSiteRegistry[] {
+    return Array.from(this.registriesById.values());
+  }
+
+  get isEmpty(): boolean {
+    return this.byCell.size === 0;
+  }
+
+  addRegistry(registry: CellSiteRegistry) {
+    this.registriesById.set(registry.id, registry);
+    this.rebuild();
+  }
+
+  removeRegistry(id: string) {
+    this.registriesById.delete(id);
+    this.rebuild();
+  }
+
+  // Where registries list the same cell the earlier import wins
+  private rebuild() {
+    this.byCell.clear();
+    this.byCellIDOnly.clear();
+    for (const registry of this.registriesById.values()) {
+      for (const site of registry.sites) {
+        const key = cellKey(site.lac, site.cellID);
+        if (this.byCell.has(key)) continue;
+        this.byCell.set(key, site);
+        this.byCellIDOnly.set(site.cellID, this.byCellIDOnly.has(site.cellID) ? null : site);
+      }
+    }
+  }
+
+  // The serving site for a record's cell; cellID may itself be a full CGI
+  lookup(cellID: string | undefined, lac?: string): CellSite | null {
+    if (!cellID) return null;
+    const parsed = parseCGI(cellID);
+    if (parsed) return this.byCell.get(cellKey(parsed.lac, parsed.cellID)) ?? null;
+
+    const cell = normalizeCellPart(cellID);
+    if (cell === null) return null;
+    const area = normalizeCellPart(lac);
+    if (area !== null) return this.byCell.get(cellKey(area, cell)) ?? null;
+    return this.byCellIDOnly.get(cell) ?? null;
+  }
+}
+
+export function cellSiteToGeolocation(site: CellSite): Geolocation {
+  return {
+    country: '',
+    region: '',
+    city: '',
+    latitude: site.latitude,
+    longitude: site.longitude,
+    timezone: '',
+    isp: '',
+    cgi: site.cgi,
+    azimuth: site.azimuth,
+    address: site.address
+  };
+}
+
+// Attach the serving tower's location; records whose cell does not resolve are returned as they are
+export function resolveTowerLocations(records: IPDRRecord[], database: CellTowerDatabase): IPDRRecord[] {
+  if (database.isEmpty) return records;
+  return records.map(record => {
+    const site = database.lookup(record.cellID, record.lac);
+    return site ? { ...record, aPartyLocation: cellSiteToGeolocation(site) } : record;
+  });
+}
+
+// A stay at one tower: consecutive sessions of a subscriber served by the same cell
+export interface TowerVisit {
+  cgi: string;
+  latitude?: number;
+  longitude?: number;
+  azimuth?: number;
+  address?: string;
+  firstSeen: Date;
+  lastSeen: Date;
+  sessions: number;
+}
+
+export interface SubscriberLocationHistory {
+  subscriber: string; // Subscriber ID when the operator supplies one, otherwise the source IP
+  visits: TowerVisit[];
+}
+
+// Tower-level movement of each subscriber, from records with a resolved tower location
+export function buildTowerLocationHistory(records: IPDRRecord[]): SubscriberLocationHistory[] {
+  const bySubscriber = new Map<string, IPDRRecord[]>();
+  records.forEach(record => {
+    if (!record.aPartyLocation?.cgi) return;
+    const subscriber = record.subscriberID || record.aParty;
+    const list = bySubscriber.get(subscriber);
+    if (list) list.push(record);
+    else bySubscriber.set(subscriber, [record]);
+  });
+
+  return Array.from(bySubscriber, ([subscriber, list]) => {
+    const visits: TowerVisit[] = [];
+    [...list]
+      .sort((a, b) => a.startTimestamp.getTime() - b.startTimestamp.getTime())
+      .forEach(record => {
+        const location = record.aPartyLocation as Geolocation;
+        const last = visits[visits.length - 1];
+        if (last && last.cgi === location.cgi) {
+          if (record.endTimestamp > last.lastSeen) last.lastSeen = record.endTimestamp;
+          last.sessions++;
+          return;
+        }
+        visits.push({
+          cgi: location.cgi as string,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          azimuth: location.azimuth,
+          address: location.address,
+          firstSeen: record.startTimestamp,
+          lastSeen: record.endTimestamp,
+          sessions: 1
+        });
+      });
+    return { subscriber, visits };
+  }).sort((a, b) => a.subscriber.localeCompare(b.subscriber));
+}
+
+// Imported registries are kept in IndexedDB so they survive a reload
+const CELL_SITE_REGISTRIES = 'cellSiteRegistries';
+
+const CELL_SITE_DB: DatabaseSchema = {
+  name: 'ipdr-intel-cell-sites',
+  version: 1,
+  upgrade: (db) => {
+    db.createObjectStore(CELL_SITE_REGISTRIES, { keyPath: 'id' }).createIndex('caseId', 'caseId');
+  }
+};
+
+const caseDatabases = new Map<string, Promise<CellTowerDatabase>>();
+
+// The case's imported registries; empty where IndexedDB is unavailable (server rendering, tests)
+export function loadCellTowers(caseId: string): Promise<CellTowerDatabase> {
+  let database = caseDatabases.get(caseId);
+  if (!database) {
+    database = typeof indexedDB === 'undefined'
+      ? Promise.resolve(new CellTowerDatabase())
+      : getAllValues<CellSiteRegistry>(CELL_SITE_DB, CELL_SITE_REGISTRIES, { name: 'caseId', key: caseId })
+          .then(registries => new CellTowerDatabase(registries.sort((a, b) => a.importedAt.getTime() - b.importedAt.getTime())));
+    caseDatabases.set(caseId, database);
+  }
+  return database;
+}
+
+export async function importCellSiteRegistry(registry: CellSiteRegistry): Promise<void> {
+  const database = await loadCellTowers(registry.caseId);
+  if (typeof indexedDB !== 'undefined') await putValue(CELL_SITE_DB, CELL_SITE_REGISTRIES, registry);
+  database.addRegistry(registry);
+}
+
+export async function removeCellSiteRegistry(caseId: string, id: string): Promise<void> {
+  const database = await loadCellTowers(caseId);
+  if (typeof indexedDB !== 'undefined') await deleteValue(CELL_SITE_DB, CELL_SITE_REGISTRIES, id);
+  database.removeRegistry(id);
+}
@@ -0,0 +1,68 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { resolvePublicIP } from './cgnat-resolver';
+import { RecordRepository } from './record-repository';
+import { normalizeAirtelRows, parseDelimited } from './processing';
+
+// Jio NAT translation rows: three subscribers share 49.36.12.7 around 10:00 UTC
+const JIO_NAT_CSV = [
+  'Mobile_Number,Private_IP,Private_Port,Public_IP,Public_Port,Server_IP,Server_Port,IP_Protocol,Session_Start_Time,Session_End_Time',
+  '919800000001,100.64.1.10,40001,49.36.12.7,1024,157.240.1.35,443,TCP,2025-08-20 15:29:00,2025-08-20 15:31:00',
+  '919800000002,100.64.1.20,40002,49.36.12.7,2048,157.240.1.35,443,TCP,2025-08-20 15:29:30,2025-08-20 15:30:20',
+  '919800000003,100.64.1.30,40003,49.36.12.7,1024,157.240.1.35,443,TCP,2025-08-20 15:30:45,2025-08-20 15:35:00',
+  '919800000004,100.64.1.40,40004,49.36.12.7,1024-1535,157.240.1.35,443,TCP,2025-08-20 15:29:00,2025-08-20 15:31:00',
+  '919800000005,100.64.1.50,40005,49.36.99.9,1024,157.240.1.35,443,TCP,2025-08-20 15:29:00,2025-08-20 15:31:00'
+].join('\n');
+
+const T = new Date('2025-08-20T10:00:30Z'); // 15:30:30 IST
+
+async function natRecords() {
+  return normalizeAirtelRows(parseDelimited(JIO_NAT_CSV), 'caseN', 'fileN', 'jio');
+}
+
+describe('CGNAT resolver', () => {
+  it('keeps the NAT translation on records', async () => {
+    const [record] = await natRecords();
+    expect(record).toMatchObject({ aParty: '100.64.1.10', publicIP: '49.36.12.7', publicPort: '1024' });
+  });
+
+  it('ranks subscribers on the public IP and port by confidence', async () => {
+    const candidates = resolvePublicIP(await natRecords(), { publicIP: '49.36.12.7', publicPort: '1024', timestamp: T });
+
+    expect(candidates.map(c => [c.subscriber, c.confidence])).toEqual([
+      ['919800000001', 1],
+      ['919800000004', 0.8],
+      ['919800000003', 0.754]
+    ]);
+    expect(candidates[0].privateIPs).toEqual(['100.64.1.10']);
+    expect(candidates[0].matches[0]).toMatchObject({ portMatch: 'exact', offsetSeconds: 0 });
+    expect(candidates[2].matches[0].offsetSeconds).toBe(15);
+  });
+
+  it('honours the clock skew and lookups without a port', async () => {
+    const records = await natRecords();
+    const strict = resolvePublicIP(records, { publicIP: '49.36.12.7', publicPort: '1024', timestamp: T, clockSkewSeconds: 0 });
+    expect(strict.map(c => c.subscriber)).toEqual(['919800000001', '919800000004']);
+
+    const anyPort = resolvePublicIP(records, { publicIP: '49.36.12.7', timestamp: T, clockSkewSeconds: 15 });
+    expect(anyPort.map(c => [c.subscriber, c.confidence])).toEqual([
+      ['919800000001', 0.5],
+      ['919800000004', 0.5],
+      ['919800000002', 0.188],
+      ['919800000003', 0.031]
+    ]);
+
+    expect(() => resolvePublicIP(records, { publicIP: '49.36.12.7', publicPort: 'http', timestamp: T })).toThrow('Invalid public port http');
+  });
+
+  it('finds NAT sessions through the repository public IP index', async () => {
+    const repository = new RecordRepository();
+    await repository.putRecords(await natRecords());
+    const { records } = await repository.queryRecords('caseN', {
+      ranges: [{ index: 'publicIP', lower: '49.36.12.7', upper: '49.36.12.7' }]
+    });
+
+    expect(records).toHaveLength(4);
+    expect(resolvePublicIP(records, { publicIP: '49.36.12.7', publicPort: '2048', timestamp: T })[0].subscriber).toBe('919800000002');
+  });
+});
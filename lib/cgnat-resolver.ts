@@ -0,0 +1,143 @@
+// Carrier-grade NAT resolution: "who had this public IP:port at time T"
+// Requests from app providers name a public IP, port and timestamp. Behind CGNAT many
+// subscribers share that IP, so the subscriber is found from the NAT translation data in
+// the case's IPDR: sessions that left on that public IP and port while T fell inside the
+// session, allowing for clock skew between the provider's and the operator's clocks.
+
+import { IPDRRecord } from './types';
+import { canonicalizeIP } from './ip-address';
+
+// Provider and operator clocks rarely agree to the second
+export const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+export interface CGNATQuery {
+  publicIP: string;
+  publicPort?: string; // Without a port every subscriber on the IP at T is a candidate
+  timestamp: Date;
+  clockSkewSeconds?: number;
+}
+
+// How the record's public port relates to the queried one
+export type CGNATPortMatch = 'exact' | 'range' | 'unknown';
+
+export interface CGNATMatch {
+  record: IPDRRecord;
+  confidence: number; // 0-1
+  portMatch: CGNATPortMatch;
+  offsetSeconds: number; // How far T falls outside the session; 0 when inside
+}
+
+export interface CGNATCandidate {
+  subscriber: string; // Subscriber ID, else IMSI, else the private IP
+  subscriberID?: string;
+  imsi?: string;
+  privateIPs: string[];
+  confidence: number; // Best supporting match
+  matches: CGNATMatch[]; // Supporting records, best first
+}
+
+const PORT_SCORES: Record<CGNATPortMatch, number> = {
+  exact: 1,
+  range: 0.8, // Port block allocation (e.g. 1024-2047): the subscriber held the block, not necessarily the port
+  unknown: 0.5
+};
+
+function parsePort(value: string | undefined): number | null {
+  return value && /^\d+$/.test(value.trim()) ? Number(value) : null;
+}
+
+// A record's public port against the queried port; null when they rule each other out
+function matchPort(recordPort: string | undefined, queryPort: number | null): CGNATPortMatch | null {
+  if (queryPort === null || !recordPort) return 'unknown';
+  const block = recordPort.match(/^\s*(\d+)\s*-\s*(\d+)\s*$/);
+  if (block) return queryPort >= Number(block[1]) && queryPort <= Number(block[2]) ? 'range' : null;
+  const port = parsePort(recordPort);
+  if (port === null) return 'unknown';
+  return port === queryPort ? 'exact' : null;
+}
+
+function subscriberKey(record: IPDRRecord): string {
+  return record.subscriberID || record.imsi || record.aParty;
+}
+
+// Records indexed by public IP and start time, for repeated lookups over the same case
+export class CGNATIndex {
+  private byPublicIP = new Map<string, { records: IPDRRecord[]; longest: number }>();
+
+  constructor(records: IPDRRecord[]) {
+    records.forEach(record => {
+      if (!record.publicIP || record.duplicateOf) return;
+      const key = canonicalizeIP(record.publicIP);
+      const entry = this.byPublicIP.get(key);
+      if (entry) entry.records.push(record);
+      else this.byPublicIP.set(key, { records: [record], longest: 0 });
+    });
+    this.byPublicIP.forEach(entry => {
+      entry.records.sort((a, b) => a.startTimestamp.getTime() - b.startTimestamp.getTime());
+      entry.longest = entry.records.reduce((longest, r) => Math.max(longest, r.endTimestamp.getTime() - r.startTimestamp.getTime()), 0);
+    });
+  }
+
+  // Sessions on the public IP whose window, widened by the skew, contains T
+  private sessionsAround(publicIP: string, time: number, skewMs: number): IPDRRecord[] {
+    const entry = this.byPublicIP.get(canonicalizeIP(publicIP));
+    if (!entry) return [];
+
+    // First session that could still be open at T - skew
+    const earliestStart = time - skewMs - entry.longest;
+    let low = 0;
+    let high = entry.records.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (entry.records[mid].startTimestamp.getTime() < earliestStart) low = mid + 1;
+      else high = mid;
+    }
+
+    const sessions: IPDRRecord[] = [];
+    for (let i = low; i < entry.records.length; i++) {
+      const record = entry.records[i];
+      if (record.startTimestamp.getTime() - skewMs > time) break;
+      if (record.endTimestamp.getTime() + skewMs >= time) sessions.push(record);
+    }
+    return sessions;
+  }
+
+  resolve(query: CGNATQuery): CGNATCandidate[] {
+    const time = query.timestamp.getTime();
+    if (Number.isNaN(time)) throw new Error('CGNAT lookup needs a valid timestamp');
+    const skewSeconds = Math.max(0, query.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS);
+    const queryPort = parsePort(query.publicPort);
+    if (query.publicPort?.trim() && queryPort === null) throw new Error(`Invalid public port ${query.publicPort}`);
+
+    const candidates = new Map<string, CGNATCandidate>();
+    for (const record of this.sessionsAround(query.publicIP, time, skewSeconds * 1000)) {
+      const portMatch = matchPort(record.publicPort, queryPort);
+      if (!portMatch) continue;
+
+      const start = record.startTimestamp.getTime();
+      const end = record.endTimestamp.getTime();
+      const offsetSeconds = time < start ? (start - time) / 1000 : time > end ? (time - end) / 1000 : 0;
+      // Inside the session counts fully; inside the skew allowance falls off towards its edge
+      const timeScore = offsetSeconds === 0 ? 1 : 1 - offsetSeconds / (skewSeconds + 1);
+      const confidence = Math.round(PORT_SCORES[portMatch] * timeScore * 1000) / 1000;
+
+      const key = subscriberKey(record);
+      let candidate = candidates.get(key);
+      if (!candidate) {
+        candidate = { subscriber: key, subscriberID: record.subscriberID, imsi: record.imsi, privateIPs: [], confidence: 0, matches: [] };
+        candidates.set(key, candidate);
+      }
+      if (!candidate.privateIPs.includes(record.aParty)) candidate.privateIPs.push(record.aParty);
+      candidate.matches.push({ record, confidence, portMatch, offsetSeconds });
+      candidate.confidence = Math.max(candidate.confidence, confidence);
+    }
+
+    return Array.from(candidates.values())
+      .map(candidate => ({ ...candidate, matches: candidate.matches.sort((a, b) => b.confidence - a.confidence) }))
+      .sort((a, b) => b.confidence - a.confidence || b.matches.length - a.matches.length);
+  }
+}
+
+export function resolvePublicIP(records: IPDRRecord[], query: CGNATQuery): CGNATCandidate[] {
+  return new CGNATIndex(records).resolve(query);
+}
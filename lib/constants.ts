@@ -28,12 +28,15 @@ export const SUPPORTED_FILE_TYPES = [
   '.csv',
   '.tsv',
   '.json',
+  '.ndjson',
+  '.jsonl',
   '.xlsx',
   '.xls',
   '.txt',
   '.dat',
   '.xml',
-  '.zip'
+  '.zip',
+  '.gz'
 ];
 
 export const MAX_FILE_SIZE_MB = 100;
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { CSVTokenizer, DelimitedRowParser, detectDelimiter, tokenizeCSV } from './csv-tokenizer';
+import { parseDelimited } from './processing';
+
+const QUOTED_CSV = '\uFEFFSourceIP,APN,URL,Bytes\r\n' +
+  '10.0.0.1,"airtelgprs.com, postpaid","https://example.com/a?b=1,2",512\r\n' +
+  '10.0.0.2,"multi\r\nline ""quoted"" apn",,1024\r\n';
+
+describe('csv tokenizer', () => {
+  it('handles quotes, escaped quotes, embedded delimiters and multi-line cells', () => {
+    expect(tokenizeCSV(QUOTED_CSV)).toEqual([
+      ['SourceIP', 'APN', 'URL', 'Bytes'],
+      ['10.0.0.1', 'airtelgprs.com, postpaid', 'https://example.com/a?b=1,2', '512'],
+      ['10.0.0.2', 'multi\r\nline "quoted" apn', '', '1024']
+    ]);
+  });
+
+  it('produces the same records however the text is chunked', () => {
+    const expected = tokenizeCSV(QUOTED_CSV);
+    for (let split = 1; split < QUOTED_CSV.length; split++) {
+      const tokenizer = new CSVTokenizer();
+      const records = [
+        ...tokenizer.push(QUOTED_CSV.slice(0, split)),
+        ...tokenizer.push(QUOTED_CSV.slice(split)),
+        ...tokenizer.end()
+      ];
+      expect(records).toEqual(expected);
+    }
+  });
+
+  it('detects semicolon and pipe delimiters outside quotes', () => {
+    expect(detectDelimiter('a;b;c')).toBe(';');
+    expect(detectDelimiter('a|b|c')).toBe('|');
+    expect(detectDelimiter('"x,y,z";b;c')).toBe(';');
+    expect(tokenizeCSV('a|b\n"1|2"|3')).toEqual([['a', 'b'], ['1|2', '3']]);
+  });
+
+  it('keys rows by header and skips blank lines', () => {
+    const parser = new DelimitedRowParser();
+    const rows = [...parser.push('A;B\n\n1;2\n3'), ...parser.end()];
+    expect(parser.delimiter).toBe(';');
+    expect(rows).toEqual([{ A: '1', B: '2' }, { A: '3', B: '' }]);
+    expect(parseDelimited(QUOTED_CSV)[1].APN).toBe('multi\r\nline "quoted" apn');
+  });
+});
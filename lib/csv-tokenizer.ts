@@ -0,0 +1,273 @@
+// Streaming RFC-4180 tokenizer for delimited IPDR exports
+// Handles quoted fields, escaped quotes, multi-line cells, CRLF/CR/LF line endings,
+// a leading BOM and comma, tab, semicolon or pipe delimiters. Text can be pushed in
+// arbitrary chunks (e.g. straight from a TextDecoder) and only complete records are
+// returned, so the small-file and streaming paths tokenize identically.
+
+export type CSVDelimiter = ',' | '\t' | ';' | '|';
+
+// Candidate delimiters in tie-break order (comma wins ties)
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', '\t', ';', '|'];
+
+export const CSV_DELIMITER_LABELS: Record<CSVDelimiter, string> = {
+  ',': 'comma',
+  '\t': 'tab',
+  ';': 'semicolon',
+  '|': 'pipe'
+};
+
+// Detect the delimiter from a header line, ignoring characters inside quotes
+export function detectDelimiter(headerLine: string): CSVDelimiter {
+  const counts = new Map<string, number>();
+  let inQuotes = false;
+  for (const ch of headerLine) {
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes) {
+      counts.set(ch, (counts.get(ch) || 0) + 1);
+    }
+  }
+
+  let best: CSVDelimiter = ',';
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = counts.get(delimiter) || 0;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Everything a tokenizer carries between chunks, for parse checkpoints
+export interface CSVTokenizerState {
+  delimiter?: CSVDelimiter;
+  pending: string;
+  started: boolean;
+  field: string;
+  record: string[];
+  inQuotes: boolean;
+  quoteSeen: boolean;
+  skipLF: boolean;
+}
+
+export class CSVTokenizer {
+  private delimiter?: CSVDelimiter;
+  private pending = ''; // Text held back until the delimiter is known
+  private started = false;
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quoteSeen = false; // Quote inside a quoted field, waiting to see if it is escaped
+  private skipLF = false; // Previous chunk ended on CR, so a leading LF belongs to it
+
+  // When no delimiter is given it is detected from the first line
+  constructor(delimiter?: CSVDelimiter) {
+    this.delimiter = delimiter;
+  }
+
+  getDelimiter(): CSVDelimiter | undefined {
+    return this.delimiter;
+  }
+
+  // Feed the next piece of text; returns the records completed by it
+  push(text: string): string[][] {
+    if (!this.started && text.length > 0) {
+      text = text.replace(/^\uFEFF/, '');
+      this.started = true;
+    }
+
+    if (!this.delimiter) {
+      this.pending += text;
+      const lineEnd = this.pending.search(/[\r\n]/);
+      if (lineEnd === -1) return [];
+      this.delimiter = detectDelimiter(this.pending.slice(0, lineEnd));
+      text = this.pending;
+      this.pending = '';
+    }
+
+    return this.scan(text);
+  }
+
+  saveState(): CSVTokenizerState {
+    return {
+      delimiter: this.delimiter,
+      pending: this.pending,
+      started: this.started,
+      field: this.field,
+      record: [...this.record],
+      inQuotes: this.inQuotes,
+      quoteSeen: this.quoteSeen,
+      skipLF: this.skipLF
+    };
+  }
+
+  restoreState(state: CSVTokenizerState) {
+    Object.assign(this, { ...state, record: [...state.record] });
+  }
+
+  // Flush the final record once the input is exhausted
+  end(): string[][] {
+    const records: string[][] = [];
+
+    if (!this.delimiter) {
+      this.delimiter = detectDelimiter(this.pending);
+      records.push(...this.scan(this.pending));
+      this.pending = '';
+    }
+
+    // A quote right before EOF closes the field
+    this.quoteSeen = false;
+    this.inQuotes = false;
+    if (this.field.length > 0 || this.record.length > 0) {
+      this.record.push(this.field);
+      this.emit(records);
+    }
+    this.field = '';
+    this.skipLF = false;
+    return records;
+  }
+
+  private scan(text: string): string[][] {
+    const records: string[][] = [];
+    const delimiter = this.delimiter;
+    const n = text.length;
+    let i = 0;
+
+    if (this.skipLF && n > 0) {
+      if (text[0] === '\n') i = 1;
+      this.skipLF = false;
+    }
+    let start = i; // Start of the unconsumed slice of the current field
+
+    while (i < n) {
+      if (this.quoteSeen) {
+        this.quoteSeen = false;
+        if (text[i] === '"') {
+          // Escaped quote ("") inside a quoted field
+          this.field += '"';
+          start = ++i;
+          continue;
+        }
+        // The quote closed the field; anything up to the delimiter is kept as-is
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        const quote = text.indexOf('"', i);
+        if (quote === -1) {
+          this.field += text.slice(i);
+          start = i = n;
+          break;
+        }
+        this.field += text.slice(i, quote);
+        this.quoteSeen = true;
+        start = i = quote + 1;
+        continue;
+      }
+
+      const ch = text[i];
+      if (ch === '"') {
+        // Quotes only open a field at its start (leading whitespace is tolerated)
+        if ((this.field + text.slice(start, i)).trim() === '') {
+          this.field = '';
+          this.inQuotes = true;
+          start = ++i;
+          continue;
+        }
+      } else if (ch === delimiter) {
+        this.record.push(this.field + text.slice(start, i));
+        this.field = '';
+        start = ++i;
+        continue;
+      } else if (ch === '\n' || ch === '\r') {
+        this.record.push(this.field + text.slice(start, i));
+        this.field = '';
+        this.emit(records);
+        if (ch === '\r') {
+          if (i + 1 < n) {
+            if (text[i + 1] === '\n') i++;
+          } else {
+            this.skipLF = true;
+          }
+        }
+        start = ++i;
+        continue;
+      }
+      i++;
+    }
+
+    if (start < n) {
+      this.field += text.slice(start, n);
+    }
+    return records;
+  }
+
+  private emit(records: string[][]) {
+    const record = this.record;
+    this.record = [];
+    // Blank lines carry no data
+    if (record.length === 1 && record[0].trim() === '') return;
+    records.push(record);
+  }
+}
+
+// Turns tokenized records into objects keyed by the (first-row) header
+export interface DelimitedRowParserState {
+  format: 'delimited';
+  tokenizer: CSVTokenizerState;
+  headers: string[];
+}
+
+export class DelimitedRowParser {
+  private tokenizer: CSVTokenizer;
+  headers: string[] = [];
+
+  constructor(delimiter?: CSVDelimiter) {
+    this.tokenizer = new CSVTokenizer(delimiter);
+  }
+
+  get delimiter(): CSVDelimiter | undefined {
+    return this.tokenizer.getDelimiter();
+  }
+
+  push(text: string): Array<Record<string, string>> {
+    return this.toRows(this.tokenizer.push(text));
+  }
+
+  end(): Array<Record<string, string>> {
+    return this.toRows(this.tokenizer.end());
+  }
+
+  saveState(): DelimitedRowParserState {
+    return { format: 'delimited', tokenizer: this.tokenizer.saveState(), headers: [...this.headers] };
+  }
+
+  restoreState(state: DelimitedRowParserState) {
+    this.tokenizer.restoreState(state.tokenizer);
+    this.headers = [...state.headers];
+  }
+
+  private toRows(records: string[][]): Array<Record<string, string>> {
+    const rows: Array<Record<string, string>> = [];
+    for (const record of records) {
+      if (this.headers.length === 0) {
+        this.headers = record.map(h => h.trim());
+        continue;
+      }
+      const row: Record<string, string> = {};
+      this.headers.forEach((header, idx) => {
+        row[header] = (record[idx] ?? '').trim();
+      });
+      rows.push(row);
+    }
+    return rows;
+  }
+}
+
+// Tokenize a complete text in one go
+export function tokenizeCSV(text: string, delimiter?: CSVDelimiter): string[][] {
+  const tokenizer = new CSVTokenizer(delimiter);
+  return [...tokenizer.push(text), ...tokenizer.end()];
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { readWorkbook, isWorkbookFile } from './excel-parser';
+import { processAirtelFile } from './processing';
+
+// Workbook with a title block above the header, a native date cell and a summary sheet
+function buildWorkbook(): ArrayBuffer {
+  const data = XLSX.utils.aoa_to_sheet([
+    ['Jio IPDR Report'],
+    ['Generated for case 42'],
+    [],
+    ['MSISDN', 'Private_IP', 'Destination_IP_Address', 'Session_Start_Time', 'Session_End_Time', 'Uplink_Volume', 'Downlink_Volume'],
+    ['919876543210', '100.64.1.2', '157.240.16.35', new Date(Date.UTC(2025, 7, 20, 23, 15, 0)), '20-08-2025 23:15:30', 100, 200],
+    ['919876543211', 'not-an-ip', '157.240.16.35', '20-08-2025 23:16:00', '20-08-2025 23:16:30', 1, 1]
+  ], { cellDates: true });
+  const summary = XLSX.utils.aoa_to_sheet([['Total sessions', 2]]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, data, 'Sessions');
+  XLSX.utils.book_append_sheet(workbook, summary, 'Summary');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+}
+
+describe('excel workbook ingestion', () => {
+  it('detects the header row below report titles', () => {
+    const [sessions, summary] = readWorkbook(buildWorkbook());
+    expect(sessions.name).toBe('Sessions');
+    expect(sessions.headerRowNumber).toBe(4);
+    expect(sessions.headers[0]).toBe('MSISDN');
+    expect(sessions.rows).toHaveLength(2);
+    expect(sessions.rows[0].Session_Start_Time).toMatch(/^2025-08-20T23:15:00$/);
+    expect(summary.rows).toHaveLength(0);
+    expect(isWorkbookFile('dump.XLSX')).toBe(true);
+  });
+
+  it('normalizes workbook rows through the operator profile', async () => {
+    const file = new File([buildWorkbook()], 'jio_dump.xlsx');
+    const { evidence, records } = await processAirtelFile(file, 'caseX');
+    expect(evidence.operator).toBe('jio');
+    expect(evidence.sha256).toMatch(/^[a-f0-9]{64}$/);
+    expect(records).toHaveLength(1);
+    expect(records[0].startTimestamp.toISOString()).toBe('2025-08-20T17:45:00.000Z');
+    expect(records[0].bytesTransferred).toBe(300);
+    expect(evidence.parseIssues?.[0]).toMatchObject({ sheet: 'Sessions', rowNumber: 6, code: 'bad_ip' });
+  });
+});
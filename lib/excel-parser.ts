@@ -0,0 +1,131 @@
+// Excel (.xlsx/.xls) workbook reading for IPDR ingestion
+// Each sheet is turned into header-keyed rows like a delimited file, so workbooks feed
+// the same parser profiles and normalization. Operators often put report titles above
+// the header, so the header row is detected rather than assumed to be the first row.
+
+import * as XLSX from 'xlsx';
+import { getParserProfiles, resolveHeaderMapping } from './parser-profiles';
+
+export const WORKBOOK_EXTENSIONS = ['xlsx', 'xls'];
+
+// Rows searched for the header when a sheet starts with titles or blank lines
+const HEADER_SEARCH_ROWS = 20;
+
+export interface WorkbookSheet {
+  name: string;
+  headerRowNumber: number; // 1-based sheet row holding the headers, 0 for an empty sheet
+  headers: string[];
+  rows: Array<Record<string, string>>;
+  totalRows: number; // Data rows below the header, even when only a sample was read
+}
+
+export function isWorkbookFile(filename: string): boolean {
+  return WORKBOOK_EXTENSIONS.includes(filename.toLowerCase().split('.').pop() || '');
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// Excel stores dates as serial day numbers; render them as zone-less ISO wall-clock
+// time so they are read in the profile's source timezone like any other timestamp
+function formatExcelDate(serial: number): string {
+  const d = XLSX.SSF.parse_date_code(serial);
+  return `${pad(d.y, 4)}-${pad(d.m)}-${pad(d.d)}T${pad(d.H)}:${pad(d.M)}:${pad(Math.floor(d.S))}`;
+}
+
+function cellToString(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+  switch (cell.t) {
+    case 'n':
+      return cell.z && XLSX.SSF.is_date(cell.z) ? formatExcelDate(cell.v as number) : String(cell.v);
+    case 'd':
+      return (cell.v as Date).toISOString();
+    case 'e':
+      return ''; // #N/A, #REF! and friends carry no data
+    default:
+      return String(cell.v).trim();
+  }
+}
+
+function sheetToGrid(sheet: XLSX.WorkSheet): string[][] {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const grid: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellToString(sheet[XLSX.utils.encode_cell({ r, c })]));
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
+// Pick the row whose cells best match known IPDR header aliases; without any
+// match fall back to the first row that is as wide as the widest row
+export function detectHeaderRow(grid: string[][]): number {
+  const candidates = grid.slice(0, HEADER_SEARCH_ROWS);
+  const profiles = getParserProfiles();
+  let bestIndex = -1;
+  let bestScore = 0;
+
+  candidates.forEach((cells, index) => {
+    const headers = cells.filter(Boolean);
+    if (headers.length < 2) return;
+    const score = Math.max(...profiles.map(profile => Object.keys(resolveHeaderMapping(headers, profile)).length));
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+  if (bestIndex >= 0) return bestIndex;
+
+  const widths = candidates.map(cells => cells.filter(Boolean).length);
+  const maxWidth = Math.max(0, ...widths);
+  return maxWidth > 0 ? widths.indexOf(maxWidth) : -1;
+}
+
+function readSheet(name: string, sheet: XLSX.WorkSheet): WorkbookSheet {
+  const grid = sheetToGrid(sheet);
+  const headerIndex = detectHeaderRow(grid);
+  if (headerIndex < 0) {
+    return { name, headerRowNumber: 0, headers: [], rows: [], totalRows: 0 };
+  }
+
+  // Blank header cells get positional names so their data is not silently dropped
+  const headers = grid[headerIndex].map((header, idx) => header || `Column${idx + 1}`);
+  const rows: Array<Record<string, string>> = [];
+  for (const cells of grid.slice(headerIndex + 1)) {
+    if (cells.every(value => value === '')) continue;
+    const row: Record<string, string> = {};
+    headers.forEach((header, idx) => {
+      row[header] = cells[idx] ?? '';
+    });
+    rows.push(row);
+  }
+
+  // When only the first rows were read, the full range still gives the sheet size
+  const fullRef = sheet['!fullref'] as string | undefined;
+  const totalRows = fullRef
+    ? XLSX.utils.decode_range(fullRef).e.r - headerIndex
+    : rows.length;
+
+  return { name, headerRowNumber: headerIndex + 1, headers, rows, totalRows };
+}
+
+// Read every sheet of a workbook; sampleRows limits how many rows are parsed per sheet
+export function readWorkbook(data: ArrayBuffer, options: { sampleRows?: number } = {}): WorkbookSheet[] {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(new Uint8Array(data), {
+      type: 'array',
+      cellNF: true,
+      sheetRows: options.sampleRows ? options.sampleRows + HEADER_SEARCH_ROWS : 0
+    });
+  } catch (error) {
+    console.error('Workbook parsing error:', error);
+    throw new Error('Invalid Excel workbook. Please ensure the file is a valid .xlsx or .xls export.');
+  }
+  return workbook.SheetNames.map(name => readSheet(name, workbook.Sheets[name]));
+}
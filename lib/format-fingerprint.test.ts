@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { fingerprintContent, lookupImsiOperator, isIndianMSISDN, needsDateOrderConfirmation } from './format-fingerprint';
+
+const AIRTEL_CSV = `SubscriberID,SourceIP,SourcePort,DestinationIP,DestinationPort,Protocol,StartTime,EndTime,Bytes
+SUB001,10.10.10.2,5050,142.250.183.14,443,TCP,2025-08-20 10:00:05,2025-08-20 10:00:15,2048`;
+
+const JIO_TSV = `MSISDN\tIMSI\tPrivate_IP\tPublic_IP\tDestination_IP_Address\tSession_Start_Time\tSession_End_Time
+919876543210\t405857123456789\t100.64.1.2\t49.36.1.1\t157.240.16.35\t20-08-2025 23:15:00\t20-08-2025 23:15:30`;
+
+describe('format fingerprinting', () => {
+  it('ranks the operator whose headers, timestamps and IMSIs match', () => {
+    const fp = fingerprintContent(JIO_TSV, 'export.txt');
+    expect(fp.layout).toBe('delimited');
+    expect(fp.delimiter).toBe('\t');
+    expect(fp.guesses[0].operator).toBe('jio');
+    expect(fp.guesses[0].confidence).toBeGreaterThan(0.8);
+    expect(fp.guesses[0].signals.join(' ')).toContain('MCC/MNC');
+    expect(fp.timestampFormat).toBe('DD-MM-YYYY HH:mm:ss');
+  });
+
+  it('falls back to the filename and timestamp format for generic headers', () => {
+    const fp = fingerprintContent(AIRTEL_CSV, 'airtel_aug.csv');
+    expect(fp.guesses[0].operator).toBe('airtel');
+    expect(fp.guesses[0].signals).toContain('Filename mentions operator');
+  });
+
+  it('reports zero confidence when nothing matches', () => {
+    const fp = fingerprintContent('a,b\n1,2', 'unknown.csv');
+    expect(fp.guesses.every(g => g.confidence === 0)).toBe(true);
+  });
+
+  it('resolves IMSI prefixes and MSISDN shape', () => {
+    expect(lookupImsiOperator('404451234567890')).toBe('airtel');
+    expect(lookupImsiOperator('405840123456789')).toBe('jio');
+    expect(lookupImsiOperator('310260123456789')).toBeUndefined();
+    expect(isIndianMSISDN('+91 98765 43210')).toBe(true);
+    expect(isIndianMSISDN('12345')).toBe(false);
+  });
+
+  it('asks for the date format when day and month cannot be told apart', () => {
+    const csv = 'SourceIP,DestinationIP,Protocol,StartTime,EndTime\n' +
+      '10.0.0.1,8.8.8.8,UDP,03/04/2025 10:00:00,03/04/2025 10:00:05\n' +
+      '10.0.0.2,8.8.4.4,UDP,05/06/2025 10:00:00,05/06/2025 10:00:05';
+    const fp = fingerprintContent(csv, 'export.csv');
+    expect(fp.dateOrder).toBe('ambiguous');
+    expect(needsDateOrderConfirmation(fp, ['DD/MM/YYYY HH:mm:ss'])).toBe(true);
+
+    const monthFirst = fingerprintContent(csv.replace('05/06/2025 10:00:00', '05/26/2025 10:00:00'), 'export.csv');
+    expect(monthFirst.dateOrder).toBe('month-first');
+    expect(needsDateOrderConfirmation(monthFirst, ['DD/MM/YYYY HH:mm:ss'])).toBe(true);
+    expect(needsDateOrderConfirmation(monthFirst, ['MM/DD/YYYY HH:mm:ss'])).toBe(false);
+  });
+});
@@ -0,0 +1,309 @@
+// Operator and layout fingerprinting for uploaded IPDR files
+// Looks at the header row, delimiter, sample timestamps and subscriber identifiers
+// and returns a ranked guess of the operator for the analyst to confirm.
+'use client';
+
+import { TelecomOperator } from './types';
+import { blobToArrayBuffer } from './processing';
+import { CSVDelimiter, DelimitedRowParser } from './csv-tokenizer';
+import { isWorkbookFile, readWorkbook } from './excel-parser';
+import { isArchiveFile, extractArchive } from './archive-extractor';
+import { XMLRecordParser } from './xml-parser';
+import { JSONRecordParser, isJSONFile, isNDJSONFile } from './json-stream-parser';
+import {
+  ParserProfile,
+  getParserProfiles,
+  normalizeHeaderKey,
+  resolveHeaderMapping,
+  extractFields,
+  getXMLRecordElements
+} from './parser-profiles';
+import {
+  TimestampFormat,
+  DayMonthOrder,
+  detectTimestampFormat,
+  detectDayMonthOrder,
+  formatDayMonthOrder
+} from './timestamp-parser';
+
+export interface OperatorGuess {
+  operator: TelecomOperator;
+  profileId: string;
+  confidence: number; // 0-1, relative to the other candidates
+  signals: string[];
+}
+
+export interface FormatFingerprint {
+  filename: string;
+  layout: 'delimited' | 'json' | 'xml' | 'workbook' | 'unknown';
+  delimiter?: CSVDelimiter;
+  jsonRecordPath?: string; // JSON only: where the records were found ("$" for the top level)
+  sheets?: Array<{ name: string; headerRowNumber: number; rowCount: number }>; // Workbooks only
+  archiveMember?: string; // For archives, the member the fingerprint was taken from
+  headers: string[];
+  timestampFormat: TimestampFormat | null;
+  dateOrder: DayMonthOrder | null; // Day/month order of numeric dates, when the sample has any
+  guesses: OperatorGuess[]; // Best guess first
+  sampleRows: Array<Record<string, string>>; // Leading rows for the column-mapping preview
+}
+
+export interface FingerprintOptions {
+  jsonRecordPath?: string; // Where JSON records live, when the analyst has said
+}
+
+// Bytes read from the start of a file for fingerprinting
+export const FINGERPRINT_SAMPLE_BYTES = 64 * 1024;
+
+// Rows inspected for timestamp and identifier signals
+const SAMPLE_ROWS = 25;
+
+// Rows kept for the column-mapping preview
+const PREVIEW_ROWS = 5;
+
+// Signal weights; header matches are the strongest layout evidence
+const WEIGHTS = {
+  header: 3,
+  timestamp: 2,
+  imsi: 4,
+  filename: 2
+};
+
+// Indian IMSI prefixes (MCC 404/405 + MNC) by operator, per DoT allocations.
+// 405 series uses three-digit MNCs for Jio and the later Vodafone Idea blocks.
+const IMSI_PREFIXES: Record<TelecomOperator, string[]> = {
+  airtel: [
+    '40402', '40403', '40410', '40416', '40431', '40440', '40445', '40449', '40470',
+    '40490', '40492', '40493', '40494', '40495', '40496', '40497', '40498',
+    '40551', '40552', '40553', '40554', '40555', '40556'
+  ],
+  jio: [
+    '405840', '405854', '405855', '405856', '405857', '405858', '405859', '405860',
+    '405861', '405862', '405863', '405864', '405865', '405866', '405867', '405868',
+    '405869', '405870', '405871', '405872', '405873', '405874'
+  ],
+  vodafone: [
+    '40401', '40404', '40405', '40407', '40411', '40412', '40413', '40414', '40415',
+    '40419', '40420', '40422', '40424', '40427', '40430', '40443', '40444', '40446',
+    '40456', '40460', '40478', '40482', '40484', '40486', '40487', '40488', '40489',
+    '40566', '40567', '405750', '405751', '405752', '405753', '405754', '405755', '405756'
+  ],
+  bsnl: [
+    '40434', '40438', '40451', '40453', '40454', '40455', '40457', '40458', '40459',
+    '40462', '40464', '40466', '40471', '40472', '40473', '40474', '40475', '40476',
+    '40477', '40479', '40480', '40481'
+  ]
+};
+
+export function lookupImsiOperator(imsi: string): TelecomOperator | undefined {
+  const digits = imsi.replace(/\D/g, '');
+  if (digits.length < 14) return undefined;
+  // Three-digit MNCs first so 405-8xx is not mistaken for a two-digit block
+  for (const length of [6, 5]) {
+    const prefix = digits.slice(0, length);
+    for (const [operator, prefixes] of Object.entries(IMSI_PREFIXES)) {
+      if (prefixes.includes(prefix)) return operator as TelecomOperator;
+    }
+  }
+  return undefined;
+}
+
+// Indian MSISDNs are 10 digits starting 6-9, optionally with a 91 country code.
+// Number portability makes the series an unreliable operator signal, so MSISDNs
+// only confirm the layout rather than vote for an operator.
+export function isIndianMSISDN(value: string): boolean {
+  return /^(?:\+?91)?[6-9]\d{9}$/.test(value.replace(/[\s-]/g, ''));
+}
+
+function filenameOperator(filename: string): TelecomOperator | undefined {
+  const name = filename.toLowerCase();
+  if (name.includes('airtel')) return 'airtel';
+  if (name.includes('jio')) return 'jio';
+  if (name.includes('vodafone') || /(^|[^a-z])vi([^a-z]|$)/.test(name)) return 'vodafone';
+  if (name.includes('bsnl')) return 'bsnl';
+  return undefined;
+}
+
+function scoreProfile(
+  profile: ParserProfile,
+  headers: string[],
+  rows: Array<Record<string, string>>,
+  filename: string
+): { score: number; signals: string[]; timestampFormat: TimestampFormat | null } {
+  const signals: string[] = [];
+  let score = 0;
+
+  // Operator-specific header names
+  const headerKeys = new Set(headers.map(normalizeHeaderKey));
+  const matchedHeaders: string[] = [];
+  Object.values(profile.headerAliases).forEach(aliases => {
+    const hit = aliases?.find(alias => headerKeys.has(normalizeHeaderKey(alias)));
+    if (hit) matchedHeaders.push(hit);
+  });
+  if (matchedHeaders.length > 0) {
+    score += matchedHeaders.length * WEIGHTS.header;
+    signals.push(`${matchedHeaders.length} ${profile.name} header(s): ${matchedHeaders.slice(0, 4).join(', ')}`);
+  }
+
+  // Timestamps in the profile's primary format
+  const mapping = resolveHeaderMapping(headers, profile);
+  const sampleFields = rows.slice(0, SAMPLE_ROWS).map(row => extractFields(row, mapping));
+  const timestamps = sampleFields.map(f => f.startTime).filter(Boolean);
+  const timestampFormat = detectTimestampFormat(timestamps, profile.timestampFormats);
+  if (timestampFormat && timestampFormat === profile.timestampFormats[0]) {
+    score += WEIGHTS.timestamp;
+    signals.push(`Timestamps match ${timestampFormat}`);
+  }
+
+  // IMSI MCC/MNC ownership
+  const imsiOperators = sampleFields
+    .map(f => f.imsi && lookupImsiOperator(f.imsi))
+    .filter(Boolean) as TelecomOperator[];
+  const ownImsi = imsiOperators.filter(op => op === profile.operator).length;
+  if (ownImsi > 0) {
+    score += WEIGHTS.imsi * (ownImsi / imsiOperators.length);
+    signals.push(`${ownImsi}/${imsiOperators.length} IMSIs carry a ${profile.name} MCC/MNC`);
+  }
+
+  if (filenameOperator(filename) === profile.operator) {
+    score += WEIGHTS.filename;
+    signals.push('Filename mentions operator');
+  }
+
+  return { score, signals, timestampFormat };
+}
+
+// Fingerprint the leading text of a file (truncated when it is only the file's start)
+export function fingerprintContent(
+  sample: string,
+  filename: string,
+  truncated = false,
+  options: FingerprintOptions = {}
+): FormatFingerprint {
+  const extension = filename.toLowerCase().split('.').pop();
+  const trimmed = sample.replace(/^\uFEFF/, '').trimStart();
+
+  let layout: FormatFingerprint['layout'] = 'unknown';
+  let delimiter: FormatFingerprint['delimiter'];
+  let jsonRecordPath: FormatFingerprint['jsonRecordPath'];
+  let headers: string[] = [];
+  let rows: Array<Record<string, string>> = [];
+
+  if (isJSONFile(filename) || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    layout = 'json';
+    // Records still open at the end of a truncated sample are left out
+    const parser = new JSONRecordParser({ recordPath: options.jsonRecordPath, ndjson: isNDJSONFile(filename) });
+    try {
+      rows = parser.push(trimmed);
+      if (!truncated) rows.push(...parser.end());
+    } catch (error) {
+      console.warn('JSON sample could not be parsed:', error);
+    }
+    headers = parser.headers;
+    jsonRecordPath = parser.detectedPath ?? undefined;
+  } else if (extension === 'xml' || trimmed.startsWith('<')) {
+    layout = 'xml';
+    // Only session elements closed within the sample are returned
+    const parser = new XMLRecordParser(getXMLRecordElements());
+    rows = parser.push(trimmed);
+    if (!truncated) rows.push(...parser.end());
+    headers = parser.headers;
+  } else if (trimmed.length > 0) {
+    layout = 'delimited';
+    // A truncated sample ends mid-record, so only take the records completed within it
+    const parser = new DelimitedRowParser();
+    rows = parser.push(trimmed);
+    if (!truncated) rows.push(...parser.end());
+    delimiter = parser.delimiter;
+    headers = parser.headers;
+  }
+
+  return { ...fingerprintRows(filename, layout, headers, rows), delimiter, jsonRecordPath };
+}
+
+// Rank operators for rows that have already been parsed
+function fingerprintRows(
+  filename: string,
+  layout: FormatFingerprint['layout'],
+  headers: string[],
+  rows: Array<Record<string, string>>
+): FormatFingerprint {
+  const scored = getParserProfiles().map(profile => ({ profile, ...scoreProfile(profile, headers, rows, filename) }));
+  const total = scored.reduce((sum, s) => sum + s.score, 0);
+
+  const guesses: OperatorGuess[] = scored
+    .map(s => ({
+      operator: s.profile.operator,
+      profileId: s.profile.id,
+      confidence: total > 0 ? s.score / total : 0,
+      signals: s.signals
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const best = scored.find(s => s.profile.operator === guesses[0]?.operator);
+
+  // MSISDN shape backs up the layout guess without favouring an operator
+  if (best && guesses[0].confidence > 0) {
+    const mapping = resolveHeaderMapping(headers, best.profile);
+    const msisdns = rows.slice(0, SAMPLE_ROWS).map(row => extractFields(row, mapping).subscriberID).filter(Boolean);
+    if (msisdns.length > 0 && msisdns.every(isIndianMSISDN)) {
+      guesses[0].signals.push('Subscriber IDs are Indian MSISDNs');
+    }
+  }
+
+  // Day/month order from the timestamps themselves, whichever profile is chosen later
+  const timeMapping = resolveHeaderMapping(headers, best?.profile ?? scored[0].profile);
+  const timeValues = rows.slice(0, SAMPLE_ROWS).flatMap(row => {
+    const fields = extractFields(row, timeMapping);
+    return [fields.startTime, fields.endTime];
+  });
+
+  return {
+    filename,
+    layout,
+    headers,
+    timestampFormat: best?.timestampFormat ?? null,
+    dateOrder: detectDayMonthOrder(timeValues),
+    guesses,
+    sampleRows: rows.slice(0, PREVIEW_ROWS)
+  };
+}
+
+// Dates must be confirmed when their order cannot be told from the sample, or when it
+// contradicts the order the formats declare (which would silently swap day and month)
+export function needsDateOrderConfirmation(
+  fingerprint: FormatFingerprint,
+  timestampFormats: TimestampFormat[]
+): boolean {
+  if (!fingerprint.dateOrder) return false;
+  if (fingerprint.dateOrder === 'ambiguous') return true;
+  const declared = timestampFormats.map(formatDayMonthOrder).find(Boolean);
+  return declared !== undefined && declared !== fingerprint.dateOrder;
+}
+
+// Read the start of a file and fingerprint it
+export async function fingerprintFile(file: File, options: FingerprintOptions = {}): Promise<FormatFingerprint> {
+  if (isArchiveFile(file.name)) {
+    // Daily exports in one archive share a layout, so the first member stands in for all
+    const data = new Uint8Array(await blobToArrayBuffer(file));
+    const [member] = extractArchive(data, file.name, 1).members;
+    if (!member) {
+      return fingerprintRows(file.name, 'unknown', [], []);
+    }
+    const memberFile = new File([member.data.slice().buffer as ArrayBuffer], member.name);
+    return { ...await fingerprintFile(memberFile, options), filename: file.name, archiveMember: member.path };
+  }
+
+  if (isWorkbookFile(file.name)) {
+    // Workbooks are zipped/binary, so the whole file is needed; only the leading rows are parsed
+    const sheets = readWorkbook(await blobToArrayBuffer(file), { sampleRows: SAMPLE_ROWS });
+    const sheet = sheets.find(s => s.rows.length > 0) || sheets[0];
+    return {
+      ...fingerprintRows(file.name, 'workbook', sheet?.headers || [], sheet?.rows || []),
+      sheets: sheets.map(s => ({ name: s.name, headerRowNumber: s.headerRowNumber, rowCount: s.totalRows }))
+    };
+  }
+
+  const buffer = await blobToArrayBuffer(file.slice(0, FINGERPRINT_SAMPLE_BYTES));
+  const sample = new TextDecoder().decode(buffer);
+  return fingerprintContent(sample, file.name, file.size > FINGERPRINT_SAMPLE_BYTES, options);
+}
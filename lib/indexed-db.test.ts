@@ -0,0 +1,28 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { DatabaseSchema, deleteValue, getAllValues, openDatabase, putValue } from './indexed-db';
+
+const TEST_DB: DatabaseSchema = {
+  name: 'ipdr-test-shared',
+  version: 1,
+  upgrade: (db) => {
+    db.createObjectStore('items', { keyPath: 'id' }).createIndex('caseId', 'caseId');
+  }
+};
+
+describe('shared IndexedDB helpers', () => {
+  it('opens each database once and reuses the connection', async () => {
+    const [first, second] = await Promise.all([openDatabase(TEST_DB), openDatabase(TEST_DB)]);
+    expect(first).toBe(second);
+    expect(await openDatabase(TEST_DB)).toBe(first);
+  });
+
+  it('puts, reads by index and deletes values', async () => {
+    await putValue(TEST_DB, 'items', { id: 'a', caseId: 'case1' });
+    await putValue(TEST_DB, 'items', { id: 'b', caseId: 'case2' });
+    expect(await getAllValues(TEST_DB, 'items', { name: 'caseId', key: 'case2' })).toEqual([{ id: 'b', caseId: 'case2' }]);
+
+    await deleteValue(TEST_DB, 'items', 'a');
+    expect(await getAllValues(TEST_DB, 'items')).toEqual([{ id: 'b', caseId: 'case2' }]);
+  });
+});
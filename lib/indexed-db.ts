@@ -0,0 +1,68 @@
+// Shared IndexedDB plumbing
+// Each module keeps its own database (records, checkpoints, reference data); this opens each
+// one once and hands every caller the same connection, and wraps requests in promises.
+
+export interface DatabaseSchema {
+  name: string;
+  version: number;
+  // Creates or migrates the stores; oldVersion is 0 for a new database
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error(`${transaction.db.name} transaction aborted`));
+  });
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+// The open connection to a database, opening (and upgrading) it on first use
+export function openDatabase(schema: DatabaseSchema): Promise<IDBDatabase> {
+  let connection = connections.get(schema.name);
+  if (!connection) {
+    const request = indexedDB.open(schema.name, schema.version);
+    request.onupgradeneeded = (event) => {
+      schema.upgrade(request.result, request.transaction as IDBTransaction, event.oldVersion);
+    };
+    connection = promisifyRequest(request).then(db => {
+      // Let a newer version (another tab) upgrade, and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        connections.delete(schema.name);
+      };
+      db.onclose = () => connections.delete(schema.name);
+      return db;
+    });
+    // A failed open is retried on next use
+    connection.catch(() => connections.delete(schema.name));
+    connections.set(schema.name, connection);
+  }
+  return connection;
+}
+
+// Every value in a store, or those under one key of an index
+export async function getAllValues<T>(schema: DatabaseSchema, storeName: string, index?: { name: string; key: IDBValidKey }): Promise<T[]> {
+  const db = await openDatabase(schema);
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return promisifyRequest<T[]>(index ? store.index(index.name).getAll(index.key) : store.getAll());
+}
+
+export async function putValue<T>(schema: DatabaseSchema, storeName: string, value: T): Promise<void> {
+  const db = await openDatabase(schema);
+  await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+}
+
+export async function deleteValue(schema: DatabaseSchema, storeName: string, key: IDBValidKey): Promise<void> {
+  const db = await openDatabase(schema);
+  await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalizeIP, expandIPv6, ipInCIDR, ipVersion, matchesIPPattern, parseIPv6 } from './ip-address';
+import { matchesAdvancedFilters, matchesWatchlistParty } from './record-filters';
+import { normalizeAirtelRows, parseDelimited, sha256HexOfString } from './processing';
+import { validateIPAddress } from '@/utils/formatters';
+import { IPDRRecord, WatchlistItem } from './types';
+
+const JIO_IPV6_CSV = [
+  'Source IP,Destination IP,Protocol,Start Time,End Time',
+  '2405:0204:1a2b:0000:0000:0000:0000:0001,2404:6800:4009:0812:0000:0000:0000:200e,TCP,2025-08-20 10:00:00,2025-08-20 10:00:05',
+  '2405:204:1A2B::1,[2404:6800:4009:812::200E],TCP,2025-08-20 10:00:00,2025-08-20 10:00:05'
+].join('\n');
+
+function record(aParty: string, bParty: string): IPDRRecord {
+  return {
+    id: `rec_${aParty}_${bParty}`,
+    caseId: 'case6',
+    aParty,
+    bParty,
+    protocol: 'TCP',
+    startTimestamp: new Date('2025-08-20T10:00:00Z'),
+    endTimestamp: new Date('2025-08-20T10:00:05Z'),
+    duration: 5,
+    bytesTransferred: 100,
+    sourceFileId: 'file6',
+    rawRowHash: `${aParty}_${bParty}`,
+    operator: 'jio'
+  };
+}
+
+describe('IP addresses', () => {
+  it('canonicalizes compressed, expanded and zoned IPv6', () => {
+    expect(canonicalizeIP('2001:0DB8:0000:0000:0000:0000:0000:0001')).toBe('2001:db8::1');
+    expect(canonicalizeIP('2001:db8:0:0:1:0:0:1')).toBe('2001:db8::1:0:0:1');
+    expect(canonicalizeIP('2001:db8:0:1:1:1:1:1')).toBe('2001:db8:0:1:1:1:1:1');
+    expect(canonicalizeIP('FE80::0001%eth0')).toBe('fe80::1%eth0');
+    expect(canonicalizeIP('[::FFFF:C000:0201]')).toBe('::ffff:192.0.2.1');
+    expect(canonicalizeIP('::')).toBe('::');
+    expect(canonicalizeIP(' 010.001.002.003 ')).toBe('10.1.2.3');
+    expect(canonicalizeIP('not-an-ip')).toBe('not-an-ip');
+
+    expect(expandIPv6('2001:db8::1%wlan0')).toBe('2001:0db8:0000:0000:0000:0000:0000:0001%wlan0');
+    expect(parseIPv6('1::2::3')).toBeNull();
+    expect(parseIPv6('1:2:3:4:5:6:7:8:9')).toBeNull();
+    expect(parseIPv6('fe80::1%')).toBeNull();
+    expect(ipVersion('64:ff9b::192.0.2.33')).toBe(6);
+
+    expect(validateIPAddress('2405:204:1a2b::1')).toBe(true);
+    expect(validateIPAddress('fe80::1%eth0')).toBe(true);
+    expect(validateIPAddress('192.168.1.256')).toBe(false);
+    expect(validateIPAddress('2405:zz::1')).toBe(false);
+  });
+
+  it('matches IPv4 and IPv6 CIDR blocks and patterns', () => {
+    expect(ipInCIDR('2405:204:1a2b::1', '2405:200::/29')).toBe(true);
+    expect(ipInCIDR('2405:208::1', '2405:200::/29')).toBe(false);
+    expect(ipInCIDR('fe80::1%eth0', 'fe80::/10')).toBe(true);
+    expect(ipInCIDR('10.20.30.40', '10.0.0.0/8')).toBe(true);
+    expect(ipInCIDR('10.20.30.40', '::/0')).toBe(false);
+
+    expect(matchesIPPattern('2001:db8::1', '2001:0DB8:0:0:0:0:0:1')).toBe(true);
+    expect(matchesIPPattern('2001:db8::1', '2001:db8:')).toBe(true);
+    expect(matchesIPPattern('10.0.0.12', '10.0.0.1')).toBe(true);
+  });
+
+  it('stores the same session in either notation as the same parties', async () => {
+    const records = await normalizeAirtelRows(parseDelimited(JIO_IPV6_CSV), 'case6', 'file6', 'jio');
+    expect(records).toHaveLength(2);
+    expect(records.map(r => [r.aParty, r.bParty])).toEqual([
+      ['2405:204:1a2b::1', '2404:6800:4009:812::200e'],
+      ['2405:204:1a2b::1', '2404:6800:4009:812::200e']
+    ]);
+
+    // Row hashes stay on the cells as written, so they match hashes stored before canonicalization
+    const raw = ['2405:204:1A2B::1', '', '[2404:6800:4009:812::200E]', '', 'TCP', '2025-08-20T04:30:00.000Z', '2025-08-20T04:30:05.000Z', '0', '', '', ''];
+    expect(records[1].rawRowHash).toBe(await sha256HexOfString(raw.join('|')));
+  });
+
+  it('filters and flags watchlisted IPv6 parties', () => {
+    const records = [record('2405:204:1a2b::1', '2404:6800:4009:812::200e'), record('10.0.0.1', '8.8.8.8')];
+    const filters = {
+      dateRange: { start: null, end: null },
+      protocol: [],
+      operator: [],
+      portRange: { min: null, max: null },
+      bytesRange: { min: null, max: null },
+      durationRange: { min: null, max: null }
+    };
+    const matching = (extra: object) =>
+      records.filter(r => matchesAdvancedFilters(r, { ...filters, ...extra })).map(r => r.aParty);
+
+    expect(matching({ sourceIP: '2405:200::/29' })).toEqual(['2405:204:1a2b::1']);
+    expect(matching({ destinationIP: '2404:6800:4009:0812:0000:0000:0000:200E' })).toEqual(['2405:204:1a2b::1']);
+    expect(matching({ wiresharkQuery: 'ipv6.dst == 2404:6800::/32' })).toEqual(['2405:204:1a2b::1']);
+    expect(matching({ wiresharkQuery: 'ip.addr == 8.8.8.0/24' })).toEqual(['10.0.0.1']);
+
+    const item = (type: WatchlistItem['type'], numberOrPrefix: string): WatchlistItem =>
+      ({ id: 'w', caseId: 'case6', label: 'Target', type, numberOrPrefix, createdAt: new Date() });
+    expect(records.map(r => matchesWatchlistParty(r.aParty, item('ip', '2405:204:1A2B:0:0:0:0:1')))).toEqual([true, false]);
+    expect(records.map(r => matchesWatchlistParty(r.bParty, item('prefix', '2404:6800::/32')))).toEqual([true, false]);
+    expect(records.map(r => matchesWatchlistParty(r.aParty, item('prefix', '10.0.')))).toEqual([false, true]);
+    expect(records.map(r => matchesWatchlistParty(r.aParty, item('phone', '+91 10001')))).toEqual([false, false]);
+  });
+});
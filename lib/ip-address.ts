@@ -0,0 +1,211 @@
+// IPv4 and IPv6 address handling
+// Operators deliver IPv6 in compressed and expanded forms, sometimes with a zone ID
+// (fe80::1%eth0) or brackets. Records store the canonical form (RFC 5952: lowercase,
+// no leading zeros, the longest run of zero groups compressed), so the same address
+// compares, deduplicates and displays the same way everywhere.
+
+export type IPVersion = 4 | 6;
+
+// Dotted IPv4 to an unsigned integer, or null when the text is not an IPv4 address
+export function ipv4ToNumber(ip: string): number | null {
+  const parts = ip.trim().split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function numberToIPv4(value: number): string {
+  return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].join('.');
+}
+
+// Address and zone ID of a literal such as [fe80::1%eth0]
+function splitZone(ip: string): { address: string; zone?: string } {
+  const text = ip.trim().replace(/^\[(.*)\]$/, '$1');
+  const percent = text.indexOf('%');
+  return percent === -1 ? { address: text } : { address: text.slice(0, percent), zone: text.slice(percent + 1) };
+}
+
+// The eight 16-bit groups of an IPv6 address, or null when the text is not one
+export function parseIPv6(ip: string): number[] | null {
+  const { address, zone } = splitZone(ip);
+  if (!address.includes(':') || zone === '') return null;
+
+  // An embedded IPv4 address fills the last two groups (::ffff:192.0.2.1)
+  let text = address;
+  const lastColon = text.lastIndexOf(':');
+  const tail = text.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const ipv4 = ipv4ToNumber(tail);
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  if (![...head, ...rest].every(group => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  return [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest].map(group => parseInt(group, 16));
+}
+
+export function isIPv4(ip: string): boolean {
+  return ipv4ToNumber(ip) !== null;
+}
+
+export function isIPv6(ip: string): boolean {
+  return parseIPv6(ip) !== null;
+}
+
+export function ipVersion(ip: string): IPVersion | null {
+  if (isIPv4(ip)) return 4;
+  if (isIPv6(ip)) return 6;
+  return null;
+}
+
+function withZone(address: string, zone?: string): string {
+  return zone ? `${address}%${zone}` : address;
+}
+
+function isIPv4Mapped(groups: number[]): boolean {
+  return groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff;
+}
+
+// RFC 5952 text for eight groups
+function formatIPv6(groups: number[]): string {
+  if (isIPv4Mapped(groups)) return `::ffff:${numberToIPv4(groups[6] * 0x10000 + groups[7])}`;
+
+  // Longest run of two or more zero groups; the first one wins a tie
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < 8 && groups[end] === 0) end++;
+    if (end - i > bestLength) {
+      bestStart = i;
+      bestLength = end - i;
+    }
+    i = end;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) return hex.join(':');
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+// Canonical form of an IPv4 or IPv6 address; text that is neither is returned trimmed
+export function canonicalizeIP(ip: string): string {
+  const ipv4 = ipv4ToNumber(ip);
+  if (ipv4 !== null) return numberToIPv4(ipv4);
+  const groups = parseIPv6(ip);
+  if (!groups) return ip.trim();
+  return withZone(formatIPv6(groups), splitZone(ip).zone);
+}
+
+// All eight groups written out in four hex digits, or null when the text is not IPv6
+export function expandIPv6(ip: string): string | null {
+  const groups = parseIPv6(ip);
+  if (!groups) return null;
+  return withZone(groups.map(group => group.toString(16).padStart(4, '0')).join(':'), splitZone(ip).zone);
+}
+
+// An address as 16-bit words (two for IPv4, eight for IPv6), ignoring any zone ID
+function toWords(ip: string): { version: IPVersion; words: number[] } | null {
+  const ipv4 = ipv4ToNumber(ip);
+  if (ipv4 !== null) return { version: 4, words: [ipv4 >>> 16, ipv4 & 0xffff] };
+  const groups = parseIPv6(ip);
+  return groups ? { version: 6, words: groups } : null;
+}
+
+export interface IPCIDR {
+  version: IPVersion;
+  words: number[];
+  prefix: number;
+}
+
+// An IPv4 or IPv6 CIDR block such as 10.0.0.0/8 or 2405:200::/29
+export function parseCIDR(cidr: string): IPCIDR | null {
+  const slash = cidr.lastIndexOf('/');
+  if (slash === -1) return null;
+  const network = toWords(cidr.slice(0, slash));
+  const bits = cidr.slice(slash + 1).trim();
+  if (!network || !/^\d{1,3}$/.test(bits)) return null;
+  const prefix = Number(bits);
+  if (prefix > network.words.length * 16) return null;
+  return { ...network, prefix };
+}
+
+function inCIDR(words: number[], block: IPCIDR): boolean {
+  for (let i = 0, remaining = block.prefix; remaining > 0; i++, remaining -= 16) {
+    const mask = remaining >= 16 ? 0xffff : (0xffff << (16 - remaining)) & 0xffff;
+    if ((words[i] & mask) !== (block.words[i] & mask)) return false;
+  }
+  return true;
+}
+
+export function ipInCIDR(ip: string, cidr: string | IPCIDR): boolean {
+  const block = typeof cidr === 'string' ? parseCIDR(cidr) : cidr;
+  const address = toWords(ip);
+  return !!block && !!address && address.version === block.version && inCIDR(address.words, block);
+}
+
+// IPv4 addresses sit in the IPv4-mapped block (::ffff:0:0/96) of the 128-bit space
+const IPV4_MAPPED = BigInt(0xffff) << BigInt(32);
+
+function wordsToBigInt(words: number[]): bigint {
+  return words.reduce((value, word) => (value << BigInt(16)) | BigInt(word), BigInt(0));
+}
+
+// An IPv4 address held as an unsigned integer, in the 128-bit space
+export function ipv4NumberToBigInt(value: number): bigint {
+  return IPV4_MAPPED | BigInt(value);
+}
+
+// An address as a 128-bit integer, ignoring any zone ID, or null when the text is not one.
+// IPv4 takes its IPv4-mapped value, so IPv4 and IPv6 ranges sort and search together
+export function ipToBigInt(ip: string): bigint | null {
+  const address = toWords(ip);
+  if (!address) return null;
+  const value = wordsToBigInt(address.words);
+  return address.version === 4 ? IPV4_MAPPED | value : value;
+}
+
+// First and last address of a CIDR block as 128-bit integers (see ipToBigInt)
+export function cidrRange(cidr: string | IPCIDR): { start: bigint; end: bigint } | null {
+  const block = typeof cidr === 'string' ? parseCIDR(cidr) : cidr;
+  if (!block) return null;
+  const hostBits = BigInt(block.words.length * 16 - block.prefix);
+  const start = (wordsToBigInt(block.words) >> hostBits) << hostBits;
+  const end = start + (BigInt(1) << hostBits) - BigInt(1);
+  return block.version === 4 ? { start: IPV4_MAPPED | start, end: IPV4_MAPPED | end } : { start, end };
+}
+
+// Search and filter matching for an address: a CIDR block matches the addresses inside it,
+// anything else matches as text, with complete addresses compared in canonical form
+export function matchesIPPattern(ip: string, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return true;
+  const block = parseCIDR(trimmed);
+  if (block) return ipInCIDR(ip, block);
+  return canonicalizeIP(ip).toLowerCase().includes(canonicalizeIP(trimmed).toLowerCase());
+}
+
+// Shortened label for tight spaces (graph nodes); IPv6 keeps its first and last groups
+export function abbreviateIP(ip: string, maxLength: number): string {
+  if (ip.length <= maxLength) return ip;
+  const groups = splitZone(ip).address.split(':').filter(Boolean);
+  if (isIPv6(ip) && groups.length >= 2) return `${groups[0]}:…:${groups[groups.length - 1]}`;
+  return `${ip.slice(0, Math.max(1, maxLength - 2))}…`;
+}
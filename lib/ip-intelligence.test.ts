@@ -0,0 +1,132 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { IPIntelligenceDatabase, enrichRecords, loadIPIntelligence, parseIPRangeCSV } from './ip-intelligence';
+import { cidrRange, ipToBigInt, ipv4ToNumber } from './ip-address';
+import { matchesAdvancedFilters } from './record-filters';
+import { IPDRRecord } from './types';
+
+const ASN_BLOCKS = [
+  'network,autonomous_system_number,autonomous_system_organization',
+  '8.8.8.0/24,15169,Google LLC',
+  '142.250.0.0/15,15169,Google LLC',
+  '157.240.0.0/16,32934,"Facebook, Inc."',
+  'not-a-network,1,Broken'
+].join('\n');
+
+const COUNTRY_RANGES = [
+  'ip_from,ip_to,country_code,country_name,city',
+  `${ipv4ToNumber('8.0.0.0')},${ipv4ToNumber('8.255.255.255')},US,United States,-`,
+  '142.250.0.0,142.251.255.255,US,United States,Mountain View',
+  '142.250.183.0,142.250.183.255,IN,India,Mumbai'
+].join('\n');
+
+const ASN_BLOCKS_IPV6 = [
+  'network,autonomous_system_number,autonomous_system_organization',
+  '2404:6800::/32,15169,Google LLC',
+  '2a03:2880::/32,32934,"Facebook, Inc."'
+].join('\n');
+
+function record(bParty: string): IPDRRecord {
+  return {
+    id: `rec_${bParty}`,
+    caseId: 'caseI',
+    aParty: '10.0.0.1',
+    bParty,
+    protocol: 'TCP',
+    startTimestamp: new Date('2025-08-20T10:00:00Z'),
+    endTimestamp: new Date('2025-08-20T10:00:05Z'),
+    duration: 5,
+    bytesTransferred: 100,
+    sourceFileId: 'fileI',
+    rawRowHash: bParty,
+    operator: 'airtel'
+  };
+}
+
+describe('IP intelligence', () => {
+  it('parses CIDR blocks and integer or dotted ranges', () => {
+    expect(cidrRange('142.250.0.0/15')).toEqual({ start: ipToBigInt('142.250.0.0'), end: ipToBigInt('142.251.255.255') });
+    expect(cidrRange('2404:6800::/32')).toEqual({ start: ipToBigInt('2404:6800::'), end: ipToBigInt('2404:6800:ffff:ffff:ffff:ffff:ffff:ffff') });
+
+    const asn = parseIPRangeCSV(ASN_BLOCKS, 'GeoLite2-ASN-Blocks-IPv4.csv');
+    expect(asn.ranges).toHaveLength(3);
+    expect(asn.ranges[2]).toMatchObject({ asn: 32934, organization: 'Facebook, Inc.' });
+
+    expect(() => parseIPRangeCSV('asn,org\n1,x', 'bad.csv')).toThrow('no network (CIDR) column');
+  });
+
+  it('merges sources and prefers the most specific range', () => {
+    const database = new IPIntelligenceDatabase([
+      parseIPRangeCSV(ASN_BLOCKS, 'asn.csv'),
+      parseIPRangeCSV(COUNTRY_RANGES, 'countries.csv')
+    ]);
+
+    expect(database.lookup('142.250.183.14')).toEqual({ asn: 15169, organization: 'Google LLC', country: 'IN', city: 'Mumbai' });
+    expect(database.lookup('142.250.1.1')).toMatchObject({ country: 'US', city: 'Mountain View' });
+    expect(database.lookup('8.8.4.4')).toEqual({ country: 'US' });
+    expect(database.lookup('1.1.1.1')).toBeNull();
+    expect(database.lookup('not-an-ip')).toBeNull();
+  });
+
+  it('resolves IPv6 destinations from IPv6 range files', () => {
+    const database = new IPIntelligenceDatabase([
+      parseIPRangeCSV(ASN_BLOCKS_IPV6, 'GeoLite2-ASN-Blocks-IPv6.csv'),
+      parseIPRangeCSV(ASN_BLOCKS, 'GeoLite2-ASN-Blocks-IPv4.csv'),
+      // IP2Location IPv6 files give every address as a 128-bit integer
+      parseIPRangeCSV(`ip_from,ip_to,country_code\n${ipToBigInt('2404:6800::')},${ipToBigInt('2404:6800:4009:ffff:ffff:ffff:ffff:ffff')},IN`, 'ip2location-v6.csv')
+    ]);
+
+    expect(database.lookup('2404:6800:4009:812::200e')).toEqual({ asn: 15169, organization: 'Google LLC', country: 'IN' });
+    expect(database.lookup('2a03:2880:f12f:83:face:b00c:0:25de')).toMatchObject({ asn: 32934 });
+    expect(database.lookup('8.8.8.8')).toMatchObject({ asn: 15169 });
+    expect(database.lookup('2001:db8::1')).toBeNull();
+  });
+
+  it('reads ranges stored as IPv4 numbers before IPv6 support', async () => {
+    const request = indexedDB.open('ipdr-intel-reference', 1);
+    request.onupgradeneeded = () => request.result.createObjectStore('ipIntelSources', { keyPath: 'id' });
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const range = { start: ipv4ToNumber('8.8.8.0'), end: ipv4ToNumber('8.8.8.255'), asn: 15169 };
+    await new Promise(resolve => {
+      const transaction = db.transaction('ipIntelSources', 'readwrite');
+      transaction.objectStore('ipIntelSources').put({ id: 'old', name: 'old.csv', importedAt: new Date(), ranges: [range] });
+      transaction.oncomplete = resolve;
+    });
+    db.close();
+
+    const database = await loadIPIntelligence();
+    expect(database.sources[0].ranges[0].start).toBe(ipToBigInt('8.8.8.0'));
+    expect(database.lookup('8.8.8.8')).toEqual({ asn: 15169 });
+  });
+
+  it('enriches destinations so they can be filtered', () => {
+    const database = new IPIntelligenceDatabase([
+      parseIPRangeCSV(ASN_BLOCKS, 'asn.csv'),
+      parseIPRangeCSV(COUNTRY_RANGES, 'countries.csv')
+    ]);
+    const records = [record('8.8.8.8'), record('157.240.1.35'), record('1.1.1.1')];
+    const enriched = enrichRecords(records, database);
+
+    expect(enriched[0].bPartyLocation).toMatchObject({ asn: 15169, organization: 'Google LLC', country: 'US', isp: 'Google LLC' });
+    expect(enriched[1].bPartyLocation).toMatchObject({ asn: 32934, country: '' });
+    expect(enriched[2]).toBe(records[2]);
+
+    const filters = {
+      dateRange: { start: null, end: null },
+      protocol: [],
+      operator: [],
+      portRange: { min: null, max: null },
+      bytesRange: { min: null, max: null },
+      durationRange: { min: null, max: null }
+    };
+    const matching = (extra: object) =>
+      enriched.filter(r => matchesAdvancedFilters(r, { ...filters, ...extra })).map(r => r.bParty);
+    expect(matching({ asn: 'AS15169' })).toEqual(['8.8.8.8']);
+    expect(matching({ organization: 'facebook' })).toEqual(['157.240.1.35']);
+    expect(matching({ country: 'us' })).toEqual(['8.8.8.8']);
+    expect(matching({ globalSearch: 'google' })).toEqual(['8.8.8.8']);
+  });
+});
@@ -0,0 +1,308 @@
+// Offline IP intelligence (ASN, organization, country and location)
+// Analysts import IP range files (MaxMind GeoLite2 CSV blocks, IP2Location-style
+// from/to ranges, or any CSV with a CIDR or start/end column). Destination IPs are
+// resolved against them at ingest; nothing is looked up over the network. IPv4 and
+// IPv6 ranges are held as 128-bit integers, so either kind of file resolves either kind of address.
+
+import { Geolocation, IPDRRecord } from './types';
+import { tokenizeCSV } from './csv-tokenizer';
+import { normalizeHeaderKey } from './parser-profiles';
+import { cidrRange, ipToBigInt, ipv4NumberToBigInt } from './ip-address';
+import { DatabaseSchema, deleteValue, getAllValues, putValue } from './indexed-db';
+
+// What a range file can say about the addresses it covers
+export interface IPIntelInfo {
+  asn?: number;
+  organization?: string;
+  country?: string;
+  region?: string;
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+  isp?: string;
+}
+
+export interface IPIntelRange extends IPIntelInfo {
+  start: bigint; // 128-bit address (ipToBigInt), inclusive
+  end: bigint;
+}
+
+// One imported file
+export interface IPIntelSource {
+  id: string;
+  name: string;
+  importedAt: Date;
+  ranges: IPIntelRange[];
+}
+
+type IPIntelColumn = keyof IPIntelInfo | 'network' | 'start' | 'end';
+
+const COLUMN_ALIASES: Record<IPIntelColumn, string[]> = {
+  network: ['network', 'cidr', 'prefix', 'subnet'],
+  start: ['startip', 'ipstart', 'ipfrom', 'fromip', 'rangestart', 'firstip', 'start'],
+  end: ['endip', 'ipend', 'ipto', 'toip', 'rangeend', 'lastip', 'end'],
+  asn: ['autonomoussystemnumber', 'asn', 'asnumber', 'as'],
+  organization: ['autonomoussystemorganization', 'organization', 'organisation', 'org', 'asorg', 'asname', 'asorganization'],
+  country: ['countryisocode', 'countrycode', 'country', 'countryname', 'cc'],
+  region: ['region', 'regionname', 'subdivision1name', 'state'],
+  city: ['city', 'cityname'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng', 'long'],
+  timezone: ['timezone', 'timezonename', 'tz'],
+  isp: ['isp', 'ispname', 'carrier']
+};
+
+type AddressRange = { start: bigint; end: bigint };
+
+// A CIDR block, or a single address
+function parseNetwork(value: string): AddressRange | null {
+  const range = cidrRange(value.trim());
+  if (range) return range;
+  const address = ipToBigInt(value);
+  return address === null ? null : { start: address, end: address };
+}
+
+const MAX_ADDRESS = (BigInt(1) << BigInt(128)) - BigInt(1);
+
+// Range ends are addresses or, in IP2Location-style files, plain integers. Integers that fit
+// in 32 bits are IPv4; IP2Location IPv6 files already give IPv4 as IPv4-mapped integers
+function parseRangeEnd(value: string): bigint | null {
+  const text = value.trim();
+  if (/^\d+$/.test(text)) {
+    const number = BigInt(text);
+    if (number <= BigInt(0xffffffff)) return ipv4NumberToBigInt(Number(number));
+    return number <= MAX_ADDRESS ? number : null;
+  }
+  return ipToBigInt(text);
+}
+
+function optionalText(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  return text && text !== '-' ? text : undefined;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  const text = optionalText(value);
+  if (!text) return undefined;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// Parse a CSV range file; rows that are not IP ranges are skipped
+export function parseIPRangeCSV(text: string, name: string): IPIntelSource {
+  const [headerRow, ...rows] = tokenizeCSV(text.replace(/^\uFEFF/, ''));
+  if (!headerRow) throw new Error(`${name} is empty`);
+
+  const headerKeys = headerRow.map(normalizeHeaderKey);
+  const columns: Partial<Record<IPIntelColumn, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as IPIntelColumn[]).forEach(column => {
+    for (const alias of COLUMN_ALIASES[column]) {
+      const index = headerKeys.indexOf(alias);
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+        break;
+      }
+    }
+  });
+  if (columns.network === undefined && (columns.start === undefined || columns.end === undefined)) {
+    throw new Error(`${name} has no network (CIDR) column or start and end IP columns`);
+  }
+
+  const cell = (row: string[], column: IPIntelColumn) =>
+    columns[column] === undefined ? undefined : row[columns[column] as number];
+
+  const ranges: IPIntelRange[] = [];
+  for (const row of rows) {
+    let bounds: AddressRange | null = null;
+    if (columns.network !== undefined) {
+      bounds = parseNetwork(cell(row, 'network') || '');
+    } else {
+      const start = parseRangeEnd(cell(row, 'start') || '');
+      const end = parseRangeEnd(cell(row, 'end') || '');
+      if (start !== null && end !== null && start <= end) bounds = { start, end };
+    }
+    if (!bounds) continue;
+
+    const asn = optionalText(cell(row, 'asn'))?.replace(/^AS/i, '');
+    ranges.push({
+      ...bounds,
+      asn: asn && /^\d+$/.test(asn) ? Number(asn) : undefined,
+      organization: optionalText(cell(row, 'organization')),
+      country: optionalText(cell(row, 'country')),
+      region: optionalText(cell(row, 'region')),
+      city: optionalText(cell(row, 'city')),
+      latitude: optionalNumber(cell(row, 'latitude')),
+      longitude: optionalNumber(cell(row, 'longitude')),
+      timezone: optionalText(cell(row, 'timezone')),
+      isp: optionalText(cell(row, 'isp'))
+    });
+  }
+  if (ranges.length === 0) throw new Error(`${name} has no IP ranges`);
+
+  return {
+    id: `ipintel_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    importedAt: new Date(),
+    ranges
+  };
+}
+
+// Ranges sorted by start, with the furthest end seen so far, so nested blocks still resolve
+interface RangeIndex {
+  ranges: IPIntelRange[];
+  maxEnd: bigint[];
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function buildRangeIndex(ranges: IPIntelRange[]): RangeIndex {
+  const sorted = [...ranges].sort((a, b) => compareBigInt(a.start, b.start) || compareBigInt(b.end, a.end));
+  const maxEnd: bigint[] = [];
+  sorted.forEach((range, i) => maxEnd.push(i > 0 && maxEnd[i - 1] > range.end ? maxEnd[i - 1] : range.end));
+  return { ranges: sorted, maxEnd };
+}
+
+// The most specific range containing the address
+function findRange(index: RangeIndex, ip: bigint): IPIntelRange | null {
+  let low = 0;
+  let high = index.ranges.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (index.ranges[mid].start <= ip) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  for (let i = found; i >= 0 && index.maxEnd[i] >= ip; i--) {
+    if (index.ranges[i].end >= ip) return index.ranges[i];
+  }
+  return null;
+}
+
+export class IPIntelligenceDatabase {
+  private indexes = new Map<string, { source: IPIntelSource; index: RangeIndex }>();
+
+  constructor(sources: IPIntelSource[] = []) {
+    sources.forEach(source => this.addSource(source));
+  }
+
+  get sources(): IPIntelSource[] {
+    return Array.from(this.indexes.values(), entry => entry.source);
+  }
+
+  get isEmpty(): boolean {
+    return this.indexes.size === 0;
+  }
+
+  addSource(source: IPIntelSource) {
+    this.indexes.set(source.id, { source, index: buildRangeIndex(source.ranges) });
+  }
+
+  removeSource(id: string) {
+    this.indexes.delete(id);
+  }
+
+  // Fields from every matching source; where sources disagree the earlier import wins
+  lookup(ip: string): IPIntelInfo | null {
+    const address = ipToBigInt(ip);
+    if (address === null) return null;
+    let info: IPIntelInfo | null = null;
+    for (const { index } of this.indexes.values()) {
+      const range = findRange(index, address);
+      if (!range) continue;
+      const merged: Record<string, unknown> = { ...info };
+      Object.entries(range).forEach(([key, value]) => {
+        if (key !== 'start' && key !== 'end' && merged[key] === undefined) merged[key] = value;
+      });
+      info = merged as IPIntelInfo;
+    }
+    return info;
+  }
+}
+
+export function toGeolocation(info: IPIntelInfo): Geolocation {
+  return {
+    country: info.country || '',
+    region: info.region || '',
+    city: info.city || '',
+    latitude: info.latitude,
+    longitude: info.longitude,
+    timezone: info.timezone || '',
+    isp: info.isp || info.organization || '',
+    asn: info.asn,
+    organization: info.organization
+  };
+}
+
+// Attach destination intelligence; records whose destination does not resolve are returned as they are
+export function enrichRecords(records: IPDRRecord[], database: IPIntelligenceDatabase): IPDRRecord[] {
+  if (database.isEmpty) return records;
+  const cache = new Map<string, IPIntelInfo | null>();
+  return records.map(record => {
+    if (!cache.has(record.bParty)) cache.set(record.bParty, database.lookup(record.bParty));
+    const info = cache.get(record.bParty);
+    return info ? { ...record, bPartyLocation: toGeolocation(info) } : record;
+  });
+}
+
+// Imported sources are kept in IndexedDB so they survive a reload
+const IP_INTEL_SOURCES = 'ipIntelSources';
+
+const REFERENCE_DB: DatabaseSchema = {
+  name: 'ipdr-intel-reference',
+  version: 2,
+  upgrade: (db, transaction, oldVersion) => {
+    if (oldVersion < 1) {
+      db.createObjectStore(IP_INTEL_SOURCES, { keyPath: 'id' });
+    }
+    // Version 1 held IPv4-only ranges as 32-bit numbers
+    if (oldVersion === 1) {
+      const request = transaction.objectStore(IP_INTEL_SOURCES).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const source = cursor.value as IPIntelSource;
+        cursor.update({
+          ...source,
+          ranges: source.ranges.map(range => ({
+            ...range,
+            start: ipv4NumberToBigInt(Number(range.start)),
+            end: ipv4NumberToBigInt(Number(range.end))
+          }))
+        });
+        cursor.continue();
+      };
+    }
+  }
+};
+
+let sharedDatabase: Promise<IPIntelligenceDatabase> | null = null;
+
+// The analyst's imported sources; empty where IndexedDB is unavailable (server rendering, tests)
+export function loadIPIntelligence(): Promise<IPIntelligenceDatabase> {
+  if (!sharedDatabase) {
+    sharedDatabase = typeof indexedDB === 'undefined'
+      ? Promise.resolve(new IPIntelligenceDatabase())
+      : getAllValues<IPIntelSource>(REFERENCE_DB, IP_INTEL_SOURCES)
+          .then(sources => new IPIntelligenceDatabase(sources.sort((a, b) => a.importedAt.getTime() - b.importedAt.getTime())));
+  }
+  return sharedDatabase;
+}
+
+export async function importIPIntelSource(source: IPIntelSource): Promise<void> {
+  const database = await loadIPIntelligence();
+  if (typeof indexedDB !== 'undefined') await putValue(REFERENCE_DB, IP_INTEL_SOURCES, source);
+  database.addSource(source);
+}
+
+export async function removeIPIntelSource(id: string): Promise<void> {
+  const database = await loadIPIntelligence();
+  if (typeof indexedDB !== 'undefined') await deleteValue(REFERENCE_DB, IP_INTEL_SOURCES, id);
+  database.removeSource(id);
+}
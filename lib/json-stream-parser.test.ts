@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { JSONRecordParser } from './json-stream-parser';
+import { parseJSON, processAirtelFile } from './processing';
+
+const WRAPPED_JSON = JSON.stringify({
+  status: 'ok',
+  meta: { operator: 'airtel', data: [1, 2] },
+  result: {
+    sessions: [
+      { SourceIP: '10.0.0.1', DestinationIP: '8.8.8.8', Protocol: 'UDP', StartTime: '2024-01-01T00:00:00Z', EndTime: '2024-01-01T00:00:05Z', Bytes: 0 },
+      { SourceIP: '10.0.0.2', DestinationIP: '1.1.1.1', Protocol: 'TCP', StartTime: '2024-01-01T00:01:00Z', EndTime: '2024-01-01T00:01:10Z', Location: { CellID: 'C1', LAC: 'L9' } }
+    ]
+  }
+}, null, 2);
+
+const NDJSON = [
+  '{"SourceIP":"10.0.0.1","DestinationIP":"8.8.8.8","Protocol":"UDP","StartTime":"2024-01-01T00:00:00Z","EndTime":"2024-01-01T00:00:05Z","data":[1]}',
+  '{"SourceIP":"10.0.0.2","DestinationIP":"bad","Protocol":"TCP","StartTime":"2024-01-01T00:01:00Z","EndTime":"2024-01-01T00:01:10Z"}',
+  ''
+].join('\n');
+
+describe('json record parser', () => {
+  it('keeps the existing wrapper keys and bare arrays', () => {
+    expect(parseJSON('[{"a":1},{"a":2,"b":"x"}]')).toEqual([{ a: '1', b: '' }, { a: '2', b: 'x' }]);
+    expect(parseJSON('{"count":1,"records":[{"a":"y"}]}')).toEqual([{ a: 'y' }]);
+    expect(parseJSON('{"a":"single"}')).toEqual([{ a: 'single' }]);
+    expect(() => parseJSON('{"records":[{"a":1}')).toThrow('Invalid JSON format');
+  });
+
+  it('reads records at a configured path, flattening nested objects', () => {
+    const rows = parseJSON(WRAPPED_JSON, { recordPath: '$.result.sessions' });
+    expect(rows).toHaveLength(2);
+    expect(rows[0].Bytes).toBe('0');
+    expect(rows[1]).toMatchObject({ SourceIP: '10.0.0.2', 'Location/CellID': 'C1', 'Location/LAC': 'L9' });
+  });
+
+  it('produces the same records however the text is chunked', () => {
+    const whole = new JSONRecordParser({ recordPath: 'result.sessions' });
+    const expected = [...whole.push(WRAPPED_JSON), ...whole.end()];
+    expect(whole.detectedPath).toBe('result.sessions');
+    for (let split = 1; split < WRAPPED_JSON.length; split += 5) {
+      const parser = new JSONRecordParser({ recordPath: 'result.sessions' });
+      const rows = [...parser.push(WRAPPED_JSON.slice(0, split)), ...parser.push(WRAPPED_JSON.slice(split)), ...parser.end()];
+      expect(rows).toEqual(expected);
+    }
+  });
+
+  it('processes NDJSON line by line', async () => {
+    const file = new File([NDJSON], 'sessions.ndjson', { type: 'application/x-ndjson' });
+    const { evidence, records } = await processAirtelFile(file, 'caseN');
+    expect(records).toHaveLength(1);
+    expect(records[0].aParty).toBe('10.0.0.1');
+    expect(evidence.parseIssues?.[0]).toMatchObject({ rowNumber: 2, code: 'bad_ip' });
+  });
+});
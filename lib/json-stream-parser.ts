@@ -0,0 +1,305 @@
+// Incremental JSON and NDJSON record parsing for large IPDR dumps
+// The text is scanned structurally as it arrives; only one record's text is held at a
+// time, so multi-GB exports never go through a single JSON.parse. Records are the
+// elements of the array at the record path, or each top-level object (NDJSON, or a
+// single-record document). Nested objects are flattened to "parent/child" keys.
+
+export const JSON_EXTENSIONS = ['json', 'ndjson', 'jsonl'];
+
+// Wrapper keys searched when no record path is given
+export const DEFAULT_JSON_RECORD_KEYS = ['records', 'data', 'ipdr_records'];
+
+const INVALID_JSON_MESSAGE = 'Invalid JSON format. Please ensure the file contains valid JSON data.';
+
+export function isJSONFile(filename: string): boolean {
+  return JSON_EXTENSIONS.includes(filename.toLowerCase().split('.').pop() || '');
+}
+
+export function isNDJSONFile(filename: string): boolean {
+  return /\.(ndjson|jsonl)$/i.test(filename);
+}
+
+// "$.data.records" or "data.records" -> ['data', 'records']; "$" or "" is the document root
+export function parseJSONRecordPath(path: string): string[] {
+  return path.trim().replace(/^\$\.?/, '').split('.').filter(Boolean);
+}
+
+function toCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Flatten nested objects to path keys; arrays of scalars are joined like repeated XML elements
+export function flattenJSONRecord(record: Record<string, unknown>, prefix = '', row: Record<string, string> = {}) {
+  Object.keys(record).forEach(key => {
+    const value = record[key];
+    const path = prefix ? `${prefix}/${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      flattenJSONRecord(value as Record<string, unknown>, path, row);
+    } else if (Array.isArray(value)) {
+      row[path] = value.every(item => item === null || typeof item !== 'object')
+        ? value.map(toCell).join(';')
+        : JSON.stringify(value);
+    } else {
+      row[path] = toCell(value);
+    }
+  });
+  return row;
+}
+
+interface Frame {
+  type: 'object' | 'array';
+  key: string | null; // Last key read in an object
+  expectKey: boolean;
+  holdsRecords: boolean; // Array elements are records
+}
+
+export interface JSONRecordParserOptions {
+  // Where the record array lives; when omitted the wrapper keys are tried
+  recordPath?: string;
+  // Newline-delimited input: every top-level object is a record
+  ndjson?: boolean;
+}
+
+// Everything the parser carries between chunks, for parse checkpoints
+export interface JSONRecordParserState {
+  format: 'json';
+  stack: Frame[];
+  inString: boolean;
+  escaped: boolean;
+  inLiteral: boolean;
+  inKey: boolean;
+  key: string | null;
+  captureDepth: number;
+  captured: string;
+  headers: string[];
+  detectedPath: string | null;
+}
+
+export class JSONRecordParser {
+  private recordPath: string[] | null;
+  private ndjson: boolean;
+  private stack: Frame[] = [];
+  private inString = false;
+  private escaped = false;
+  private inLiteral = false;
+  private inKey = false;
+  private key: string | null = null; // Text of the object key being read, when it is collected
+  private captureDepth = -1; // Stack depth of the value being captured, -1 when none
+  private captureStart = 0; // Start of the capture within the current chunk
+  private captured = ''; // Capture text from earlier chunks
+  private headerSet = new Set<string>();
+  headers: string[] = []; // Every key seen so far, in first-seen order
+  detectedPath: string | null = null; // Where records were found ("$" for the root)
+
+  constructor(options: JSONRecordParserOptions = {}) {
+    this.recordPath = options.recordPath !== undefined ? parseJSONRecordPath(options.recordPath) : null;
+    this.ndjson = options.ndjson ?? false;
+  }
+
+  push(text: string): Array<Record<string, string>> {
+    const rows: Array<Record<string, string>> = [];
+    this.captureStart = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+          if (this.key !== null) this.key += ch;
+        } else if (ch === '\\') {
+          this.escaped = true;
+          if (this.key !== null) this.key += ch;
+        } else if (ch === '"') {
+          this.inString = false;
+          if (!this.inKey) {
+            this.endValue(text, i + 1, rows);
+          } else if (this.key !== null) {
+            this.top()!.key = JSON.parse(`"${this.key}"`);
+            this.key = null;
+          }
+          this.inKey = false;
+        } else if (this.key !== null) {
+          this.key += ch;
+        }
+        continue;
+      }
+
+      if (this.inLiteral) {
+        if (/[\s,\]}]/.test(ch)) {
+          this.inLiteral = false;
+          this.endValue(text, i, rows);
+        } else {
+          continue;
+        }
+      }
+
+      switch (ch) {
+        case ' ': case '\t': case '\r': case '\n':
+          break;
+        case '"': {
+          this.inString = true;
+          const top = this.top();
+          if (top?.type === 'object' && top.expectKey) {
+            // Keys only matter above the records, so they are not collected inside one
+            // (apart from a top-level object's own keys, which may name a wrapper array)
+            this.inKey = true;
+            this.key = this.captureDepth < 0 || (this.captureDepth === 0 && this.stack.length === 1) ? '' : null;
+            top.expectKey = false;
+          } else {
+            this.startValue(i, ch);
+          }
+          break;
+        }
+        case '{':
+        case '[':
+          this.startValue(i, ch);
+          this.stack.push({
+            type: ch === '{' ? 'object' : 'array',
+            key: null,
+            expectKey: ch === '{',
+            holdsRecords: ch === '[' && this.isRecordArray()
+          });
+          break;
+        case '}':
+        case ']':
+          if (!this.stack.pop()) throw new Error(INVALID_JSON_MESSAGE);
+          this.endValue(text, i + 1, rows);
+          break;
+        case ':':
+          break;
+        case ',': {
+          const top = this.top();
+          if (top?.type === 'object') top.expectKey = true;
+          break;
+        }
+        default:
+          this.inLiteral = true;
+          this.startValue(i, ch);
+      }
+    }
+
+    if (this.captureDepth >= 0) {
+      this.captured += text.slice(this.captureStart);
+    }
+    return rows;
+  }
+
+  end(): Array<Record<string, string>> {
+    const rows: Array<Record<string, string>> = [];
+    if (this.inLiteral) {
+      this.inLiteral = false;
+      this.endValue('', 0, rows);
+    }
+    if (this.inString || this.stack.length > 0) {
+      throw new Error(INVALID_JSON_MESSAGE);
+    }
+    return rows;
+  }
+
+  saveState(): JSONRecordParserState {
+    return {
+      format: 'json',
+      stack: this.stack.map(frame => ({ ...frame })),
+      inString: this.inString,
+      escaped: this.escaped,
+      inLiteral: this.inLiteral,
+      inKey: this.inKey,
+      key: this.key,
+      captureDepth: this.captureDepth,
+      captured: this.captured,
+      headers: [...this.headers],
+      detectedPath: this.detectedPath
+    };
+  }
+
+  // Checkpoints are taken between chunks, when all capture text is in `captured`
+  restoreState(state: JSONRecordParserState) {
+    this.stack = state.stack.map(frame => ({ ...frame }));
+    this.inString = state.inString;
+    this.escaped = state.escaped;
+    this.inLiteral = state.inLiteral;
+    this.inKey = state.inKey;
+    this.key = state.key;
+    this.captureDepth = state.captureDepth;
+    this.captured = state.captured;
+    this.headers = [...state.headers];
+    this.headerSet = new Set(state.headers);
+    this.detectedPath = state.detectedPath;
+  }
+
+  private top(): Frame | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  // Keys of the objects enclosing the value being opened
+  private currentPath(frames = this.stack): string[] | null {
+    const path: string[] = [];
+    for (const frame of frames) {
+      if (frame.type !== 'object' || frame.key === null) return null;
+      path.push(frame.key);
+    }
+    return path;
+  }
+
+  private isRecordArray(): boolean {
+    if (this.captureDepth > 0) return false;
+    const path = this.currentPath();
+    if (!path) return false;
+    if (this.recordPath) {
+      return path.length === this.recordPath.length && path.every((key, idx) => key === this.recordPath![idx]);
+    }
+    if (path.length === 0) return true;
+    if (this.ndjson || path.length !== 1 || !DEFAULT_JSON_RECORD_KEYS.includes(path[0])) return false;
+    // A wrapper array: the enclosing object is not itself a record
+    this.captureDepth = -1;
+    this.captured = '';
+    return true;
+  }
+
+  private startValue(index: number, ch: string) {
+    if (this.captureDepth >= 0) return;
+    const parent = this.top();
+    // Top-level objects are records unless a record path points elsewhere
+    const isRecord = parent
+      ? parent.type === 'array' && parent.holdsRecords
+      : ch === '{' && (this.recordPath === null || this.recordPath.length === 0);
+    if (isRecord) {
+      this.captureDepth = this.stack.length;
+      this.captureStart = index;
+      this.captured = '';
+    }
+  }
+
+  private endValue(text: string, endIndex: number, rows: Array<Record<string, string>>) {
+    if (this.captureDepth !== this.stack.length) return;
+    const recordText = this.captured + text.slice(this.captureStart, endIndex);
+    this.captureDepth = -1;
+    this.captured = '';
+
+    let value: unknown;
+    try {
+      value = JSON.parse(recordText);
+    } catch (error) {
+      console.error('JSON parsing error:', error);
+      throw new Error(INVALID_JSON_MESSAGE);
+    }
+    // Scalars in a record array (or a bare top-level string) carry no fields
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return;
+
+    if (this.detectedPath === null) {
+      const path = this.stack.length > 0 ? this.currentPath(this.stack.slice(0, -1)) : [];
+      this.detectedPath = path && path.length > 0 ? path.join('.') : '$';
+    }
+    const row = flattenJSONRecord(value as Record<string, unknown>);
+    Object.keys(row).forEach(key => {
+      if (!this.headerSet.has(key)) {
+        this.headerSet.add(key);
+        this.headers.push(key);
+      }
+    });
+    rows.push(row);
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { ParseCheckpoint, ParseCheckpointStore } from './parse-checkpoints';
+import { parseLargeFile, parseFileOnMainThread } from './processing';
+import { globalCoC } from './chain-of-custody';
+import { IPDRRecord } from './types';
+
+// Keeps clones, as IndexedDB would
+class MemoryCheckpointStore implements ParseCheckpointStore {
+  checkpoints = new Map<string, ParseCheckpoint>();
+  batches = new Map<string, IPDRRecord[][]>();
+
+  async load(key: string) {
+    const checkpoint = this.checkpoints.get(key);
+    if (!checkpoint) return null;
+    return structuredClone({ checkpoint, records: (this.batches.get(key) || []).flat() });
+  }
+
+  async save(checkpoint: ParseCheckpoint, records: IPDRRecord[]) {
+    this.checkpoints.set(checkpoint.key, structuredClone(checkpoint));
+    this.batches.set(checkpoint.key, [...(this.batches.get(checkpoint.key) || []), structuredClone(records)]);
+  }
+
+  async list(caseId?: string) {
+    return [...this.checkpoints.values()].filter(checkpoint => !caseId || checkpoint.caseId === caseId);
+  }
+
+  async clear(key: string) {
+    this.checkpoints.delete(key);
+    this.batches.delete(key);
+  }
+}
+
+const HEADER = 'SubscriberID,SourceIP,SourcePort,DestinationIP,DestinationPort,Protocol,StartTime,EndTime,Bytes,Note';
+const CSV = [
+  HEADER,
+  ...Array.from({ length: 60 }, (_, i) =>
+    `SUB${i},10.0.0.${i % 250},${5000 + i},8.8.8.8,53,UDP,2025-08-20 10:${String(i).padStart(2, '0')}:00,2025-08-20 10:${String(i).padStart(2, '0')}:05,${i},"café ☕ ${i}"`)
+].join('\n');
+const XML = `<IPDRDoc>${Array.from({ length: 30 }, (_, i) =>
+  `<IPDR><SourceIP>10.0.0.${i}</SourceIP><DestinationIP>1.1.1.1</DestinationIP><Protocol>TCP</Protocol><StartTime>2025-08-20 10:00:${String(i).padStart(2, '0')}</StartTime><EndTime>2025-08-20 10:01:00</EndTime><Note>naïve &amp; ü</Note></IPDR>`).join('')}</IPDRDoc>`;
+const JSON_TEXT = JSON.stringify({ records: Array.from({ length: 30 }, (_, i) =>
+  ({ SourceIP: `10.0.0.${i}`, DestinationIP: '1.1.1.1', Protocol: 'UDP', StartTime: '2025-08-20T10:00:00Z', EndTime: '2025-08-20T10:00:09Z', Note: 'ß "quoted" €' })) });
+
+describe('parse checkpoints', () => {
+  it.each([
+    ['sessions.csv', CSV],
+    ['sessions.xml', XML],
+    ['sessions.json', JSON_TEXT]
+  ])('resumes an interrupted parse of %s with the same records and hash', async (name, text) => {
+    const file = new File([text], name, { lastModified: 1 });
+    const reference = await parseFileOnMainThread(file, 'caseR', 'fileR', {}, () => {}, { chunkSize: 101 });
+
+    const checkpoints = new MemoryCheckpointStore();
+    const controller = new AbortController();
+    await expect(parseLargeFile(file, 'caseR', 'fileR', { signal: controller.signal }, chunk => {
+      if (chunk.chunkIndex === 11) controller.abort();
+    }, { checkpoints, checkpointEvery: 3, chunkSize: 101 })).rejects.toThrow('cancelled');
+
+    const [checkpoint] = await checkpoints.list('caseR');
+    expect(checkpoint.state.chunkIndex).toBe(9);
+    expect(checkpoint.state.byteOffset).toBe(909);
+
+    const chunks: number[] = [];
+    const resumed = await parseLargeFile(file, 'caseR', 'upload2', {}, chunk => chunks.push(chunk.chunkIndex), {
+      checkpoints, checkpointEvery: 3, chunkSize: 101
+    });
+    expect(chunks[0]).toBe(10);
+    expect(resumed.fileId).toBe('fileR');
+    expect(resumed.resumedFrom?.state.byteOffset).toBe(909);
+    expect(resumed.records).toEqual(reference.records);
+    expect(resumed.summary).toEqual(reference.summary);
+    expect(await checkpoints.list()).toHaveLength(0);
+  });
+
+  it('streams each interval once across a resume, keeping no records in the checkpoint', async () => {
+    const file = new File([CSV], 'sessions.csv', { lastModified: 1 });
+    const reference = await parseFileOnMainThread(file, 'caseR', 'fileR', {}, () => {}, { chunkSize: 101 });
+
+    const checkpoints = new MemoryCheckpointStore();
+    const streamed: IPDRRecord[][] = [];
+    const onRecords = async (records: IPDRRecord[]) => { streamed.push(records); };
+    const controller = new AbortController();
+    await expect(parseLargeFile(file, 'caseR', 'fileR', { signal: controller.signal }, chunk => {
+      if (chunk.chunkIndex === 11) controller.abort();
+    }, { checkpoints, checkpointEvery: 3, chunkSize: 101, onRecords })).rejects.toThrow('cancelled');
+    const [checkpoint] = await checkpoints.list('caseR');
+    expect(checkpoints.batches.get(checkpoint.key)?.flat()).toEqual([]);
+
+    const resumed = await parseLargeFile(file, 'caseR', 'upload2', {}, () => {}, {
+      checkpoints, checkpointEvery: 3, chunkSize: 101, onRecords
+    });
+    expect(resumed.records).toEqual([]);
+    expect(resumed.summary.recordCount).toBe(reference.records.length);
+    expect(streamed.length).toBeGreaterThan(2);
+    expect(streamed.flat()).toEqual(reference.records);
+  });
+
+  it('logs the resume and ignores checkpoints from a different file', async () => {
+    const file = new File([CSV], 'sessions.csv', { lastModified: 1 });
+    const checkpoints = new MemoryCheckpointStore();
+    const controller = new AbortController();
+    await expect(parseLargeFile(file, 'caseR', 'fileR', { signal: controller.signal }, chunk => {
+      if (chunk.chunkIndex === 4) controller.abort();
+    }, { checkpoints, checkpointEvery: 2, chunkSize: 101 })).rejects.toThrow();
+
+    const edited = new File([CSV.replace('SUB1,', 'SUBX,')], 'sessions.csv', { lastModified: 1 });
+    const fresh = await parseLargeFile(edited, 'caseR', 'fileE', {}, () => {}, { checkpoints, chunkSize: 101 });
+    expect(fresh.resumedFrom).toBeUndefined();
+    expect(fresh.fileId).toBe('fileE');
+
+    const again = new AbortController();
+    await expect(parseLargeFile(file, 'caseR', 'fileR', { signal: again.signal }, chunk => {
+      if (chunk.chunkIndex === 4) again.abort();
+    }, { checkpoints, checkpointEvery: 2, chunkSize: 101 })).rejects.toThrow();
+    const resumed = await parseLargeFile(file, 'caseR', 'upload3', {}, () => {}, { checkpoints, chunkSize: 101 });
+    expect(resumed.resumedFrom).toBeDefined();
+    const entry = globalCoC.getAuditTrail('fileR').filter(e => e.metadata.action === 'parse_resumed').pop();
+    expect(entry?.metadata.uploadId).toBe('upload3');
+  });
+});
@@ -0,0 +1,99 @@
+// Parse checkpoints for large IPDR files
+// Every few slices the parse state (byte offset, rows read, hash state, parser state)
+// is saved together with the records parsed since the previous checkpoint, in one
+// IndexedDB transaction. A parse interrupted by an error, a cancel or a page reload
+// continues from the last checkpoint when the same file is loaded into the same case.
+
+import { IPDRRecord } from './types';
+import type { ParseSessionState } from './processing';
+import { DatabaseSchema, openDatabase, promisifyRequest, transactionDone } from './indexed-db';
+
+export interface ParseCheckpoint {
+  key: string;
+  caseId: string;
+  fileId: string; // Evidence ID of the interrupted parse; a resumed parse keeps it
+  filename: string;
+  size: number;
+  lastModified: number;
+  sampleSha256: string; // Digest of the bytes just before the offset, to recognise the same file
+  state: ParseSessionState;
+  savedAt: Date;
+}
+
+export interface ParseCheckpointStore {
+  load(key: string): Promise<{ checkpoint: ParseCheckpoint; records: IPDRRecord[] } | null>;
+  // Replaces the checkpoint and appends the records parsed since the previous one
+  save(checkpoint: ParseCheckpoint, records: IPDRRecord[]): Promise<void>;
+  list(caseId?: string): Promise<ParseCheckpoint[]>;
+  clear(key: string): Promise<void>;
+}
+
+// The same file (by name, size and modification time) loaded into the same case
+export function parseCheckpointKey(file: File, caseId: string): string {
+  return `${caseId}|${file.name}|${file.size}|${file.lastModified}`;
+}
+
+const CHECKPOINTS = 'checkpoints';
+const RECORD_BATCHES = 'recordBatches';
+
+const CHECKPOINT_DB: DatabaseSchema = {
+  name: 'ipdr-parse-checkpoints',
+  version: 1,
+  upgrade: (db) => {
+    db.createObjectStore(CHECKPOINTS, { keyPath: 'key' });
+    db.createObjectStore(RECORD_BATCHES, { autoIncrement: true }).createIndex('checkpointKey', 'checkpointKey');
+  }
+};
+
+export class IndexedDBCheckpointStore implements ParseCheckpointStore {
+  private open(): Promise<IDBDatabase> {
+    return openDatabase(CHECKPOINT_DB);
+  }
+
+  async load(key: string) {
+    const db = await this.open();
+    const transaction = db.transaction([CHECKPOINTS, RECORD_BATCHES], 'readonly');
+    const checkpoint = await promisifyRequest<ParseCheckpoint | undefined>(transaction.objectStore(CHECKPOINTS).get(key));
+    if (!checkpoint) return null;
+    // Batches come back in key order, which is the order they were saved in
+    const batches = await promisifyRequest<Array<{ records: IPDRRecord[] }>>(
+      transaction.objectStore(RECORD_BATCHES).index('checkpointKey').getAll(key)
+    );
+    return { checkpoint, records: batches.flatMap(batch => batch.records) };
+  }
+
+  async save(checkpoint: ParseCheckpoint, records: IPDRRecord[]) {
+    const db = await this.open();
+    const transaction = db.transaction([CHECKPOINTS, RECORD_BATCHES], 'readwrite');
+    transaction.objectStore(CHECKPOINTS).put(checkpoint);
+    transaction.objectStore(RECORD_BATCHES).add({ checkpointKey: checkpoint.key, records });
+    await transactionDone(transaction);
+  }
+
+  async list(caseId?: string) {
+    const db = await this.open();
+    const checkpoints = await promisifyRequest<ParseCheckpoint[]>(
+      db.transaction(CHECKPOINTS, 'readonly').objectStore(CHECKPOINTS).getAll()
+    );
+    return caseId ? checkpoints.filter(checkpoint => checkpoint.caseId === caseId) : checkpoints;
+  }
+
+  async clear(key: string) {
+    const db = await this.open();
+    const transaction = db.transaction([CHECKPOINTS, RECORD_BATCHES], 'readwrite');
+    transaction.objectStore(CHECKPOINTS).delete(key);
+    const batches = transaction.objectStore(RECORD_BATCHES);
+    const batchKeys = await promisifyRequest(batches.index('checkpointKey').getAllKeys(key));
+    batchKeys.forEach(batchKey => batches.delete(batchKey));
+    await transactionDone(transaction);
+  }
+}
+
+let sharedStore: ParseCheckpointStore | null = null;
+
+// The browser's checkpoint store, or null where IndexedDB is unavailable (server rendering, tests)
+export function getParseCheckpointStore(): ParseCheckpointStore | null {
+  if (typeof indexedDB === 'undefined') return null;
+  if (!sharedStore) sharedStore = new IndexedDBCheckpointStore();
+  return sharedStore;
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { parseDelimited, normalizeAirtelRows } from './processing';
+import { ParseIssueCollector, rejectedRowsToCSV } from './parse-issues';
+
+const MIXED_CSV = `SubscriberID,SourceIP,SourcePort,DestinationIP,DestinationPort,Protocol,StartTime,EndTime,Bytes
+SUB001,10.0.0.1,5050,142.250.183.14,443,TCP,2025-08-20 10:00:05,2025-08-20 10:00:15,2048
+SUB002,,5051,142.250.183.14,443,TCP,2025-08-20 10:01:05,2025-08-20 10:01:15,100
+SUB003,10.0.0.3,5052,999.1.1.1,443,TCP,2025-08-20 10:02:05,2025-08-20 10:02:15,100
+SUB004,10.0.0.4,5053,142.250.183.14,443,TCP,yesterday,2025-08-20 10:03:15,100
+SUB005,10.0.0.5,5054,2404:6800:4009:80b::200e,443,TCP,2025-08-20 10:04:15,2025-08-20 10:04:05,100`;
+
+describe('parse issues', () => {
+  it('records each rejected row with its reason and keeps warned rows', async () => {
+    const issues = new ParseIssueCollector();
+    const records = await normalizeAirtelRows(parseDelimited(MIXED_CSV), 'case1', 'file1', 'airtel', { issues });
+
+    expect(records.map(r => r.aParty)).toEqual(['10.0.0.1', '10.0.0.5']);
+    expect(records[1].duration).toBe(0);
+    expect(issues.rejectedRows).toBe(3);
+    expect(issues.warningCount).toBe(1);
+    expect(issues.issues.map(i => [i.rowNumber, i.code, i.severity])).toEqual([
+      [3, 'missing_field', 'error'],
+      [4, 'bad_ip', 'error'],
+      [5, 'bad_date', 'error'],
+      [6, 'negative_duration', 'warning']
+    ]);
+  });
+
+  it('exports only rejected rows as CSV', async () => {
+    const issues = new ParseIssueCollector();
+    await normalizeAirtelRows(parseDelimited(MIXED_CSV), 'case1', 'file1', 'airtel', { issues });
+    const lines = rejectedRowsToCSV(issues.issues).trim().split('\r\n');
+
+    expect(lines[0]).toBe('Row,Severity,Reason,Message,Raw Row');
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toContain('Bad IP address');
+    expect(lines[2]).toContain('SUB003,10.0.0.3');
+  });
+});
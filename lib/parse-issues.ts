@@ -0,0 +1,136 @@
+// Structured parse issues for IPDR ingestion
+// Every row that is rejected (or kept with a problem) is recorded with its row
+// number, raw content and a reason code, so the excluded data can be produced on request.
+
+import { ParseIssue, ParseIssueCode, ParseIssueSeverity } from './types';
+import { ExtractedFields, ParserProfile } from './parser-profiles';
+import { parseTimestamp } from './timestamp-parser';
+import { validateIPAddress } from '@/utils/formatters';
+
+export const PARSE_ISSUE_LABELS: Record<ParseIssueCode, string> = {
+  missing_field: 'Missing field',
+  bad_date: 'Bad date',
+  negative_duration: 'Negative duration',
+  bad_ip: 'Bad IP address',
+  unreadable_row: 'Unreadable row'
+};
+
+// Issues kept per evidence file; counts stay exact beyond this
+export const MAX_STORED_PARSE_ISSUES = 5000;
+
+export interface ParseIssueCollectorState {
+  issues: ParseIssue[];
+  rejectedRows: number;
+  warningCount: number;
+  countsByCode: Record<ParseIssueCode, number>;
+}
+
+export class ParseIssueCollector {
+  readonly issues: ParseIssue[] = [];
+  rejectedRows = 0;
+  warningCount = 0;
+  sheet?: string; // Workbook sheet the current rows come from
+  readonly countsByCode: Record<ParseIssueCode, number> = {
+    missing_field: 0,
+    bad_date: 0,
+    negative_duration: 0,
+    bad_ip: 0,
+    unreadable_row: 0
+  };
+
+  add(rowNumber: number, row: Record<string, string>, code: ParseIssueCode, severity: ParseIssueSeverity, message: string) {
+    this.countsByCode[code]++;
+    if (severity === 'error') {
+      this.rejectedRows++;
+    } else {
+      this.warningCount++;
+    }
+    if (this.issues.length < MAX_STORED_PARSE_ISSUES) {
+      this.issues.push({ rowNumber, sheet: this.sheet, rawLine: formatRawLine(row), code, severity, message });
+    }
+  }
+
+  saveState(): ParseIssueCollectorState {
+    return {
+      issues: [...this.issues],
+      rejectedRows: this.rejectedRows,
+      warningCount: this.warningCount,
+      countsByCode: { ...this.countsByCode }
+    };
+  }
+
+  restoreState(state: ParseIssueCollectorState) {
+    this.issues.splice(0, this.issues.length, ...state.issues);
+    this.rejectedRows = state.rejectedRows;
+    this.warningCount = state.warningCount;
+    Object.assign(this.countsByCode, state.countsByCode);
+  }
+
+  get truncated(): boolean {
+    return this.rejectedRows + this.warningCount > this.issues.length;
+  }
+}
+
+export function escapeCSVValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Re-serialize a parsed row as a CSV line
+export function formatRawLine(row: Record<string, string>): string {
+  return Object.values(row).map(escapeCSVValue).join(',');
+}
+
+// Validate a row's required fields; returns parsed timestamps, or null when the row is rejected
+export function validateRow(
+  fields: ExtractedFields,
+  row: Record<string, string>,
+  rowNumber: number,
+  profile: ParserProfile,
+  issues?: ParseIssueCollector
+): { start: Date; end: Date } | null {
+  const missing = (['sourceIP', 'destinationIP', 'startTime', 'endTime'] as const).filter(field => !fields[field]);
+  if (missing.length > 0) {
+    issues?.add(rowNumber, row, 'missing_field', 'error', `Missing ${missing.join(', ')}`);
+    return null;
+  }
+
+  const badIP = [fields.sourceIP, fields.destinationIP].find(ip => !validateIPAddress(ip));
+  if (badIP) {
+    issues?.add(rowNumber, row, 'bad_ip', 'error', `Invalid IP address "${badIP}"`);
+    return null;
+  }
+
+  const start = parseTimestamp(fields.startTime, profile.timestampFormats, profile.timezone);
+  const end = parseTimestamp(fields.endTime, profile.timestampFormats, profile.timezone);
+  if (!start || !end) {
+    const value = !start ? fields.startTime : fields.endTime;
+    issues?.add(rowNumber, row, 'bad_date', 'error', `Unrecognised timestamp "${value}" for ${profile.name}`);
+    return null;
+  }
+
+  if (end.getTime() < start.getTime()) {
+    issues?.add(rowNumber, row, 'negative_duration', 'warning', 'End time is before start time; duration recorded as 0');
+  }
+
+  return { start, end };
+}
+
+// Rejected rows as CSV, for disclosure of what was excluded and why
+export function rejectedRowsToCSV(issues: ParseIssue[]): string {
+  // Workbook exports also say which sheet each row came from
+  const withSheet = issues.some(issue => issue.sheet);
+  const lines = [`${withSheet ? 'Sheet,' : ''}Row,Severity,Reason,Message,Raw Row`];
+  issues
+    .filter(issue => issue.severity === 'error')
+    .forEach(issue => {
+      lines.push([
+        ...(withSheet ? [issue.sheet || ''] : []),
+        String(issue.rowNumber),
+        issue.severity,
+        PARSE_ISSUE_LABELS[issue.code],
+        issue.message,
+        issue.rawLine
+      ].map(escapeCSVValue).join(','));
+    });
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { ParseWorkerPool, ParseWorkerLike, ParseWorkerRequest, ParseWorkerResponse } from './parse-worker-pool';
+import { createParseWorkerHandler } from './parse-worker';
+import { parseFileOnMainThread, ParsedChunkProgress } from './processing';
+
+const HEADER = 'SubscriberID,SourceIP,SourcePort,DestinationIP,DestinationPort,Protocol,StartTime,EndTime,Bytes';
+const CSV = [
+  HEADER,
+  ...Array.from({ length: 40 }, (_, i) =>
+    `SUB${i},10.0.0.${i % 250},${5000 + i},8.8.8.8,53,UDP,2025-08-20 10:${String(i).padStart(2, '0')}:00,2025-08-20 10:${String(i).padStart(2, '0')}:05,${i * 10}`),
+  'SUB_BAD,not-an-ip,1,8.8.8.8,53,UDP,2025-08-20 11:00:00,2025-08-20 11:00:05,1'
+].join('\n');
+
+// Runs the worker handler in-process, with messages cloned and delivered asynchronously like a real worker
+class FakeParseWorker implements ParseWorkerLike {
+  onmessage: ((event: MessageEvent<ParseWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+  queued = 0;
+  maxQueued = 0;
+  private handle = createParseWorkerHandler(response => {
+    if (response.type !== 'done') this.queued--;
+    setTimeout(() => {
+      if (!this.terminated) this.onmessage?.({ data: structuredClone(response) } as MessageEvent<ParseWorkerResponse>);
+    }, 0);
+  });
+
+  postMessage(message: ParseWorkerRequest) {
+    if (message.type === 'chunk') {
+      this.queued++;
+      this.maxQueued = Math.max(this.maxQueued, this.queued);
+    }
+    const copy = structuredClone(message);
+    setTimeout(() => this.handle(copy), 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe('parse worker pool', () => {
+  it('parses in a worker exactly as on the main thread, with bounded queueing', async () => {
+    const file = new File([CSV], 'sessions.csv', { type: 'text/csv' });
+    const workers: FakeParseWorker[] = [];
+    const pool = new ParseWorkerPool(() => {
+      const worker = new FakeParseWorker();
+      workers.push(worker);
+      return worker;
+    });
+
+    const progress: ParsedChunkProgress[] = [];
+    const inWorker = await pool.parse(file, 'caseW', 'fileW', {}, chunk => progress.push(chunk), { chunkSize: 97, maxInFlight: 2 });
+    const onMainThread = await parseFileOnMainThread(file, 'caseW', 'fileW', {}, () => {}, { chunkSize: 97 });
+
+    expect(inWorker.records).toHaveLength(40);
+    expect(inWorker.records).toEqual(onMainThread.records);
+    expect(inWorker.summary).toEqual(onMainThread.summary);
+    expect(inWorker.summary.rejectedRows).toBe(1);
+    expect(progress.map(p => p.chunkIndex)).toEqual(progress.map((_, i) => i + 1));
+    expect(progress[progress.length - 1].processedBytes).toBe(file.size);
+    expect(workers[0].maxQueued).toBeLessThanOrEqual(2);
+
+    // The worker goes back to the pool for the next file
+    await pool.parse(file, 'caseW', 'fileW2', {}, () => {}, { chunkSize: 512 });
+    expect(workers).toHaveLength(1);
+  });
+
+  it('cancels a parse and replaces the worker', async () => {
+    const file = new File([CSV], 'sessions.csv', { type: 'text/csv' });
+    const workers: FakeParseWorker[] = [];
+    const pool = new ParseWorkerPool(() => {
+      const worker = new FakeParseWorker();
+      workers.push(worker);
+      return worker;
+    });
+    const controller = new AbortController();
+
+    const parsing = pool.parse(file, 'caseW', 'fileW', { signal: controller.signal }, chunk => {
+      if (chunk.chunkIndex === 2) controller.abort();
+    }, { chunkSize: 97 });
+
+    await expect(parsing).rejects.toThrow('File processing was cancelled');
+    expect(workers[0].terminated).toBe(true);
+
+    const { records } = await pool.parse(file, 'caseW', 'fileW', {}, () => {}, { chunkSize: 512 });
+    expect(records).toHaveLength(40);
+    expect(workers).toHaveLength(2);
+  });
+
+  it('rejects a file missing required columns, as the small-file path does', async () => {
+    const file = new File(['foo,bar\n1,2\n3,4'], 'bad.csv', { type: 'text/csv' });
+    const pool = new ParseWorkerPool(() => new FakeParseWorker());
+    const message = /^Missing required columns for Vodafone Idea \(Vi\) IPDR: .*\. Found headers: foo, bar$/;
+
+    await expect(pool.parse(file, 'caseW', 'fileW', { operator: 'vodafone' }, () => {}, { chunkSize: 4 })).rejects.toThrow(message);
+    await expect(parseFileOnMainThread(file, 'caseW', 'fileW', { operator: 'vodafone' }, () => {}, { chunkSize: 4 })).rejects.toThrow(message);
+  });
+});
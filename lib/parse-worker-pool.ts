@@ -0,0 +1,214 @@
+// Pool of parse workers for large IPDR files
+// Each file is parsed by one worker (row parsing is sequential), so several files
+// parse side by side. Slices are transferred to the worker rather than copied and
+// only a few are queued at a time, so reading never runs far ahead of parsing.
+
+import { IPDRRecord } from './types';
+import {
+  FileProcessingOptions,
+  ParsedChunkProgress,
+  ParseRunOptions,
+  ParseSessionState,
+  ParseSessionSummary,
+  LARGE_FILE_CHUNK_SIZE,
+  blobToArrayBuffer,
+  throwIfCancelled
+} from './processing';
+
+const MAX_PARSE_WORKERS = 4;
+// Slices queued in a worker before reading waits for it to catch up
+const DEFAULT_MAX_IN_FLIGHT = 2;
+
+// Options as sent to a worker; AbortSignals cannot be cloned
+export type ParseJobOptions = Omit<FileProcessingOptions, 'signal'>;
+
+export type ParseWorkerRequest =
+  | { type: 'start'; jobId: number; filename: string; caseId: string; fileId: string; options: ParseJobOptions; resumeFrom?: ParseSessionState }
+  | { type: 'chunk'; jobId: number; buffer: ArrayBuffer; checkpoint: boolean }
+  | { type: 'end'; jobId: number };
+
+export type ParseWorkerResponse =
+  | {
+      type: 'chunk';
+      jobId: number;
+      chunkIndex: number;
+      records: IPDRRecord[];
+      processedBytes: number;
+      processedRows: number;
+      checkpoint?: ParseSessionState;
+    }
+  | { type: 'done'; jobId: number; records: IPDRRecord[]; summary: ParseSessionSummary }
+  | { type: 'error'; jobId: number; message: string };
+
+// The part of Worker the pool uses
+export interface ParseWorkerLike {
+  postMessage(message: ParseWorkerRequest, transfer?: Transferable[]): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<ParseWorkerResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export class ParseWorkerPool {
+  private idle: ParseWorkerLike[] = [];
+  private waiting: Array<(worker: ParseWorkerLike) => void> = [];
+  private workerCount = 0;
+  private nextJobId = 0;
+
+  constructor(
+    private createWorker: () => ParseWorkerLike,
+    private size = MAX_PARSE_WORKERS
+  ) {}
+
+  // Parse a file in the next free worker; onChunk fires as each slice is parsed.
+  // Returns the records parsed by this run (not those before a resumed checkpoint).
+  async parse(
+    file: File,
+    caseId: string,
+    fileId: string,
+    options: FileProcessingOptions,
+    onChunk: (chunk: ParsedChunkProgress) => void,
+    {
+      chunkSize = LARGE_FILE_CHUNK_SIZE,
+      maxInFlight = DEFAULT_MAX_IN_FLIGHT,
+      resumeFrom,
+      checkpointEvery,
+      onCheckpoint,
+      releaseCheckpointed
+    }: ParseRunOptions = {}
+  ): Promise<{ records: IPDRRecord[]; summary: ParseSessionSummary }> {
+    const { signal, onRecords, ...jobOptions } = options;
+    throwIfCancelled(signal);
+
+    const worker = await this.acquire();
+    const jobId = ++this.nextJobId;
+    const records: IPDRRecord[] = [];
+    let checkpointFrom = 0; // First record not yet handed to onCheckpoint
+
+    return new Promise((resolve, reject) => {
+      let inFlight = 0;
+      let settled = false;
+      let wake: (() => void) | null = null;
+      const wakeReader = () => {
+        const resume = wake;
+        wake = null;
+        resume?.();
+      };
+
+      const finish = (error: Error | null, result?: { records: IPDRRecord[]; summary: ParseSessionSummary }) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        worker.onmessage = null;
+        worker.onerror = null;
+        wakeReader();
+        if (error) {
+          // The worker may still hold queued slices; start the next job on a fresh one
+          this.discard(worker);
+          reject(error);
+        } else {
+          this.release(worker);
+          resolve(result!);
+        }
+      };
+      const onAbort = () => finish(new Error('File processing was cancelled'));
+      signal?.addEventListener('abort', onAbort);
+
+      worker.onmessage = (event) => {
+        const response = event.data;
+        if (response.jobId !== jobId) return;
+        switch (response.type) {
+          case 'chunk':
+            records.push(...response.records);
+            inFlight--;
+            onChunk({ processedBytes: response.processedBytes, processedRows: response.processedRows, chunkIndex: response.chunkIndex });
+            if (response.checkpoint) {
+              onCheckpoint?.(response.checkpoint, records.slice(checkpointFrom));
+              if (releaseCheckpointed) records.length = 0;
+              checkpointFrom = records.length;
+            }
+            wakeReader();
+            break;
+          case 'done':
+            finish(null, { records: [...records, ...response.records], summary: response.summary });
+            break;
+          case 'error':
+            finish(new Error(response.message));
+            break;
+        }
+      };
+      worker.onerror = (event) => finish(new Error(event.message || 'Parse worker failed'));
+
+      worker.postMessage({ type: 'start', jobId, filename: file.name, caseId, fileId, options: jobOptions, resumeFrom });
+
+      const feed = async () => {
+        let offset = resumeFrom?.byteOffset || 0;
+        let chunkIndex = resumeFrom?.chunkIndex || 0;
+        while (offset < file.size && !settled) {
+          while (inFlight >= maxInFlight && !settled) {
+            await new Promise<void>(resume => { wake = resume; });
+          }
+          if (settled) return;
+          const buffer = await blobToArrayBuffer(file.slice(offset, offset + chunkSize));
+          if (settled) return;
+          offset += buffer.byteLength;
+          inFlight++;
+          // No checkpoint after the last slice: the parse is about to finish
+          const checkpoint = !!onCheckpoint && !!checkpointEvery && ++chunkIndex % checkpointEvery === 0 && offset < file.size;
+          worker.postMessage({ type: 'chunk', jobId, buffer, checkpoint }, [buffer]);
+        }
+        if (!settled) worker.postMessage({ type: 'end', jobId });
+      };
+      feed().catch(error => finish(error instanceof Error ? error : new Error(String(error))));
+    });
+  }
+
+  terminate() {
+    this.idle.forEach(worker => worker.terminate());
+    this.idle = [];
+    this.workerCount = 0;
+  }
+
+  private async acquire(): Promise<ParseWorkerLike> {
+    const idle = this.idle.pop();
+    if (idle) return idle;
+    if (this.workerCount < this.size) {
+      this.workerCount++;
+      return this.createWorker();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(worker: ParseWorkerLike) {
+    const next = this.waiting.shift();
+    if (next) {
+      next(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+
+  private discard(worker: ParseWorkerLike) {
+    worker.terminate();
+    this.workerCount--;
+    const next = this.waiting.shift();
+    if (next) {
+      this.workerCount++;
+      next(this.createWorker());
+    }
+  }
+}
+
+let sharedPool: ParseWorkerPool | null = null;
+
+// The app-wide pool, or null where workers are unavailable (server rendering, tests)
+export function getParseWorkerPool(): ParseWorkerPool | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+  if (!sharedPool) {
+    const size = Math.max(1, Math.min(MAX_PARSE_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+    sharedPool = new ParseWorkerPool(
+      () => new Worker(new URL('./parse-worker.ts', import.meta.url), { type: 'module' }),
+      size
+    );
+  }
+  return sharedPool;
+}
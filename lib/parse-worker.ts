@@ -0,0 +1,58 @@
+// Parse worker: runs a FileParseSession for each file the pool hands it
+// Requests are handled strictly in order; a slice is only parsed once the previous one is done.
+
+import { FileParseSession } from './processing';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parse-worker-pool';
+
+export function createParseWorkerHandler(post: (response: ParseWorkerResponse) => void) {
+  let session: FileParseSession | null = null;
+  let jobId = 0;
+  let queue = Promise.resolve();
+
+  const handle = async (request: ParseWorkerRequest) => {
+    if (request.type === 'start') {
+      jobId = request.jobId;
+      try {
+        session = new FileParseSession(request.filename, request.caseId, request.fileId, request.options, request.resumeFrom);
+      } catch (error) {
+        session = null;
+        post({ type: 'error', jobId, message: error instanceof Error ? error.message : 'File processing failed' });
+      }
+      return;
+    }
+    // Slices of a failed or replaced job are dropped
+    if (!session || request.jobId !== jobId) return;
+
+    try {
+      if (request.type === 'chunk') {
+        const records = await session.push(new Uint8Array(request.buffer));
+        post({
+          type: 'chunk',
+          jobId,
+          chunkIndex: session.chunkIndex,
+          records,
+          processedBytes: session.bytesRead,
+          processedRows: session.recordCount,
+          checkpoint: request.checkpoint ? session.saveState() : undefined
+        });
+      } else {
+        const { records, summary } = await session.end();
+        session = null;
+        post({ type: 'done', jobId, records, summary });
+      }
+    } catch (error) {
+      session = null;
+      post({ type: 'error', jobId, message: error instanceof Error ? error.message : 'File processing failed' });
+    }
+  };
+
+  return (request: ParseWorkerRequest) => {
+    queue = queue.then(() => handle(request));
+  };
+}
+
+// Only registered when this module is loaded as a worker
+if (typeof window === 'undefined' && typeof self !== 'undefined') {
+  const handleRequest = createParseWorkerHandler(response => self.postMessage(response));
+  self.addEventListener('message', (event: MessageEvent<ParseWorkerRequest>) => handleRequest(event.data));
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getParserProfile,
+  selectParserProfile,
+  resolveHeaderMapping,
+  findMissingRequiredFields,
+  extractFields,
+  resolveByteCount,
+  registerParserProfile
+} from './parser-profiles';
+import { parseTimestamp, detectDayMonthOrder } from './timestamp-parser';
+import { parseDelimited, normalizeAirtelRows } from './processing';
+
+const JIO_CSV = `MSISDN,Private_IP,Private_Port,Public_IP,Public_Port,Destination_IP_Address,Destination_Port_Number,IP_Protocol,Session_Start_Time,Session_End_Time,Uplink_Volume,Downlink_Volume
+919876543210,100.64.12.7,40112,49.36.10.20,61001,157.240.16.35,443,6,20-08-2025 23:15:00,20-08-2025 23:15:30,1200,8800`;
+
+const VI_TSV = `CALLING_NUMBER\tSOURCE_IP_ADDRESS\tSOURCE_PORT_NO\tDESTINATION_IP_ADDRESS\tDESTINATION_PORT_NO\tPROTOCOL\tSTART_TIME\tEND_TIME\tTOTAL_DATA_VOLUME
+919812345678\t10.20.30.40\t5555\t142.250.183.14\t443\tTCP\t20250820101500\t20250820101610\t4096`;
+
+const BSNL_CSV = `MDN,SRC_IP_ADDR,DST_IP_ADDR,PROTOCOL,CONN_START_TIME,CONN_END_TIME,TOTAL_OCTETS
+919412345678,10.1.1.1,8.8.8.8,UDP,20-Aug-2025 10:00:00,20-Aug-2025 10:00:02,128`;
+
+describe('parser profiles', () => {
+  it('selects the profile from operator-specific headers', () => {
+    const headers = (text: string) => Object.keys(parseDelimited(text)[0]);
+    expect(selectParserProfile(headers(JIO_CSV)).operator).toBe('jio');
+    expect(selectParserProfile(headers(VI_TSV)).operator).toBe('vodafone');
+    expect(selectParserProfile(headers(BSNL_CSV)).operator).toBe('bsnl');
+    expect(selectParserProfile(['SourceIP', 'DestinationIP', 'StartTime', 'EndTime']).operator).toBe('airtel');
+  });
+
+  it('lets an explicit operator choice override header detection', () => {
+    expect(selectParserProfile(['Private_IP', 'Public_IP'], 'bsnl').operator).toBe('bsnl');
+  });
+
+  it('matches headers regardless of case and separators', () => {
+    const mapping = resolveHeaderMapping(['source ip', 'DESTINATION-IP', 'start_time', 'EndTime'], getParserProfile('airtel'));
+    expect(mapping.sourceIP).toBe('source ip');
+    expect(mapping.destinationIP).toBe('DESTINATION-IP');
+    expect(mapping.startTime).toBe('start_time');
+    expect(findMissingRequiredFields(mapping, getParserProfile('airtel'))).toEqual([]);
+  });
+
+  it('extracts NAT fields and sums uplink/downlink volume', () => {
+    const rows = parseDelimited(JIO_CSV);
+    const mapping = resolveHeaderMapping(Object.keys(rows[0]), getParserProfile('jio'));
+    const fields = extractFields(rows[0], mapping);
+    expect(fields.publicIP).toBe('49.36.10.20');
+    expect(fields.publicPort).toBe('61001');
+    expect(fields.protocol).toBe('6');
+    expect(resolveByteCount(fields)).toBe(10000);
+  });
+
+  it('normalizes Jio, Vi and BSNL rows with their own operator', async () => {
+    const jio = await normalizeAirtelRows(parseDelimited(JIO_CSV), 'case1', 'file1', 'jio');
+    const vi = await normalizeAirtelRows(parseDelimited(VI_TSV), 'case1', 'file2', 'vodafone');
+    const bsnl = await normalizeAirtelRows(parseDelimited(BSNL_CSV), 'case1', 'file3', 'bsnl');
+
+    expect(jio[0].operator).toBe('jio');
+    expect(jio[0].aParty).toBe('100.64.12.7');
+    expect(jio[0].protocol).toBe('TCP');
+    expect(jio[0].duration).toBe(30);
+    expect(vi[0].operator).toBe('vodafone');
+    expect(vi[0].duration).toBe(70);
+    expect(bsnl[0].operator).toBe('bsnl');
+    expect(bsnl[0].startTimestamp.toISOString()).toBe('2025-08-20T04:30:00.000Z');
+  });
+
+  it('allows registering a replacement profile', () => {
+    const original = getParserProfile('bsnl');
+    registerParserProfile({ ...original, id: 'bsnl_custom', timezone: 'UTC' });
+    expect(getParserProfile('bsnl').id).toBe('bsnl_custom');
+    registerParserProfile(original);
+  });
+});
+
+describe('timestamp parsing', () => {
+  it('reads zone-less timestamps in the declared timezone', () => {
+    const ist = parseTimestamp('2025-08-20 10:00:05', ['YYYY-MM-DD HH:mm:ss'], 'Asia/Kolkata');
+    const utc = parseTimestamp('2025-08-20 10:00:05', ['YYYY-MM-DD HH:mm:ss'], 'UTC');
+    expect(ist?.toISOString()).toBe('2025-08-20T04:30:05.000Z');
+    expect(utc?.toISOString()).toBe('2025-08-20T10:00:05.000Z');
+  });
+
+  it('keeps explicit offsets in ISO timestamps', () => {
+    expect(parseTimestamp('2025-08-20T10:00:05Z', ['ISO8601'], 'Asia/Kolkata')?.toISOString())
+      .toBe('2025-08-20T10:00:05.000Z');
+  });
+
+  it('rejects values that do not fit the declared formats', () => {
+    expect(parseTimestamp('20/13/2025 10:00:00', ['DD/MM/YYYY HH:mm:ss'])).toBeNull();
+    expect(parseTimestamp('not a date')).toBeNull();
+  });
+
+  it('settles day/month order only when a value shows it', () => {
+    expect(detectDayMonthOrder(['03/04/2025 10:00:00', '05/06/2025 11:00:00'])).toBe('ambiguous');
+    expect(detectDayMonthOrder(['03/04/2025 10:00:00', '25/04/2025 11:00:00'])).toBe('day-first');
+    expect(detectDayMonthOrder(['04-25-2025 10:00:00'])).toBe('month-first');
+    expect(detectDayMonthOrder(['01/01/2025 00:00:00', '2025-08-20 10:00:00'])).toBeNull();
+  });
+});
@@ -0,0 +1,391 @@
+// Operator-specific parser profiles for IPDR layouts
+// Each profile declares how an operator names its columns, which timestamp formats
+// it emits and in which timezone, and which fields a row must carry to be usable.
+
+import { IPDRRecord, TelecomOperator } from './types';
+import { TimestampFormat, DEFAULT_SOURCE_TIMEZONE } from './timestamp-parser';
+import { DEFAULT_XML_RECORD_ELEMENTS } from './xml-parser';
+import { canonicalizeIP } from './ip-address';
+
+// Canonical IPDR fields a source column can be mapped to
+export type IPDRField =
+  | 'subscriberID'
+  | 'sourceIP'
+  | 'sourcePort'
+  | 'publicIP'
+  | 'publicPort'
+  | 'destinationIP'
+  | 'destinationPort'
+  | 'protocol'
+  | 'startTime'
+  | 'endTime'
+  | 'bytes'
+  | 'uplinkBytes'
+  | 'downlinkBytes'
+  | 'imsi'
+  | 'imei'
+  | 'apn'
+  | 'cellID'
+  | 'lac';
+
+// Resolved mapping from canonical field to the actual header in a file
+export type HeaderMapping = Partial<Record<IPDRField, string>>;
+
+export const IPDR_FIELD_LABELS: Record<IPDRField, string> = {
+  subscriberID: 'Subscriber ID / MSISDN',
+  sourceIP: 'Source IP',
+  sourcePort: 'Source Port',
+  publicIP: 'Public (NAT) IP',
+  publicPort: 'Public (NAT) Port',
+  destinationIP: 'Destination IP',
+  destinationPort: 'Destination Port',
+  protocol: 'Protocol',
+  startTime: 'Start Time',
+  endTime: 'End Time',
+  bytes: 'Total Bytes',
+  uplinkBytes: 'Uplink Bytes',
+  downlinkBytes: 'Downlink Bytes',
+  imsi: 'IMSI',
+  imei: 'IMEI',
+  apn: 'APN',
+  cellID: 'Cell ID',
+  lac: 'LAC'
+};
+
+// Analyst-defined mapping saved for reuse on files with the same layout
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  operator: TelecomOperator;
+  mapping: HeaderMapping;
+  timestampFormats: TimestampFormat[];
+  timezone: string;
+  createdAt: Date;
+}
+
+export interface ParserProfile {
+  id: string;
+  operator: TelecomOperator;
+  name: string;
+  headerAliases: Partial<Record<IPDRField, string[]>>;
+  timestampFormats: TimestampFormat[];
+  timezone: string;
+  requiredFields: IPDRField[];
+  xmlRecordElements?: string[]; // XML session element names, tried before the defaults
+}
+
+// Aliases seen across operators and generic exports. Profiles list their own
+// aliases first; these are consulted afterwards.
+const COMMON_HEADER_ALIASES: Partial<Record<IPDRField, string[]>> = {
+  subscriberID: ['SubscriberID', 'Subscriber_ID', 'MSISDN', 'Phone_Number', 'User_ID'],
+  sourceIP: ['SourceIP', 'SrcIP', 'src_ip', 'Source_IP', 'A_Party', 'A_Party_IP'],
+  sourcePort: ['SourcePort', 'SrcPort', 'src_port', 'Source_Port', 'A_Party_Port'],
+  destinationIP: ['DestinationIP', 'DestIP', 'dst_ip', 'Destination_IP', 'B_Party', 'B_Party_IP'],
+  destinationPort: ['DestinationPort', 'DstPort', 'dst_port', 'Destination_Port', 'B_Party_Port'],
+  protocol: ['Protocol', 'Protocol_Type', 'Connection_Type', 'proto'],
+  startTime: ['StartTime', 'Start', 'Start_Time', 'Connection_Start', 'Session_Start'],
+  endTime: ['EndTime', 'End', 'End_Time', 'Connection_End', 'Session_End'],
+  bytes: ['Bytes', 'Octets', 'Data_Volume', 'Bytes_Transferred', 'Total_Bytes'],
+  imsi: ['IMSI', 'IMSI_Number'],
+  imei: ['IMEI', 'IMEI_Number'],
+  apn: ['APN', 'Access_Point_Name'],
+  cellID: ['CellID', 'Cell_ID', 'Cell_Tower'],
+  lac: ['LAC', 'Location_Area_Code']
+};
+
+const BASE_REQUIRED_FIELDS: IPDRField[] = ['sourceIP', 'destinationIP', 'startTime', 'endTime'];
+
+const AIRTEL_PROFILE: ParserProfile = {
+  id: 'airtel_ipdr_v1',
+  operator: 'airtel',
+  name: 'Bharti Airtel IPDR',
+  headerAliases: {},
+  timestampFormats: ['ISO8601', 'YYYY-MM-DD HH:mm:ss', 'DD/MM/YYYY HH:mm:ss', 'DD-MM-YYYY HH:mm:ss'],
+  timezone: DEFAULT_SOURCE_TIMEZONE,
+  requiredFields: BASE_REQUIRED_FIELDS
+};
+
+const JIO_PROFILE: ParserProfile = {
+  id: 'jio_ipdr_v1',
+  operator: 'jio',
+  name: 'Reliance Jio IPDR',
+  headerAliases: {
+    subscriberID: ['Mobile_Number'],
+    sourceIP: ['Private_IP', 'Source_IP_Address', 'Subscriber_IP'],
+    sourcePort: ['Private_Port', 'Source_Port_Number'],
+    publicIP: ['Public_IP', 'Translated_IP'],
+    publicPort: ['Public_Port', 'Translated_Port'],
+    destinationIP: ['Destination_IP_Address', 'Server_IP'],
+    destinationPort: ['Destination_Port_Number', 'Server_Port'],
+    protocol: ['IP_Protocol'],
+    startTime: ['Session_Start_Time', 'Start_Date_Time'],
+    endTime: ['Session_End_Time', 'End_Date_Time'],
+    uplinkBytes: ['Uplink_Volume', 'UL_Volume'],
+    downlinkBytes: ['Downlink_Volume', 'DL_Volume']
+  },
+  timestampFormats: ['DD-MM-YYYY HH:mm:ss', 'ISO8601', 'YYYY-MM-DD HH:mm:ss'],
+  timezone: DEFAULT_SOURCE_TIMEZONE,
+  requiredFields: BASE_REQUIRED_FIELDS
+};
+
+const VODAFONE_PROFILE: ParserProfile = {
+  id: 'vodafone_idea_ipdr_v1',
+  operator: 'vodafone',
+  name: 'Vodafone Idea (Vi) IPDR',
+  headerAliases: {
+    subscriberID: ['CALLING_NUMBER'],
+    sourceIP: ['SOURCE_IP_ADDRESS', 'FRAMED_IP'],
+    sourcePort: ['SOURCE_PORT_NO'],
+    publicIP: ['NATTED_IP', 'NAT_IP_ADDRESS'],
+    publicPort: ['NATTED_PORT', 'NAT_PORT_NO'],
+    destinationIP: ['DESTINATION_IP_ADDRESS'],
+    destinationPort: ['DESTINATION_PORT_NO'],
+    startTime: ['SESSION_START_DATE'],
+    endTime: ['SESSION_END_DATE'],
+    bytes: ['TOTAL_DATA_VOLUME'],
+    uplinkBytes: ['UPLINK_DATA_VOLUME'],
+    downlinkBytes: ['DOWNLINK_DATA_VOLUME'],
+    imsi: ['IMSI_NO'],
+    imei: ['IMEI_NO'],
+    cellID: ['FIRST_CELL_ID'],
+    lac: ['FIRST_LAC']
+  },
+  timestampFormats: ['YYYYMMDDHHmmss', 'DD/MM/YYYY HH:mm:ss', 'ISO8601'],
+  timezone: DEFAULT_SOURCE_TIMEZONE,
+  requiredFields: BASE_REQUIRED_FIELDS,
+  // Legacy Vodafone XML exports
+  xmlRecordElements: ['IPDR_RECORD', 'SESSION_RECORD']
+};
+
+const BSNL_PROFILE: ParserProfile = {
+  id: 'bsnl_ipdr_v1',
+  operator: 'bsnl',
+  name: 'BSNL IPDR',
+  headerAliases: {
+    subscriberID: ['MDN'],
+    sourceIP: ['SRC_IP_ADDR', 'ORIG_IP'],
+    sourcePort: ['SRC_PORT_NO'],
+    publicIP: ['PUB_IP_ADDR'],
+    publicPort: ['PUB_PORT_NO'],
+    destinationIP: ['DST_IP_ADDR', 'TERM_IP'],
+    destinationPort: ['DST_PORT_NO'],
+    startTime: ['CONN_START_TIME', 'START_DT'],
+    endTime: ['CONN_END_TIME', 'END_DT'],
+    bytes: ['TOTAL_OCTETS'],
+    uplinkBytes: ['UP_OCTETS'],
+    downlinkBytes: ['DOWN_OCTETS'],
+    cellID: ['CGI']
+  },
+  timestampFormats: ['DD-MMM-YYYY HH:mm:ss', 'DD/MM/YYYY HH:mm:ss', 'ISO8601'],
+  timezone: DEFAULT_SOURCE_TIMEZONE,
+  requiredFields: BASE_REQUIRED_FIELDS,
+  xmlRecordElements: ['SESSION', 'IPDR']
+};
+
+const profileRegistry = new Map<TelecomOperator, ParserProfile>([
+  ['airtel', AIRTEL_PROFILE],
+  ['jio', JIO_PROFILE],
+  ['vodafone', VODAFONE_PROFILE],
+  ['bsnl', BSNL_PROFILE]
+]);
+
+export const DEFAULT_PARSER_OPERATOR: TelecomOperator = 'airtel';
+
+export function getParserProfile(operator: TelecomOperator): ParserProfile {
+  return profileRegistry.get(operator) || AIRTEL_PROFILE;
+}
+
+export function getParserProfiles(): ParserProfile[] {
+  return Array.from(profileRegistry.values());
+}
+
+// Register or replace the profile for an operator (e.g. a new export layout)
+export function registerParserProfile(profile: ParserProfile): void {
+  profileRegistry.set(profile.operator, profile);
+}
+
+// XML session element names for an upload: the chosen operator's own names, or every
+// profile's when the operator is not known yet, plus the generic defaults
+export function getXMLRecordElements(operator?: TelecomOperator): string[] {
+  const profiles = operator ? [getParserProfile(operator)] : getParserProfiles();
+  const named = profiles.flatMap(profile => profile.xmlRecordElements || []);
+  return Array.from(new Set([...named, ...DEFAULT_XML_RECORD_ELEMENTS]));
+}
+
+// Header comparison ignores case, spaces, underscores and punctuation
+export function normalizeHeaderKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function getAliases(profile: ParserProfile, field: IPDRField): string[] {
+  return [...(profile.headerAliases[field] || []), ...(COMMON_HEADER_ALIASES[field] || [])];
+}
+
+// Resolve which header in the file supplies each canonical field
+export function resolveHeaderMapping(headers: string[], profile: ParserProfile): HeaderMapping {
+  const headerIndex = new Map<string, string>();
+  headers.forEach(header => {
+    const key = normalizeHeaderKey(header);
+    if (key && !headerIndex.has(key)) {
+      headerIndex.set(key, header);
+    }
+  });
+
+  // XML columns are element paths ("Subscriber/MSISDN", "Session/@start"); the last
+  // segment also matches an alias unless two paths end in the same name
+  const leafIndex = new Map<string, string | null>();
+  headers.filter(header => header.includes('/') || header.startsWith('@')).forEach(header => {
+    const key = normalizeHeaderKey(header.split('/').pop() || '');
+    if (!key || headerIndex.get(key) === header) return;
+    leafIndex.set(key, leafIndex.has(key) ? null : header);
+  });
+
+  const fields = new Set<IPDRField>([
+    ...(Object.keys(COMMON_HEADER_ALIASES) as IPDRField[]),
+    ...(Object.keys(profile.headerAliases) as IPDRField[])
+  ]);
+
+  const mapping: HeaderMapping = {};
+  fields.forEach(field => {
+    for (const alias of getAliases(profile, field)) {
+      const key = normalizeHeaderKey(alias);
+      const header = headerIndex.get(key) || leafIndex.get(key);
+      if (header) {
+        mapping[field] = header;
+        break;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+export function findMissingRequiredFields(mapping: HeaderMapping, profile: ParserProfile): IPDRField[] {
+  return profile.requiredFields.filter(field => !mapping[field]);
+}
+
+// A template applies when every column it maps is present in the file
+export function templateMatchesHeaders(template: MappingTemplate, headers: string[]): boolean {
+  const available = new Set(headers);
+  const mapped = Object.values(template.mapping).filter(Boolean) as string[];
+  return mapped.length > 0 && mapped.every(header => available.has(header));
+}
+
+// Apply analyst overrides (column mapping, formats, timezone) on top of a profile
+export function applyProfileOverrides(
+  profile: ParserProfile,
+  overrides: { timestampFormats?: TimestampFormat[]; timezone?: string }
+): ParserProfile {
+  return {
+    ...profile,
+    timestampFormats: overrides.timestampFormats?.length ? overrides.timestampFormats : profile.timestampFormats,
+    timezone: overrides.timezone || profile.timezone
+  };
+}
+
+// Count headers matched by a profile's own (operator-specific) aliases
+function scoreProfile(headers: string[], profile: ParserProfile): number {
+  const keys = new Set(headers.map(normalizeHeaderKey));
+  let score = 0;
+  Object.values(profile.headerAliases).forEach(aliases => {
+    if (aliases?.some(alias => keys.has(normalizeHeaderKey(alias)))) {
+      score++;
+    }
+  });
+  return score;
+}
+
+// Pick the profile for a file: an explicit operator choice wins, otherwise the
+// profile whose operator-specific headers match best (falling back to Airtel)
+export function selectParserProfile(headers: string[], operator?: TelecomOperator): ParserProfile {
+  if (operator) {
+    return getParserProfile(operator);
+  }
+
+  let best = getParserProfile(DEFAULT_PARSER_OPERATOR);
+  let bestScore = 0;
+  getParserProfiles().forEach(profile => {
+    const score = scoreProfile(headers, profile);
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+// Numeric IANA protocol numbers occasionally appear in place of names
+const PROTOCOL_NUMBERS: Record<string, string> = {
+  '1': 'ICMP',
+  '6': 'TCP',
+  '17': 'UDP',
+  '58': 'ICMPV6'
+};
+
+export function normalizeProtocol(value: string): string {
+  const trimmed = value.trim();
+  return PROTOCOL_NUMBERS[trimmed] || trimmed.toUpperCase();
+}
+
+export type ExtractedFields = Record<IPDRField, string>;
+
+// Read every canonical field from a parsed row using a resolved mapping.
+// Addresses and protocol are left as written (row hashes are computed from them); records
+// canonicalize them
+export function extractFields(row: Record<string, string>, mapping: HeaderMapping): ExtractedFields {
+  const read = (field: IPDRField) => {
+    const header = mapping[field];
+    return header ? (row[header] ?? '').trim() : '';
+  };
+
+  return {
+    subscriberID: read('subscriberID'),
+    sourceIP: read('sourceIP'),
+    sourcePort: read('sourcePort'),
+    publicIP: read('publicIP'),
+    publicPort: read('publicPort'),
+    destinationIP: read('destinationIP'),
+    destinationPort: read('destinationPort'),
+    protocol: read('protocol'),
+    startTime: read('startTime'),
+    endTime: read('endTime'),
+    bytes: read('bytes'),
+    uplinkBytes: read('uplinkBytes'),
+    downlinkBytes: read('downlinkBytes'),
+    imsi: read('imsi'),
+    imei: read('imei'),
+    apn: read('apn'),
+    cellID: read('cellID'),
+    lac: read('lac')
+  };
+}
+
+export type NATTranslation = Pick<IPDRRecord, 'publicIP' | 'publicPort'>;
+
+// Public side of a carrier-grade NAT translation, when the operator supplies it
+export function natTranslation(fields: ExtractedFields): NATTranslation {
+  const translation: NATTranslation = {};
+  if (fields.publicIP) translation.publicIP = canonicalizeIP(fields.publicIP);
+  if (fields.publicPort) translation.publicPort = fields.publicPort;
+  return translation;
+}
+
+export type SubscriberIdentifiers = Pick<IPDRRecord, 'subscriberID' | 'imsi' | 'imei' | 'apn' | 'cellID' | 'lac'>;
+
+// Identifier fields for a record; columns that are absent or blank are left out
+export function subscriberIdentifiers(fields: ExtractedFields): SubscriberIdentifiers {
+  const identifiers: SubscriberIdentifiers = {};
+  (['subscriberID', 'imsi', 'imei', 'apn', 'cellID', 'lac'] as const).forEach(field => {
+    if (fields[field]) identifiers[field] = fields[field];
+  });
+  return identifiers;
+}
+
+// Total volume, summing uplink/downlink when no total column is present
+export function resolveByteCount(fields: ExtractedFields): number {
+  if (fields.bytes) {
+    return parseInt(fields.bytes) || 0;
+  }
+  return (parseInt(fields.uplinkBytes) || 0) + (parseInt(fields.downlinkBytes) || 0);
+}
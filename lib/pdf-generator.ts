@@ -2,7 +2,7 @@
 
 import jsPDF from 'jspdf';
 import { Case, IPDRRecord, Anomaly, EvidenceFile } from './types';
-import { formatTimestamp, formatBytes } from '@/utils/formatters';
+import { formatTimestamp, formatBytes, formatIPAddress } from '@/utils/formatters';
 import { globalCoC, AuditLogEntry } from './chain-of-custody';
 
 interface ReportData {
@@ -198,7 +198,8 @@ export async function generateSecurePDFReport(data: ReportData): Promise<Blob> {
 
     // Top source IPs
     const sourceIPs = data.records.reduce((acc, record) => {
-      acc[record.aParty] = (acc[record.aParty] || 0) + 1;
+      const ip = formatIPAddress(record.aParty);
+      acc[ip] = (acc[ip] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
@@ -312,7 +313,7 @@ export async function generateSecurePDFReport(data: ReportData): Promise<Blob> {
         checkPageBreak(25);
 
         pdf.setFont('helvetica', 'bold');
-        addWrappedText(`${index + 1}. ${anomaly.entity} (${anomaly.severity.toUpperCase()})`, margin + 5, 9);
+        addWrappedText(`${index + 1}. ${formatIPAddress(anomaly.entity)} (${anomaly.severity.toUpperCase()})`, margin + 5, 9);
         yPosition += 2;
         
         pdf.setFont('helvetica', 'normal');
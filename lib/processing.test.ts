@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { detectDelimiter, parseDelimited, normalizeAirtelRows, sha256HexOfString, processAirtelFile } from './processing';
+import { describe, it, expect, vi } from 'vitest';
+import { detectDelimiter, parseDelimited, normalizeAirtelRows, sha256HexOfString, processAirtelFile, parseFileOnMainThread } from './processing';
 
 const SAMPLE_TSV = `SubscriberID\tSourceIP\tSourcePort\tDestinationIP\tDestinationPort\tProtocol\tStartTime\tEndTime\tBytes\nSUB001\t10.10.10.2\t5050\t142.250.183.14\t443\tTCP\t2025-08-20 10:00:05\t2025-08-20 10:00:15\t2048`;
 const SAMPLE_CSV = `SubscriberID,SourceIP,SourcePort,DestinationIP,DestinationPort,Protocol,StartTime,EndTime,Bytes\nSUB001,10.10.10.2,5050,142.250.183.14,443,TCP,2025-08-20 10:00:05,2025-08-20 10:00:15,2048`;
@@ -51,3 +51,77 @@ describe('processAirtelFile', () => {
 });
 
 
+
+describe('processAirtelFile with operator profiles', () => {
+  const JIO_CSV = `MSISDN,Private_IP,Private_Port,Destination_IP_Address,Destination_Port_Number,IP_Protocol,Session_Start_Time,Session_End_Time,Uplink_Volume,Downlink_Volume\n919876543210,100.64.12.7,40112,157.240.16.35,443,17,20-08-2025 23:15:00,20-08-2025 23:15:30,100,200`;
+
+  it('detects the operator from the headers', async () => {
+    const file = new File([JIO_CSV], 'dump.csv', { type: 'text/csv' });
+    const { evidence, records } = await processAirtelFile(file, 'caseJ');
+    expect(evidence.operator).toBe('jio');
+    expect(records[0].operator).toBe('jio');
+    expect(records[0].protocol).toBe('UDP');
+    expect(records[0].bytesTransferred).toBe(300);
+  });
+
+  it('keeps subscriber, device and cell identifiers on records', async () => {
+    const csv = `MSISDN,IMSI,IMEI,APN,SourceIP,DestinationIP,Protocol,StartTime,EndTime,CellID,LAC
+919876543210,404451234567890,356938035643809,airtelgprs.com,10.0.0.1,8.8.8.8,UDP,2025-08-20 10:00:00,2025-08-20 10:00:05,40445-77,1201
+,,,,10.0.0.2,8.8.4.4,UDP,2025-08-20 10:01:00,2025-08-20 10:01:05,,`;
+    const { records } = await processAirtelFile(new File([csv], 'ids.csv', { type: 'text/csv' }), 'caseI');
+    expect(records[0]).toMatchObject({
+      subscriberID: '919876543210',
+      imsi: '404451234567890',
+      imei: '356938035643809',
+      apn: 'airtelgprs.com',
+      cellID: '40445-77',
+      lac: '1201'
+    });
+    expect(records[1].imsi).toBeUndefined();
+  });
+
+  it('reports missing required columns for the chosen profile', async () => {
+    const file = new File(['foo,bar\n1,2'], 'bad.csv', { type: 'text/csv' });
+    await expect(processAirtelFile(file, 'caseJ', undefined, { operator: 'vodafone' }))
+      .rejects.toThrow(/Missing required columns for Vodafone Idea/);
+  });
+
+  it('applies an analyst column mapping with its own date format and timezone', async () => {
+    const csv = `A,B,C,D,E\n10.0.0.5,8.8.8.8,udp,08/20/2025 10:00:00,08/20/2025 10:00:05`;
+    const file = new File([csv], 'custom.csv', { type: 'text/csv' });
+    const { evidence, records } = await processAirtelFile(file, 'caseM', undefined, {
+      operator: 'airtel',
+      mapping: { sourceIP: 'A', destinationIP: 'B', protocol: 'C', startTime: 'D', endTime: 'E' },
+      timestampFormats: ['MM/DD/YYYY HH:mm:ss'],
+      timezone: 'UTC'
+    });
+    expect(records).toHaveLength(1);
+    expect(records[0].aParty).toBe('10.0.0.5');
+    expect(records[0].startTimestamp.toISOString()).toBe('2025-08-20T10:00:00.000Z');
+    expect(evidence.sourceTimezone).toBe('UTC');
+    expect(evidence.timestampFormats).toEqual(['MM/DD/YYYY HH:mm:ss']);
+  });
+});
+
+describe('parseFileOnMainThread', () => {
+  it('rejects a row that fails to build as a parse issue and keeps going', async () => {
+    const csv = `SourceIP,DestinationIP,Protocol,StartTime,EndTime
+10.0.0.1,8.8.8.8,UDP,2025-08-20 10:00:00,2025-08-20 10:00:05
+10.0.0.2,8.8.8.8,UDP,2025-08-20 10:01:00,2025-08-20 10:01:05
+10.0.0.3,8.8.8.8,UDP,2025-08-20 10:02:00,2025-08-20 10:02:05`;
+    const digest = crypto.subtle.digest.bind(crypto.subtle);
+    const spy = vi.spyOn(crypto.subtle, 'digest').mockImplementation((algorithm, data) => {
+      if (new TextDecoder().decode(data as Uint8Array).startsWith('10.0.0.2|')) return Promise.reject(new Error('digest failed'));
+      return digest(algorithm, data);
+    });
+    try {
+      const file = new File([csv], 'sessions.csv', { type: 'text/csv' });
+      const { records, summary } = await parseFileOnMainThread(file, 'caseI', 'fileI', {}, () => {});
+      expect(records.map(record => record.aParty)).toEqual(['10.0.0.1', '10.0.0.3']);
+      expect(summary.rejectedRows).toBe(1);
+      expect(summary.parseIssues).toEqual([expect.objectContaining({ rowNumber: 3, code: 'unreadable_row', severity: 'error', message: 'digest failed' })]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
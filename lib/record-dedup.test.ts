@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { detectDuplicateRecords, resolveDuplicateRecords, describeDuplicates } from './record-dedup';
+import { processAirtelFile } from './processing';
+import { EvidenceFile } from './types';
+
+const HEADER = 'SubscriberID,SourceIP,SourcePort,DestinationIP,DestinationPort,Protocol,StartTime,EndTime,Bytes';
+const ROW_A = 'SUB001,10.10.10.2,5050,142.250.183.14,443,TCP,2025-08-20 10:00:05,2025-08-20 10:00:15,2048';
+const ROW_B = 'SUB001,10.10.10.2,5051,142.250.183.14,443,TCP,2025-08-20 10:01:05,2025-08-20 10:01:15,512';
+const ROW_C = 'SUB002,10.10.10.3,6000,8.8.8.8,53,UDP,2025-08-20 10:02:00,2025-08-20 10:02:01,80';
+
+async function parse(name: string, rows: string[], caseId = 'caseD') {
+  const file = new File([[HEADER, ...rows].join('\n')], name, { type: 'text/csv' });
+  return processAirtelFile(file, caseId);
+}
+
+describe('cross-file duplicate detection', () => {
+  it('matches rows already loaded from another file in the same case', async () => {
+    const first = await parse('aug.csv', [ROW_A, ROW_B]);
+    const second = await parse('aug_resend.csv', [ROW_B, ROW_C]);
+    const detection = detectDuplicateRecords(second.records, first.records);
+
+    expect(detection.matches.size).toBe(1);
+    expect(detection.matches.get(second.records[0].id)?.id).toBe(first.records[1].id);
+    expect(detection.byEvidence).toEqual({ [first.evidence.id]: 1 });
+    expect(describeDuplicates(detection, [first.evidence as EvidenceFile])).toEqual(['1 row duplicate aug.csv']);
+  });
+
+  it('ignores other cases and repeats within a single file', async () => {
+    const other = await parse('aug.csv', [ROW_A], 'caseOther');
+    const repeated = await parse('twice.csv', [ROW_A, ROW_A]);
+    expect(detectDuplicateRecords(repeated.records, other.records).matches.size).toBe(0);
+  });
+
+  it('skips or links duplicates without touching the earlier records', async () => {
+    const first = await parse('aug.csv', [ROW_A]);
+    const second = await parse('aug_resend.csv', [ROW_A, ROW_C]);
+    const detection = detectDuplicateRecords(second.records, first.records);
+
+    const skipped = resolveDuplicateRecords(second.records, detection, 'skip');
+    expect(skipped.map(record => record.id)).toEqual([second.records[1].id]);
+
+    const linked = resolveDuplicateRecords(second.records, detection, 'link');
+    expect(linked).toHaveLength(2);
+    expect(linked[0].duplicateOf).toBe(first.records[0].id);
+    expect(linked[1].duplicateOf).toBeUndefined();
+    expect(second.records[0].duplicateOf).toBeUndefined();
+    expect(first.records[0].duplicateOf).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+// Cross-file duplicate detection for IPDR records
+// Overlapping operator dumps re-deliver the same sessions. Records are matched on
+// rawRowHash within a case; the analyst then skips the repeats or keeps them linked
+// to the earlier record. Evidence files and earlier records are never modified.
+
+import { DuplicateAction, EvidenceFile, IPDRRecord } from './types';
+import { getRecordRepository } from './record-repository';
+
+export interface DuplicateDetection {
+  // Incoming record ID -> the earlier record with the same content
+  matches: Map<string, IPDRRecord>;
+  // Duplicate counts keyed by the evidence file holding the earlier record
+  byEvidence: Record<string, number>;
+}
+
+// Match incoming records against the case's existing records (and against incoming
+// records from other files, e.g. members of one archive); repeats within a single
+// file are left alone
+export function detectDuplicateRecords(incoming: IPDRRecord[], existing: IPDRRecord[]): DuplicateDetection {
+  const caseIds = new Set(incoming.map(record => record.caseId));
+  const index = new Map<string, IPDRRecord>();
+  existing.forEach(record => {
+    if (caseIds.has(record.caseId) && !record.duplicateOf && !index.has(`${record.caseId}|${record.rawRowHash}`)) {
+      index.set(`${record.caseId}|${record.rawRowHash}`, record);
+    }
+  });
+
+  const matches = new Map<string, IPDRRecord>();
+  const byEvidence: Record<string, number> = {};
+  incoming.forEach(record => {
+    const key = `${record.caseId}|${record.rawRowHash}`;
+    const earlier = index.get(key);
+    if (!earlier) {
+      index.set(key, record);
+    } else if (earlier.sourceFileId !== record.sourceFileId) {
+      matches.set(record.id, earlier);
+      byEvidence[earlier.sourceFileId] = (byEvidence[earlier.sourceFileId] || 0) + 1;
+    }
+  });
+
+  return { matches, byEvidence };
+}
+
+// The case records incoming records may repeat: those in the record repository with the same
+// row hash, looked up by index so the whole case never has to be in memory, followed by the
+// in-memory records (some may not have reached the repository yet)
+export async function findEarlierRecords(incoming: IPDRRecord[], inMemory: IPDRRecord[]): Promise<IPDRRecord[]> {
+  const repository = getRecordRepository();
+  if (!repository) return inMemory;
+  const hashesByCase = new Map<string, string[]>();
+  incoming.forEach(record => {
+    const hashes = hashesByCase.get(record.caseId);
+    if (hashes) hashes.push(record.rawRowHash);
+    else hashesByCase.set(record.caseId, [record.rawRowHash]);
+  });
+  const stored: IPDRRecord[] = [];
+  for (const [caseId, hashes] of hashesByCase) {
+    stored.push(...await repository.findByRowHashes(caseId, hashes));
+  }
+  return [...stored, ...inMemory];
+}
+
+// Records to add to the case: duplicates dropped, or kept as new objects pointing at the earlier record
+export function resolveDuplicateRecords(
+  incoming: IPDRRecord[],
+  detection: DuplicateDetection,
+  action: DuplicateAction
+): IPDRRecord[] {
+  if (detection.matches.size === 0) return incoming;
+  if (action === 'skip') {
+    return incoming.filter(record => !detection.matches.has(record.id));
+  }
+  return incoming.map(record => {
+    const earlier = detection.matches.get(record.id);
+    return earlier ? { ...record, duplicateOf: earlier.id } : record;
+  });
+}
+
+// "1,204 rows duplicate airtel_aug.csv; 12 rows duplicate airtel_sep.csv"
+export function describeDuplicates(detection: DuplicateDetection, evidenceFiles: EvidenceFile[]): string[] {
+  return Object.entries(detection.byEvidence)
+    .sort(([, a], [, b]) => b - a)
+    .map(([evidenceId, count]) => {
+      const filename = evidenceFiles.find(file => file.id === evidenceId)?.filename || evidenceId;
+      return `${count.toLocaleString()} row${count === 1 ? '' : 's'} duplicate ${filename}`;
+    });
+}
@@ -0,0 +1,235 @@
+// Record filters shared by the in-memory store and the IndexedDB record repository
+// Each filter is a per-record predicate plus, where a filter can be answered from an
+// index exactly, the index ranges that narrow the scan before the predicate runs.
+
+import { FilterState, IPDRRecord, WatchlistItem } from './types';
+import { RecordRange } from './record-repository';
+import { canonicalizeIP, ipInCIDR, ipVersion, matchesIPPattern, parseCIDR } from './ip-address';
+
+// Basic filters (search term, operators, protocols, parties, date range)
+export function matchesFilterState(record: IPDRRecord, filters: FilterState): boolean {
+  if (filters.searchTerm) {
+    const searchLower = filters.searchTerm.toLowerCase();
+    if (!record.aParty.toLowerCase().includes(searchLower) &&
+        !record.bParty.toLowerCase().includes(searchLower) &&
+        !record.protocol.toLowerCase().includes(searchLower)) {
+      return false;
+    }
+  }
+
+  if (filters.operators.length > 0 && !filters.operators.includes(record.operator)) return false;
+  if (filters.protocols.length > 0 && !filters.protocols.includes(record.protocol)) return false;
+  if (filters.parties.length > 0) {
+    const parties = filters.parties.map(canonicalizeIP);
+    if (!parties.includes(record.aParty) && !parties.includes(record.bParty)) return false;
+  }
+
+  const recordDate = record.startTimestamp;
+  if (filters.dateRange.start && recordDate < filters.dateRange.start) return false;
+  if (filters.dateRange.end && recordDate > filters.dateRange.end) return false;
+  return true;
+}
+
+// Advanced search with Wireshark-style queries
+export function matchesAdvancedFilters(record: IPDRRecord, advancedFilters: any): boolean {
+  // Global search across all fields
+  if (advancedFilters.globalSearch) {
+    const searchLower = advancedFilters.globalSearch.toLowerCase();
+    const found =
+      record.aParty.toLowerCase().includes(searchLower) ||
+      record.bParty.toLowerCase().includes(searchLower) ||
+      record.protocol.toLowerCase().includes(searchLower) ||
+      record.operator.toLowerCase().includes(searchLower) ||
+      record.aPort?.toLowerCase().includes(searchLower) ||
+      record.bPort?.toLowerCase().includes(searchLower) ||
+      record.id.toLowerCase().includes(searchLower) ||
+      record.subscriberID?.toLowerCase().includes(searchLower) ||
+      record.imsi?.includes(searchLower) ||
+      record.imei?.includes(searchLower) ||
+      record.apn?.toLowerCase().includes(searchLower) ||
+      record.cellID?.toLowerCase().includes(searchLower) ||
+      record.lac?.toLowerCase().includes(searchLower) ||
+      record.publicIP?.toLowerCase().includes(searchLower) ||
+      record.application?.toLowerCase().includes(searchLower) ||
+      record.bPartyLocation?.organization?.toLowerCase().includes(searchLower) ||
+      record.bPartyLocation?.country.toLowerCase().includes(searchLower);
+    if (!found) return false;
+  }
+
+  // Date range filter
+  if (advancedFilters.dateRange.start || advancedFilters.dateRange.end) {
+    const recordDate = record.startTimestamp;
+    if (advancedFilters.dateRange.start && recordDate < advancedFilters.dateRange.start) return false;
+    if (advancedFilters.dateRange.end && recordDate > advancedFilters.dateRange.end) return false;
+  }
+
+  // Source and destination IP filters; IPv4 or IPv6 addresses, partial addresses or CIDR blocks
+  if (advancedFilters.sourceIP && !matchesIPPattern(record.aParty, advancedFilters.sourceIP)) return false;
+  if (advancedFilters.destinationIP && !matchesIPPattern(record.bParty, advancedFilters.destinationIP)) return false;
+
+  // Subscriber ID filter (MSISDN, record ID or A-party)
+  if (advancedFilters.subscriberID &&
+      !record.subscriberID?.includes(advancedFilters.subscriberID) &&
+      !record.id.includes(advancedFilters.subscriberID) &&
+      !record.aParty.includes(advancedFilters.subscriberID)) {
+    return false;
+  }
+
+  // Device and location identifier filters
+  if (advancedFilters.imsi && !record.imsi?.includes(advancedFilters.imsi)) return false;
+  if (advancedFilters.imei && !record.imei?.includes(advancedFilters.imei)) return false;
+  if (advancedFilters.apn && !record.apn?.toLowerCase().includes(advancedFilters.apn.toLowerCase())) return false;
+  if (advancedFilters.cellID && !record.cellID?.includes(advancedFilters.cellID)) return false;
+  if (advancedFilters.lac && !record.lac?.includes(advancedFilters.lac)) return false;
+
+  // Application filter
+  if (advancedFilters.application &&
+      record.application?.toLowerCase() !== advancedFilters.application.toLowerCase()) {
+    return false;
+  }
+
+  // Destination IP intelligence filters
+  if (advancedFilters.asn) {
+    const asn = String(advancedFilters.asn).replace(/^AS/i, '');
+    if (String(record.bPartyLocation?.asn ?? '') !== asn) return false;
+  }
+  if (advancedFilters.organization &&
+      !record.bPartyLocation?.organization?.toLowerCase().includes(advancedFilters.organization.toLowerCase())) {
+    return false;
+  }
+  if (advancedFilters.country &&
+      record.bPartyLocation?.country.toLowerCase() !== advancedFilters.country.toLowerCase()) {
+    return false;
+  }
+
+  // Protocol and operator filters
+  if (advancedFilters.protocol.length > 0 && !advancedFilters.protocol.includes(record.protocol)) return false;
+  if (advancedFilters.operator.length > 0 && !advancedFilters.operator.includes(record.operator)) return false;
+
+  // Port range filter
+  if (advancedFilters.portRange.min !== null || advancedFilters.portRange.max !== null) {
+    const srcPort = record.aPort ? parseInt(record.aPort) : 0;
+    const dstPort = record.bPort ? parseInt(record.bPort) : 0;
+    const minPort = advancedFilters.portRange.min || 0;
+    const maxPort = advancedFilters.portRange.max || 65535;
+    if (!((srcPort >= minPort && srcPort <= maxPort) || (dstPort >= minPort && dstPort <= maxPort))) return false;
+  }
+
+  // Bytes range filter
+  if (advancedFilters.bytesRange.min !== null || advancedFilters.bytesRange.max !== null) {
+    const bytes = record.bytesTransferred;
+    const minBytes = advancedFilters.bytesRange.min || 0;
+    const maxBytes = advancedFilters.bytesRange.max || Infinity;
+    if (bytes < minBytes || bytes > maxBytes) return false;
+  }
+
+  // Duration range filter
+  if (advancedFilters.durationRange.min !== null || advancedFilters.durationRange.max !== null) {
+    const duration = record.duration;
+    const minDuration = advancedFilters.durationRange.min || 0;
+    const maxDuration = advancedFilters.durationRange.max || Infinity;
+    if (duration < minDuration || duration > maxDuration) return false;
+  }
+
+  // Wireshark-style query parsing
+  if (advancedFilters.wiresharkQuery) {
+    return matchesWiresharkQuery(record, advancedFilters.wiresharkQuery.toLowerCase());
+  }
+
+  return true;
+}
+
+function matchesWiresharkQuery(record: IPDRRecord, query: string): boolean {
+  // Parse simple Wireshark expressions; ipv6.* fields work like ip.* and addresses may be CIDR blocks
+  const addressMatch = query.match(/\b(ipv6|ip)\.(src|dst|addr)\s*==\s*([^\s]+)/);
+  if (addressMatch) {
+    const pattern = addressMatch[3].replace(/"/g, '');
+    const field = addressMatch[2];
+    if (field === 'src') return matchesIPPattern(record.aParty, pattern);
+    if (field === 'dst') return matchesIPPattern(record.bParty, pattern);
+    return matchesIPPattern(record.aParty, pattern) || matchesIPPattern(record.bParty, pattern);
+  }
+
+  if (query.includes('tcp.port')) {
+    const match = query.match(/tcp\.port\s*==\s*(\d+)/);
+    if (match) {
+      const port = parseInt(match[1]);
+      const srcPort = record.aPort ? parseInt(record.aPort) : 0;
+      const dstPort = record.bPort ? parseInt(record.bPort) : 0;
+      return srcPort === port || dstPort === port;
+    }
+  }
+
+  if (query.includes('udp.port')) {
+    const match = query.match(/udp\.port\s*==\s*(\d+)/);
+    if (match) {
+      const port = parseInt(match[1]);
+      const srcPort = record.aPort ? parseInt(record.aPort) : 0;
+      const dstPort = record.bPort ? parseInt(record.bPort) : 0;
+      return (record.protocol === 'UDP') &&
+             (srcPort === port || dstPort === port);
+    }
+  }
+
+  // Default: treat as global search
+  return record.aParty.toLowerCase().includes(query) ||
+         record.bParty.toLowerCase().includes(query) ||
+         record.protocol.toLowerCase().includes(query) ||
+         !!record.subscriberID?.toLowerCase().includes(query) ||
+         !!record.imsi?.includes(query) ||
+         !!record.imei?.includes(query);
+}
+
+function dateRangeOf(range: { start: Date | null; end: Date | null }): RecordRange[] | undefined {
+  if (!range.start && !range.end) return undefined;
+  return [{ index: 'startTimestamp', lower: range.start || undefined, upper: range.end || undefined }];
+}
+
+// Index ranges for basic filters: parties, then the date range, then protocols
+export function filterStateRanges(filters: FilterState): RecordRange[] | undefined {
+  if (filters.parties.length > 0) {
+    // Records hold canonical addresses
+    return filters.parties.map(canonicalizeIP).flatMap(party => [
+      { index: 'aParty', lower: party, upper: party } as RecordRange,
+      { index: 'bParty', lower: party, upper: party } as RecordRange
+    ]);
+  }
+  const byDate = dateRangeOf(filters.dateRange);
+  if (byDate) return byDate;
+  if (filters.protocols.length > 0) {
+    return filters.protocols.map(protocol => ({ index: 'protocol', lower: protocol, upper: protocol }));
+  }
+  return undefined;
+}
+
+// Index ranges for advanced filters; IP and identifier filters match substrings, so only
+// the date range and protocols can use an index
+export function advancedFilterRanges(advancedFilters: any): RecordRange[] | undefined {
+  const byDate = dateRangeOf(advancedFilters.dateRange);
+  if (byDate) return byDate;
+  if (advancedFilters.protocol.length > 0) {
+    return advancedFilters.protocol.map((protocol: string) => ({ index: 'protocol', lower: protocol, upper: protocol }));
+  }
+  return undefined;
+}
+
+// A watchlist entry against one party: IP entries match any notation of the address or,
+// written as CIDR blocks, every address inside; prefixes match the start of the party;
+// phone entries match a phone-number party digit for digit
+export function matchesWatchlistParty(party: string, item: WatchlistItem): boolean {
+  const entry = item.numberOrPrefix.trim();
+  if (!entry || !party) return false;
+
+  switch (item.type) {
+    case 'ip':
+      if (parseCIDR(entry)) return ipInCIDR(party, entry);
+      return canonicalizeIP(party).toLowerCase() === canonicalizeIP(entry).toLowerCase();
+    case 'prefix':
+      if (parseCIDR(entry)) return ipInCIDR(party, entry);
+      return party.toLowerCase().startsWith(entry.toLowerCase());
+    case 'phone': {
+      const digits = entry.replace(/\D/g, '');
+      return !!digits && ipVersion(party) === null && party.replace(/\D/g, '') === digits;
+    }
+  }
+}
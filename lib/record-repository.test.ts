@@ -0,0 +1,143 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecordRange, RecordRepository } from './record-repository';
+import { matchesFilterState, filterStateRanges, matchesAdvancedFilters, advancedFilterRanges } from './record-filters';
+import { FilterState, IPDRRecord } from './types';
+
+function makeRecord(i: number, caseId = 'caseR'): IPDRRecord {
+  const start = new Date(Date.UTC(2025, 7, 20, 10, i));
+  return {
+    id: `${caseId}_rec_${i}`,
+    caseId,
+    aParty: `10.0.0.${i % 5}`,
+    aPort: String(40000 + i),
+    bParty: i % 3 === 0 ? '8.8.8.8' : '142.250.183.14',
+    bPort: i % 3 === 0 ? '53' : '443',
+    protocol: i % 3 === 0 ? 'UDP' : 'TCP',
+    startTimestamp: start,
+    endTimestamp: new Date(start.getTime() + 5000),
+    duration: 5,
+    bytesTransferred: i * 100,
+    sourceFileId: 'fileR',
+    rawRowHash: `hash_${i}`,
+    operator: 'airtel'
+  };
+}
+
+const noFilters: FilterState = {
+  dateRange: { start: null, end: null },
+  operators: [],
+  parties: [],
+  protocols: [],
+  searchTerm: ''
+};
+
+const noAdvancedFilters = {
+  globalSearch: '',
+  dateRange: { start: null, end: null },
+  sourceIP: '',
+  destinationIP: '',
+  protocol: [],
+  operator: [],
+  portRange: { min: null, max: null },
+  bytesRange: { min: null, max: null },
+  durationRange: { min: null, max: null },
+  wiresharkQuery: ''
+};
+
+describe('record repository', () => {
+  const records = Array.from({ length: 30 }, (_, i) => makeRecord(i)).reverse();
+  let repository: RecordRepository;
+
+  beforeEach(async () => {
+    repository = new RecordRepository();
+    await repository.clear();
+    await repository.putRecords([...records, makeRecord(1, 'otherCase')]);
+  });
+
+  it('pages a case in start time order, with dates intact', async () => {
+    expect(await repository.countRecords('caseR')).toBe(30);
+
+    const { records: page, total } = await repository.queryRecords('caseR', { offset: 10, limit: 5 });
+    expect(total).toBe(30);
+    expect(page.map(record => record.id)).toEqual([10, 11, 12, 13, 14].map(i => `caseR_rec_${i}`));
+    expect(page[0].startTimestamp).toBeInstanceOf(Date);
+    expect(page[0].startTimestamp.getTime()).toBe(Date.UTC(2025, 7, 20, 10, 10));
+  });
+
+  it('answers filters from the indexes exactly as the in-memory predicates do', async () => {
+    const cases: FilterState[] = [
+      { ...noFilters, parties: ['10.0.0.2', '8.8.8.8'] },
+      { ...noFilters, dateRange: { start: new Date(Date.UTC(2025, 7, 20, 10, 5)), end: new Date(Date.UTC(2025, 7, 20, 10, 12)) } },
+      { ...noFilters, protocols: ['UDP'], searchTerm: '10.0.0.3' },
+      { ...noFilters, dateRange: { start: new Date(Date.UTC(2025, 7, 20, 10, 20)), end: null }, protocols: ['TCP'] }
+    ];
+
+    for (const filters of cases) {
+      const expected = records
+        .filter(record => matchesFilterState(record, filters))
+        .sort((a, b) => a.startTimestamp.getTime() - b.startTimestamp.getTime());
+      const { records: found } = await repository.queryRecords('caseR', {
+        ranges: filterStateRanges(filters),
+        filter: record => matchesFilterState(record, filters)
+      });
+      expect(found.length).toBeGreaterThan(0);
+      expect(found.map(record => record.id)).toEqual(expected.map(record => record.id));
+    }
+
+    const advanced = { ...noAdvancedFilters, protocol: ['TCP'], sourceIP: '10.0.0.1' };
+    const { records: found } = await repository.queryRecords('caseR', {
+      ranges: advancedFilterRanges(advanced),
+      filter: record => matchesAdvancedFilters(record, advanced)
+    });
+    expect(found.map(record => record.id)).toEqual(['caseR_rec_1', 'caseR_rec_11', 'caseR_rec_16', 'caseR_rec_26']);
+  });
+
+  it('pages ranged and filtered queries, reading only up to the page', async () => {
+    const ranges: RecordRange[] = [{ index: 'aParty', lower: '10.0.0.2', upper: '10.0.0.2' }, { index: 'bParty', lower: '8.8.8.8', upper: '8.8.8.8' }];
+    const all = await repository.queryRecords('caseR', { ranges });
+    expect(all.total).toBe(all.records.length);
+    expect(all.records.map(record => record.startTimestamp.getTime())).toEqual(
+      [...all.records].map(record => record.startTimestamp.getTime()).sort((a, b) => a - b)
+    );
+
+    // A full page leaves the total uncounted; the last page counts it
+    const page = await repository.queryRecords('caseR', { ranges, offset: 2, limit: 3 });
+    expect(page.records).toEqual(all.records.slice(2, 5));
+    expect(page.total).toBeUndefined();
+    const last = await repository.queryRecords('caseR', { ranges, offset: all.records.length - 2, limit: 5 });
+    expect(last.records).toEqual(all.records.slice(-2));
+    expect(last.total).toBe(all.records.length);
+
+    // A start time range alone is counted from the index
+    const lower = new Date(Date.UTC(2025, 7, 20, 10, 5));
+    const upper = new Date(Date.UTC(2025, 7, 20, 10, 12));
+    const byDate = await repository.queryRecords('caseR', { ranges: [{ index: 'startTimestamp', lower, upper }], offset: 1, limit: 2 });
+    expect(byDate).toMatchObject({ total: 8, records: [{ id: 'caseR_rec_6' }, { id: 'caseR_rec_7' }] });
+  });
+
+  it('finds parties written in any IPv6 notation', async () => {
+    await repository.putRecords([{ ...makeRecord(40), aParty: '2001:db8::1' }]);
+
+    const filters = { ...noFilters, parties: ['2001:DB8:0:0::1'] };
+    const { records: found } = await repository.queryRecords('caseR', {
+      ranges: filterStateRanges(filters),
+      filter: record => matchesFilterState(record, filters)
+    });
+    expect(found.map(record => record.id)).toEqual(['caseR_rec_40']);
+  });
+
+  it('finds the earlier record for each row hash in a case', async () => {
+    await repository.putRecords([{ ...makeRecord(40), rawRowHash: 'hash_4', duplicateOf: 'caseR_rec_4' }]);
+
+    const found = await repository.findByRowHashes('caseR', ['hash_4', 'hash_4', 'hash_7', 'hash_missing']);
+    expect(found.map(record => record.id).sort()).toEqual(['caseR_rec_4', 'caseR_rec_7']);
+    expect(await repository.findByRowHashes('otherCase', ['hash_4'])).toEqual([]);
+  });
+
+  it('deletes one case without touching another', async () => {
+    await repository.deleteCaseRecords('caseR');
+    expect(await repository.countRecords('caseR')).toBe(0);
+    expect(await repository.countRecords('otherCase')).toBe(1);
+  });
+});
@@ -0,0 +1,308 @@
+// IndexedDB record repository
+// Case records live here rather than in localStorage or the in-memory store, so a case
+// survives a reload and only the page or query result being viewed has to be in memory.
+// Records are indexed by case and by A-party, B-party, protocol, start time and NAT public
+// IP within a case, each in start time order. Queries read the matching indexes in that order,
+// merging them when a filter spans several, and stop at the end of the requested page.
+
+import { IPDRRecord } from './types';
+import { DatabaseSchema, openDatabase, promisifyRequest, transactionDone } from './indexed-db';
+
+export type RecordIndex = 'aParty' | 'bParty' | 'protocol' | 'startTimestamp' | 'publicIP';
+
+// An inclusive key range on one index, within a case
+export interface RecordRange {
+  index: RecordIndex;
+  lower?: string | Date;
+  upper?: string | Date;
+}
+
+export interface RecordQuery {
+  ranges?: RecordRange[]; // Union of index ranges; the whole case when omitted
+  filter?: (record: IPDRRecord) => boolean;
+  offset?: number;
+  limit?: number;
+}
+
+export interface RecordQueryResult {
+  records: IPDRRecord[]; // Ordered by start time
+  total?: number; // Matches before offset and limit; omitted when counting them would mean reading past the page
+}
+
+const RECORDS = 'records';
+
+// Lowest and highest keys for a component of a compound index
+const MIN_KEY = -Infinity;
+const MAX_KEY = [[]];
+
+// Fields indexed as [caseId, field, startTimestamp], so the sessions with one value of the
+// field come back in start time order
+const TIME_ORDERED_INDEXES: RecordIndex[] = ['aParty', 'bParty', 'protocol', 'publicIP'];
+
+const ROW_HASH_INDEX = 'caseId_rawRowHash';
+// Row hash lookups issued before waiting for their results
+const ROW_HASH_BATCH = 10000;
+
+// Visits the values under a cursor after skipping the first `skip`; return false from visit to stop early
+function walkCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (record: IPDRRecord) => boolean | void,
+  skip = 0
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && skip > 0) {
+        cursor.advance(skip);
+        skip = 0;
+        return;
+      }
+      if (!cursor || visit(cursor.value) === false) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Reads a cursor one record at a time, for merging several cursors
+class CursorStream {
+  private cursor: IDBCursorWithValue | null = null;
+  private started = false;
+
+  constructor(private request: IDBRequest<IDBCursorWithValue | null>) {}
+
+  next(): Promise<IPDRRecord | null> {
+    if (this.started && !this.cursor) return Promise.resolve(null);
+    return new Promise((resolve, reject) => {
+      this.request.onsuccess = () => {
+        this.cursor = this.request.result;
+        resolve(this.cursor ? this.cursor.value : null);
+      };
+      this.request.onerror = () => reject(this.request.error);
+      if (this.started) this.cursor!.continue();
+      this.started = true;
+    });
+  }
+}
+
+function caseIndexName(index: RecordIndex): string {
+  return `caseId_${index}`;
+}
+
+function timeOrderedIndexName(index: RecordIndex): string {
+  return `caseId_${index}_startTimestamp`;
+}
+
+// One value of a time-ordered field, e.g. a party or a public IP
+function isExactRange(range: RecordRange): boolean {
+  return TIME_ORDERED_INDEXES.includes(range.index) && range.lower !== undefined && range.lower === range.upper;
+}
+
+function keyValue(value: string | Date): string | number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+// Whether a record falls in a range, comparing keys as its index would
+function inRange(record: IPDRRecord, range: RecordRange): boolean {
+  const value = record[range.index];
+  if (value === undefined) return false;
+  const key = keyValue(value);
+  return (range.lower === undefined || key >= keyValue(range.lower)) &&
+    (range.upper === undefined || key <= keyValue(range.upper));
+}
+
+// The span of the case's start time index that can hold matches: narrowed when every range
+// is a start time range, otherwise the whole case
+function startTimeSpan(caseId: string, ranges?: RecordRange[]): IDBKeyRange {
+  let lower: Date | typeof MIN_KEY = MIN_KEY;
+  let upper: Date | typeof MAX_KEY = MAX_KEY;
+  if (ranges && ranges.length > 0 && ranges.every(range => range.index === 'startTimestamp')) {
+    if (ranges.every(range => range.lower !== undefined)) {
+      lower = new Date(Math.min(...ranges.map(range => new Date(range.lower!).getTime())));
+    }
+    if (ranges.every(range => range.upper !== undefined)) {
+      upper = new Date(Math.max(...ranges.map(range => new Date(range.upper!).getTime())));
+    }
+  }
+  return IDBKeyRange.bound([caseId, lower], [caseId, upper]);
+}
+
+const RECORDS_DB: DatabaseSchema = {
+  name: 'ipdr-intel-records',
+  version: 1,
+  upgrade: (db) => {
+    const store = db.createObjectStore(RECORDS, { keyPath: 'id' });
+    store.createIndex('caseId', 'caseId');
+    store.createIndex(caseIndexName('startTimestamp'), ['caseId', 'startTimestamp']);
+    TIME_ORDERED_INDEXES.forEach(index => store.createIndex(timeOrderedIndexName(index), ['caseId', index, 'startTimestamp']));
+    // Duplicate detection looks up incoming row hashes
+    store.createIndex(ROW_HASH_INDEX, ['caseId', 'rawRowHash']);
+  }
+};
+
+export class RecordRepository {
+  private open(): Promise<IDBDatabase> {
+    return openDatabase(RECORDS_DB);
+  }
+
+  // Adds records, replacing any stored under the same ID
+  async putRecords(records: IPDRRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(RECORDS, 'readwrite');
+    const store = transaction.objectStore(RECORDS);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+  }
+
+  async countRecords(caseId: string): Promise<number> {
+    const db = await this.open();
+    return promisifyRequest(db.transaction(RECORDS, 'readonly').objectStore(RECORDS).index('caseId').count(caseId));
+  }
+
+  // Records come from the indexes in start time order, and reading stops once the page is
+  // full, so only the page is ever held in memory
+  async queryRecords(caseId: string, query: RecordQuery = {}): Promise<RecordQueryResult> {
+    const db = await this.open();
+    const store = db.transaction(RECORDS, 'readonly').objectStore(RECORDS);
+    const byTime = store.index(caseIndexName('startTimestamp'));
+    const offset = query.offset || 0;
+    const limit = query.limit ?? Infinity;
+    const { ranges, filter } = query;
+    const span = startTimeSpan(caseId, ranges);
+    const records: IPDRRecord[] = [];
+
+    // Every record in the span matches: count them from the index and jump to the page
+    if (!filter && (!ranges || (ranges.length === 1 && ranges[0].index === 'startTimestamp'))) {
+      const total = await promisifyRequest(byTime.count(span));
+      if (offset < total && limit > 0) {
+        await walkCursor(byTime.openCursor(span), record => {
+          records.push(record);
+          return records.length < limit;
+        }, offset);
+      }
+      return { records, total };
+    }
+
+    // Ranges on single values (parties, protocols, a public IP) each read their own time-ordered
+    // index, merged by start time; other ranges are tested against the case's start time index
+    const exact = !!ranges && ranges.length > 0 && ranges.every(isExactRange);
+    const streams = exact
+      ? ranges!.map(range => new CursorStream(store.index(timeOrderedIndexName(range.index)).openCursor(
+          IDBKeyRange.bound([caseId, range.lower!, MIN_KEY], [caseId, range.lower!, MAX_KEY])
+        )))
+      : [new CursorStream(byTime.openCursor(span))];
+    const heads = await Promise.all(streams.map(stream => stream.next()));
+
+    let matched = 0;
+    let pageFull = false;
+    // A session in several ranges (a party on both sides) comes from each of their indexes at once
+    let currentTime = -Infinity;
+    let seenAtCurrentTime = new Set<string>();
+    for (;;) {
+      let earliest = -1;
+      heads.forEach((head, i) => {
+        if (head && (earliest === -1 || head.startTimestamp.getTime() < heads[earliest]!.startTimestamp.getTime())) earliest = i;
+      });
+      if (earliest === -1) break;
+      const record = heads[earliest]!;
+      heads[earliest] = await streams[earliest].next();
+
+      const time = record.startTimestamp.getTime();
+      if (time !== currentTime) {
+        currentTime = time;
+        seenAtCurrentTime = new Set();
+      }
+      if (seenAtCurrentTime.has(record.id)) continue;
+      seenAtCurrentTime.add(record.id);
+
+      if (!exact && ranges && !ranges.some(range => inRange(record, range))) continue;
+      if (filter && !filter(record)) continue;
+      if (matched >= offset) {
+        // A match past the page: there are more, uncounted
+        if (records.length >= limit) {
+          pageFull = true;
+          break;
+        }
+        records.push(record);
+      }
+      matched++;
+    }
+    return { records, total: pageFull ? undefined : matched };
+  }
+
+  // For each row hash, the first stored record with it that is not itself a linked duplicate
+  async findByRowHashes(caseId: string, hashes: string[]): Promise<IPDRRecord[]> {
+    const db = await this.open();
+    const index = db.transaction(RECORDS, 'readonly').objectStore(RECORDS).index(ROW_HASH_INDEX);
+    const found: IPDRRecord[] = [];
+    const distinct = Array.from(new Set(hashes));
+    for (let i = 0; i < distinct.length; i += ROW_HASH_BATCH) {
+      const batch = await Promise.all(distinct.slice(i, i + ROW_HASH_BATCH).map(hash =>
+        promisifyRequest<IPDRRecord[]>(index.getAll(IDBKeyRange.only([caseId, hash])))
+      ));
+      batch.forEach(records => {
+        const earliest = records.find(record => !record.duplicateOf);
+        if (earliest) found.push(earliest);
+      });
+    }
+    return found;
+  }
+
+  async deleteRecords(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(RECORDS, 'readwrite');
+    const store = transaction.objectStore(RECORDS);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+  }
+
+  // Deletes the records parsed from one evidence file; returns how many were not linked duplicates
+  async deleteFileRecords(caseId: string, fileId: string): Promise<number> {
+    const db = await this.open();
+    const transaction = db.transaction(RECORDS, 'readwrite');
+    const request = transaction.objectStore(RECORDS).index('caseId').openCursor(caseId);
+    let removed = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const record: IPDRRecord = cursor.value;
+      if (record.sourceFileId === fileId) {
+        cursor.delete();
+        if (!record.duplicateOf) removed++;
+      }
+      cursor.continue();
+    };
+    await transactionDone(transaction);
+    return removed;
+  }
+
+  async deleteCaseRecords(caseId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(RECORDS, 'readwrite');
+    const store = transaction.objectStore(RECORDS);
+    const keys = await promisifyRequest(store.index('caseId').getAllKeys(caseId));
+    keys.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(RECORDS, 'readwrite');
+    transaction.objectStore(RECORDS).clear();
+    await transactionDone(transaction);
+  }
+}
+
+let sharedRepository: RecordRepository | null = null;
+
+// The browser's record repository, or null where IndexedDB is unavailable (server rendering, tests)
+export function getRecordRepository(): RecordRepository | null {
+  if (typeof indexedDB === 'undefined') return null;
+  if (!sharedRepository) sharedRepository = new RecordRepository();
+  return sharedRepository;
+}
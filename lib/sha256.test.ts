@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { SHA256Hasher } from './sha256';
+import { sha256Hex } from './processing';
+
+describe('incremental sha256', () => {
+  it('matches SubtleCrypto across block boundaries and a saved state', async () => {
+    for (const length of [0, 3, 55, 56, 64, 65, 119, 120, 5000]) {
+      const data = new Uint8Array(length).map((_, i) => (i * 31 + 7) & 0xff);
+      const split = Math.floor(length / 3);
+      const first = new SHA256Hasher().update(data.subarray(0, split));
+      const resumed = SHA256Hasher.fromState(JSON.parse(JSON.stringify(first.saveState())));
+      resumed.update(data.subarray(split));
+      expect(resumed.digestHex()).toBe(await sha256Hex(data.buffer));
+    }
+  });
+});
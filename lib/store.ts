@@ -14,6 +14,12 @@ import {
   WatchlistItem,
   TelecomOperator 
 } from './types';
+import { MappingTemplate } from './parser-profiles';
+import { CustomAnomalyRule } from './anomaly-rules';
+import { RecordRepository, getRecordRepository } from './record-repository';
+import { matchesFilterState, matchesAdvancedFilters, filterStateRanges, advancedFilterRanges } from './record-filters';
+import { CGNATCandidate, CGNATQuery, resolvePublicIP } from './cgnat-resolver';
+import { canonicalizeIP } from './ip-address';
 
 // Enhanced pagination and memory management for large datasets
 interface PaginationState {
@@ -40,6 +46,8 @@ interface AppStore {
   records: IPDRRecord[];
   anomalies: Anomaly[];
   watchlist: WatchlistItem[];
+  mappingTemplates: MappingTemplate[];
+  customAnomalyRules: CustomAnomalyRule[];
   
   // Enhanced state for large datasets
   pagination: PaginationState;
@@ -62,14 +70,19 @@ interface AppStore {
   attachFileToCase: (caseId: string, file: EvidenceFile) => void;
   
   setRecords: (records: IPDRRecord[]) => void;
-  addRecords: (records: IPDRRecord[]) => void;
+  addRecords: (records: IPDRRecord[]) => Promise<void>;
+  removeLinkedDuplicates: (ids: string[]) => Promise<void>;
+  removeFileRecords: (caseId: string, fileId: string) => Promise<void>;
+  updateRecords: (records: IPDRRecord[]) => void;
+  loadCaseRecords: (caseId: string) => Promise<void>;
   
   // Enhanced actions for large datasets
   setPage: (page: number) => void;
   setPageSize: (size: number) => void;
-  getRecordsForPage: (page: number, size: number) => IPDRRecord[];
-  getFilteredRecords: (filters: FilterState) => IPDRRecord[];
-  getAdvancedFilteredRecords: (filters: any) => IPDRRecord[];
+  getRecordsForPage: (page: number, size: number) => Promise<IPDRRecord[]>;
+  getFilteredRecords: (filters: FilterState) => Promise<IPDRRecord[]>;
+  getAdvancedFilteredRecords: (filters: any) => Promise<IPDRRecord[]>;
+  resolvePublicIP: (query: CGNATQuery) => Promise<CGNATCandidate[]>;
   optimizeMemory: () => void;
   clearMemoryCache: () => void;
   
@@ -79,6 +92,12 @@ interface AppStore {
   addWatchlistItem: (item: WatchlistItem) => void;
   removeWatchlistItem: (id: string) => void;
   
+  addMappingTemplate: (template: MappingTemplate) => void;
+  removeMappingTemplate: (id: string) => void;
+  
+  saveCustomAnomalyRule: (rule: CustomAnomalyRule) => void;
+  removeCustomAnomalyRule: (id: string) => void;
+  
   setFilters: (filters: Partial<FilterState>) => void;
   resetFilters: () => void;
   
@@ -139,6 +158,56 @@ const initialMemory: MemoryState = {
   lastAccessed: new Map()
 };
 
+// Records of the current case held in memory, and the most a filter query returns; the
+// rest stay in the record repository until a page or query asks for them
+const WORKING_SET_LIMIT = 100000;
+
+// Bumped whenever the in-memory records are replaced, so a slower case load is dropped
+let workingSetGeneration = 0;
+
+// Pagination and memory state for a new set of in-memory records
+function withRecords(state: AppStore, records: IPDRRecord[]) {
+  const totalRecords = records.length;
+  const totalPages = Math.ceil(totalRecords / state.pagination.pageSize);
+  return {
+    records,
+    pagination: {
+      ...state.pagination,
+      totalRecords,
+      totalPages,
+      hasMore: totalPages > 1
+    },
+    memory: {
+      ...state.memory,
+      virtualizedRecords: records.slice(0, state.memory.maxRecordsInMemory),
+      recordIndexMap: new Map(records.map((record, index) => [record.id, index]))
+    }
+  };
+}
+
+// The in-memory records: bounded when the repository holds the case, otherwise all of them
+function workingSet(records: IPDRRecord[]): IPDRRecord[] {
+  return getRecordRepository() && records.length > WORKING_SET_LIMIT ? records.slice(0, WORKING_SET_LIMIT) : records;
+}
+
+// Writes records through to the repository, then takes the current case's record count from it.
+// Settles once written; failures are reported through the store's error
+function storeRecords(write: (repository: RecordRepository) => Promise<void>): Promise<void> {
+  const repository = getRecordRepository();
+  if (!repository) return Promise.resolve();
+  return write(repository)
+    .then(async () => {
+      const caseId = useAppStore.getState().currentCase?.id;
+      if (!caseId) return;
+      const totalRecords = await repository.countRecords(caseId);
+      useAppStore.setState((state) => {
+        const totalPages = Math.ceil(totalRecords / state.pagination.pageSize);
+        return { pagination: { ...state.pagination, totalRecords, totalPages, hasMore: totalPages > 1 } };
+      });
+    })
+    .catch((error: Error) => useAppStore.getState().setError(`Failed to save records: ${error.message}`));
+}
+
 export const useAppStore = create<AppStore>()(
   devtools(
     persist(
@@ -150,6 +219,8 @@ export const useAppStore = create<AppStore>()(
         records: [],
         anomalies: [],
         watchlist: [],
+        mappingTemplates: [],
+        customAnomalyRules: [],
         
         // Enhanced state
         pagination: initialPagination,
@@ -162,7 +233,11 @@ export const useAppStore = create<AppStore>()(
         graphData: initialGraphData,
         
         // Actions
-        setCurrentCase: (caseItem) => set({ currentCase: caseItem }),
+        setCurrentCase: (caseItem) => {
+          const previousId = get().currentCase?.id;
+          set({ currentCase: caseItem });
+          if (caseItem && caseItem.id !== previousId) get().loadCaseRecords(caseItem.id);
+        },
         
         addCase: (caseItem) => set((state) => {
           // Check if case with same ID already exists
@@ -219,60 +294,87 @@ export const useAppStore = create<AppStore>()(
           )
         })),
         
-        setRecords: (records) => set((state) => {
-          // Update pagination and memory state
-          const totalRecords = records.length;
-          const totalPages = Math.ceil(totalRecords / state.pagination.pageSize);
-          
-          return {
-            records,
-            pagination: {
-              ...state.pagination,
-              totalRecords,
-              totalPages,
-              hasMore: totalPages > 1
-            },
-            memory: {
-              ...state.memory,
-              virtualizedRecords: records.slice(0, state.memory.maxRecordsInMemory),
-              recordIndexMap: new Map(records.map((record, index) => [record.id, index]))
-            }
-          };
-        }),
+        setRecords: (records) => {
+          workingSetGeneration++;
+          const caseIds = Array.from(new Set(records.map(record => record.caseId)));
+          storeRecords(async (repository) => {
+            for (const caseId of caseIds) await repository.deleteCaseRecords(caseId);
+            await repository.putRecords(records);
+          });
+          set((state) => withRecords(state, workingSet(records)));
+        },
         
-        addRecords: (newRecords) => set((state) => {
-          const updatedRecords = [...state.records, ...newRecords];
-          const totalRecords = updatedRecords.length;
-          const totalPages = Math.ceil(totalRecords / state.pagination.pageSize);
-          
-          // Update memory state with new records
-          const newVirtualizedRecords = updatedRecords.slice(0, state.memory.maxRecordsInMemory);
-          const newRecordIndexMap = new Map(updatedRecords.map((record, index) => [record.id, index]));
-          
-          return {
-            records: updatedRecords,
-            pagination: {
-              ...state.pagination,
-              totalRecords,
-              totalPages,
-              hasMore: totalPages > 1
-            },
-            memory: {
-              ...state.memory,
-              virtualizedRecords: newVirtualizedRecords,
-              recordIndexMap: newRecordIndexMap
-            },
+        addRecords: (newRecords) => {
+          const stored = storeRecords(repository => repository.putRecords(newRecords));
+          // Linked duplicates are kept but not counted
+          const added = newRecords.filter(record => !record.duplicateOf).length;
+          set((state) => ({
+            ...withRecords(state, workingSet([...state.records, ...newRecords])),
             // Update currentCase counters
             cases: state.cases.map(c => c.id === (state.currentCase?.id || '') ? {
               ...c,
-              recordCount: c.recordCount + newRecords.length
+              recordCount: c.recordCount + added
             } : c),
             currentCase: state.currentCase ? {
               ...state.currentCase,
-              recordCount: state.currentCase.recordCount + newRecords.length
+              recordCount: state.currentCase.recordCount + added
             } : state.currentCase
-          };
-        }),
+          }));
+          return stored;
+        },
+        
+        // Linked duplicates are not counted, so dropping them leaves the case counts as they are
+        removeLinkedDuplicates: (ids) => {
+          const removed = new Set(ids);
+          const stored = storeRecords(repository => repository.deleteRecords(ids));
+          set((state) => withRecords(state, state.records.filter(record => !removed.has(record.id))));
+          return stored;
+        },
+        
+        // Drops the records parsed from an evidence file that never made it into the case
+        removeFileRecords: async (caseId, fileId) => {
+          const fromFile = (record: IPDRRecord) => record.caseId === caseId && record.sourceFileId === fileId;
+          let removed = get().records.filter(record => fromFile(record) && !record.duplicateOf).length;
+          set((state) => withRecords(state, state.records.filter(record => !fromFile(record))));
+          await storeRecords(async (repository) => {
+            removed = await repository.deleteFileRecords(caseId, fileId);
+          });
+          set((state) => ({
+            cases: state.cases.map(c => c.id === caseId ? {
+              ...c,
+              recordCount: Math.max(0, c.recordCount - removed)
+            } : c),
+            currentCase: state.currentCase?.id === caseId ? {
+              ...state.currentCase,
+              recordCount: Math.max(0, state.currentCase.recordCount - removed)
+            } : state.currentCase
+          }));
+        },
+        
+        // Replaces records with the same IDs, e.g. after enrichment
+        updateRecords: (updated) => {
+          storeRecords(repository => repository.putRecords(updated));
+          const byId = new Map(updated.map(record => [record.id, record]));
+          set((state) => ({ records: state.records.map(record => byId.get(record.id) || record) }));
+        },
+        
+        // Replaces the in-memory records with the case's earliest records from the repository
+        loadCaseRecords: async (caseId) => {
+          const repository = getRecordRepository();
+          if (!repository) return;
+          const generation = ++workingSetGeneration;
+          const { records, total } = await repository.queryRecords(caseId, { limit: WORKING_SET_LIMIT });
+          if (generation !== workingSetGeneration) return;
+          set((state) => {
+            // Keep records added to the case while the load was running
+            const loaded = new Set(records.map(record => record.id));
+            const added = state.records.filter(record => record.caseId === caseId && !loaded.has(record.id));
+            const next = withRecords(state, [...records, ...added]);
+            const totalRecords = (total ?? records.length) + added.length;
+            const totalPages = Math.ceil(totalRecords / state.pagination.pageSize);
+            return { ...next, pagination: { ...next.pagination, totalRecords, totalPages, hasMore: totalPages > 1 } };
+          });
+        },
         
         setAnomalies: (anomalies) => set({ anomalies }),
         
@@ -288,6 +390,26 @@ export const useAppStore = create<AppStore>()(
           watchlist: state.watchlist.filter(item => item.id !== id)
         })),
         
+        // Templates are keyed by name so saving again replaces the earlier version
+        addMappingTemplate: (template) => set((state) => ({
+          mappingTemplates: [...state.mappingTemplates.filter(t => t.name !== template.name), template]
+        })),
+        
+        removeMappingTemplate: (id) => set((state) => ({
+          mappingTemplates: state.mappingTemplates.filter(t => t.id !== id)
+        })),
+        
+        // Custom rules are keyed by id; saving an existing id replaces the rule in place
+        saveCustomAnomalyRule: (rule) => set((state) => ({
+          customAnomalyRules: state.customAnomalyRules.some(r => r.id === rule.id)
+            ? state.customAnomalyRules.map(r => r.id === rule.id ? rule : r)
+            : [...state.customAnomalyRules, rule]
+        })),
+        
+        removeCustomAnomalyRule: (id) => set((state) => ({
+          customAnomalyRules: state.customAnomalyRules.filter(r => r.id !== id)
+        })),
+        
         setFilters: (newFilters) => set((state) => ({
           filters: { ...state.filters, ...newFilters }
         })),
@@ -326,201 +448,61 @@ export const useAppStore = create<AppStore>()(
           };
         }),
         
-        getRecordsForPage: (page, size) => {
+        // Pages and filters are answered by the record repository for the current case;
+        // without IndexedDB (or a current case) they fall back to the in-memory records.
+        // Filters return at most WORKING_SET_LIMIT matches, the earliest first
+        getRecordsForPage: async (page, size) => {
           const state = get();
           const startIndex = (page - 1) * size;
-          const endIndex = startIndex + size;
-          return state.records.slice(startIndex, endIndex);
+          const repository = getRecordRepository();
+          if (!repository || !state.currentCase) {
+            return state.records.slice(startIndex, startIndex + size);
+          }
+          const { records } = await repository.queryRecords(state.currentCase.id, { offset: startIndex, limit: size });
+          return records;
         },
         
-        getFilteredRecords: (filters) => {
+        getFilteredRecords: async (filters) => {
           const state = get();
-          let filtered = state.records;
-          
-          // Apply search filter
-          if (filters.searchTerm) {
-            const searchLower = filters.searchTerm.toLowerCase();
-            filtered = filtered.filter(record => 
-              record.aParty.toLowerCase().includes(searchLower) ||
-              record.bParty.toLowerCase().includes(searchLower) ||
-              record.protocol.toLowerCase().includes(searchLower)
-            );
-          }
-          
-          // Apply operator filter
-          if (filters.operators.length > 0) {
-            filtered = filtered.filter(record => 
-              filters.operators.includes(record.operator)
-            );
-          }
-          
-          // Apply protocol filter
-          if (filters.protocols.length > 0) {
-            filtered = filtered.filter(record => 
-              filters.protocols.includes(record.protocol)
-            );
-          }
-          
-          // Apply date range filter
-          if (filters.dateRange.start || filters.dateRange.end) {
-            filtered = filtered.filter(record => {
-              const recordDate = record.startTimestamp;
-              if (filters.dateRange.start && recordDate < filters.dateRange.start) return false;
-              if (filters.dateRange.end && recordDate > filters.dateRange.end) return false;
-              return true;
-            });
+          const repository = getRecordRepository();
+          if (!repository || !state.currentCase) {
+            return state.records.filter(record => matchesFilterState(record, filters));
           }
-          
-          return filtered;
+          const { records } = await repository.queryRecords(state.currentCase.id, {
+            ranges: filterStateRanges(filters),
+            filter: record => matchesFilterState(record, filters),
+            limit: WORKING_SET_LIMIT
+          });
+          return records;
         },
 
         // Advanced search with Wireshark-style queries
-        getAdvancedFilteredRecords: (advancedFilters) => {
+        getAdvancedFilteredRecords: async (advancedFilters) => {
           const state = get();
-          let filtered = state.records;
-          
-          // Global search across all fields
-          if (advancedFilters.globalSearch) {
-            const searchLower = advancedFilters.globalSearch.toLowerCase();
-            filtered = filtered.filter(record => 
-              record.aParty.toLowerCase().includes(searchLower) ||
-              record.bParty.toLowerCase().includes(searchLower) ||
-              record.protocol.toLowerCase().includes(searchLower) ||
-              record.operator.toLowerCase().includes(searchLower) ||
-              record.aPort?.toLowerCase().includes(searchLower) ||
-              record.bPort?.toLowerCase().includes(searchLower) ||
-              record.id.toLowerCase().includes(searchLower)
-            );
-          }
-          
-          // Date range filter
-          if (advancedFilters.dateRange.start || advancedFilters.dateRange.end) {
-            filtered = filtered.filter(record => {
-              const recordDate = record.startTimestamp;
-              if (advancedFilters.dateRange.start && recordDate < advancedFilters.dateRange.start) return false;
-              if (advancedFilters.dateRange.end && recordDate > advancedFilters.dateRange.end) return false;
-              return true;
-            });
-          }
-          
-          // Source IP filter
-          if (advancedFilters.sourceIP) {
-            filtered = filtered.filter(record => 
-              record.aParty.includes(advancedFilters.sourceIP)
-            );
-          }
-          
-          // Destination IP filter
-          if (advancedFilters.destinationIP) {
-            filtered = filtered.filter(record => 
-              record.bParty.includes(advancedFilters.destinationIP)
-            );
-          }
-          
-          // Subscriber ID filter (search in record ID or A-party)
-          if (advancedFilters.subscriberID) {
-            filtered = filtered.filter(record => 
-              record.id.includes(advancedFilters.subscriberID) ||
-              record.aParty.includes(advancedFilters.subscriberID)
-            );
-          }
-          
-          // Protocol filter
-          if (advancedFilters.protocol.length > 0) {
-            filtered = filtered.filter(record => 
-              advancedFilters.protocol.includes(record.protocol)
-            );
-          }
-          
-          // Operator filter
-          if (advancedFilters.operator.length > 0) {
-            filtered = filtered.filter(record => 
-              advancedFilters.operator.includes(record.operator)
-            );
-          }
-          
-          // Port range filter
-          if (advancedFilters.portRange.min !== null || advancedFilters.portRange.max !== null) {
-            filtered = filtered.filter(record => {
-              const srcPort = record.aPort ? parseInt(record.aPort) : 0;
-              const dstPort = record.bPort ? parseInt(record.bPort) : 0;
-              const minPort = advancedFilters.portRange.min || 0;
-              const maxPort = advancedFilters.portRange.max || 65535;
-              return (srcPort >= minPort && srcPort <= maxPort) || 
-                     (dstPort >= minPort && dstPort <= maxPort);
-            });
-          }
-          
-          // Bytes range filter
-          if (advancedFilters.bytesRange.min !== null || advancedFilters.bytesRange.max !== null) {
-            filtered = filtered.filter(record => {
-              const bytes = record.bytesTransferred;
-              const minBytes = advancedFilters.bytesRange.min || 0;
-              const maxBytes = advancedFilters.bytesRange.max || Infinity;
-              return bytes >= minBytes && bytes <= maxBytes;
-            });
+          const repository = getRecordRepository();
+          if (!repository || !state.currentCase) {
+            return state.records.filter(record => matchesAdvancedFilters(record, advancedFilters));
           }
-          
-          // Duration range filter
-          if (advancedFilters.durationRange.min !== null || advancedFilters.durationRange.max !== null) {
-            filtered = filtered.filter(record => {
-              const duration = record.duration;
-              const minDuration = advancedFilters.durationRange.min || 0;
-              const maxDuration = advancedFilters.durationRange.max || Infinity;
-              return duration >= minDuration && duration <= maxDuration;
-            });
-          }
-          
-          // Wireshark-style query parsing
-          if (advancedFilters.wiresharkQuery) {
-            const query = advancedFilters.wiresharkQuery.toLowerCase();
-            filtered = filtered.filter(record => {
-              // Parse simple Wireshark expressions
-              if (query.includes('ip.src')) {
-                const match = query.match(/ip\.src\s*==\s*([^\s]+)/);
-                if (match) {
-                  const ip = match[1].replace(/"/g, '');
-                  return record.aParty.includes(ip);
-                }
-              }
-              
-              if (query.includes('ip.dst')) {
-                const match = query.match(/ip\.dst\s*==\s*([^\s]+)/);
-                if (match) {
-                  const ip = match[1].replace(/"/g, '');
-                  return record.bParty.includes(ip);
-                }
-              }
-              
-              if (query.includes('tcp.port')) {
-                const match = query.match(/tcp\.port\s*==\s*(\d+)/);
-                if (match) {
-                  const port = parseInt(match[1]);
-                  const srcPort = record.aPort ? parseInt(record.aPort) : 0;
-                  const dstPort = record.bPort ? parseInt(record.bPort) : 0;
-                  return srcPort === port || dstPort === port;
-                }
-              }
-              
-              if (query.includes('udp.port')) {
-                const match = query.match(/udp\.port\s*==\s*(\d+)/);
-                if (match) {
-                  const port = parseInt(match[1]);
-                  const srcPort = record.aPort ? parseInt(record.aPort) : 0;
-                  const dstPort = record.bPort ? parseInt(record.bPort) : 0;
-                  return (record.protocol === 'UDP') && 
-                         (srcPort === port || dstPort === port);
-                }
-              }
-              
-              // Default: treat as global search
-              return record.aParty.toLowerCase().includes(query) ||
-                     record.bParty.toLowerCase().includes(query) ||
-                     record.protocol.toLowerCase().includes(query);
-            });
+          const { records } = await repository.queryRecords(state.currentCase.id, {
+            ranges: advancedFilterRanges(advancedFilters),
+            filter: record => matchesAdvancedFilters(record, advancedFilters),
+            limit: WORKING_SET_LIMIT
+          });
+          return records;
+        },
+
+        // CGNAT lookup: the case's sessions on the public IP, ranked by the resolver
+        resolvePublicIP: async (query) => {
+          const state = get();
+          const repository = getRecordRepository();
+          if (!repository || !state.currentCase) {
+            return resolvePublicIP(state.records, query);
           }
-          
-          return filtered;
+          const publicIP = canonicalizeIP(query.publicIP);
+          const { records } = await repository.queryRecords(state.currentCase.id, {
+            ranges: [{ index: 'publicIP', lower: publicIP, upper: publicIP }]
+          });
+          return resolvePublicIP(records, query);
         },
         
         optimizeMemory: () => set((state) => {
@@ -643,29 +625,40 @@ export const useAppStore = create<AppStore>()(
           });
         },
         
-        reset: () => set({
-          currentCase: null,
-          cases: [],
-          evidenceFiles: [],
-          records: [],
-          anomalies: [],
-          watchlist: [],
-          pagination: initialPagination,
-          memory: initialMemory,
-          isLoading: false,
-          error: null,
-          filters: initialFilters,
-          analytics: initialAnalytics,
-          graphData: initialGraphData
-        })
+        reset: () => {
+          workingSetGeneration++;
+          getRecordRepository()?.clear()
+            .catch((error: Error) => get().setError(`Failed to clear records: ${error.message}`));
+          set({
+            currentCase: null,
+            cases: [],
+            evidenceFiles: [],
+            records: [],
+            anomalies: [],
+            watchlist: [],
+            pagination: initialPagination,
+            memory: initialMemory,
+            isLoading: false,
+            error: null,
+            filters: initialFilters,
+            analytics: initialAnalytics,
+            graphData: initialGraphData
+          });
+        }
       }),
       {
         name: 'ipdr-intel-store',
         partialize: (state) => ({
           cases: state.cases,
           currentCase: state.currentCase,
-          watchlist: state.watchlist
-        })
+          watchlist: state.watchlist,
+          mappingTemplates: state.mappingTemplates,
+          customAnomalyRules: state.customAnomalyRules
+        }),
+        // Records are not persisted with the rest of the store; reload the current case's from the repository
+        onRehydrateStorage: () => (state) => {
+          if (state?.currentCase) state.loadCaseRecords(state.currentCase.id);
+        }
       }
     ),
     { name: 'ipdr-intel-store' }
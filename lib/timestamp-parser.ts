@@ -0,0 +1,270 @@
+// Timestamp parsing for operator IPDR layouts
+// Zone-less timestamps are read as wall-clock time in the declared source timezone
+// and converted to UTC, so results never depend on the investigator's machine.
+
+export type TimestampFormat =
+  | 'ISO8601'
+  | 'YYYY-MM-DD HH:mm:ss'
+  | 'DD/MM/YYYY HH:mm:ss'
+  | 'DD-MM-YYYY HH:mm:ss'
+  | 'MM/DD/YYYY HH:mm:ss'
+  | 'DD-MMM-YYYY HH:mm:ss'
+  | 'YYYYMMDDHHmmss'
+  | 'EPOCH_SECONDS'
+  | 'EPOCH_MILLIS';
+
+export const TIMESTAMP_FORMATS: TimestampFormat[] = [
+  'ISO8601',
+  'YYYY-MM-DD HH:mm:ss',
+  'DD/MM/YYYY HH:mm:ss',
+  'DD-MM-YYYY HH:mm:ss',
+  'MM/DD/YYYY HH:mm:ss',
+  'DD-MMM-YYYY HH:mm:ss',
+  'YYYYMMDDHHmmss',
+  'EPOCH_SECONDS',
+  'EPOCH_MILLIS'
+];
+
+export const DEFAULT_SOURCE_TIMEZONE = 'Asia/Kolkata';
+
+// Source timezones offered when an analyst declares how a file was written
+export const SOURCE_TIMEZONES: Array<{ value: string; label: string }> = [
+  { value: 'Asia/Kolkata', label: 'Asia/Kolkata (IST)' },
+  { value: 'UTC', label: 'UTC' },
+  { value: 'Asia/Dubai', label: 'Asia/Dubai (GST)' },
+  { value: 'Asia/Singapore', label: 'Asia/Singapore (SGT)' },
+  { value: 'Europe/London', label: 'Europe/London' },
+  { value: 'America/New_York', label: 'America/New_York' }
+];
+
+interface WallClockTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const MONTH_ABBREVIATIONS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+// Shared time-of-day suffix: HH:mm with optional seconds and fraction
+const TIME_PART = '(\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.(\\d{1,6}))?)?';
+
+const PATTERNS: Record<Exclude<TimestampFormat, 'ISO8601' | 'EPOCH_SECONDS' | 'EPOCH_MILLIS'>, RegExp> = {
+  'YYYY-MM-DD HH:mm:ss': new RegExp(`^(\\d{4})-(\\d{1,2})-(\\d{1,2})\\s+${TIME_PART}$`),
+  'DD/MM/YYYY HH:mm:ss': new RegExp(`^(\\d{1,2})\\/(\\d{1,2})\\/(\\d{4})\\s+${TIME_PART}$`),
+  'DD-MM-YYYY HH:mm:ss': new RegExp(`^(\\d{1,2})-(\\d{1,2})-(\\d{4})\\s+${TIME_PART}$`),
+  'MM/DD/YYYY HH:mm:ss': new RegExp(`^(\\d{1,2})\\/(\\d{1,2})\\/(\\d{4})\\s+${TIME_PART}$`),
+  'DD-MMM-YYYY HH:mm:ss': new RegExp(`^(\\d{1,2})[-\\s]([A-Za-z]{3})[-\\s](\\d{4})\\s+${TIME_PART}$`),
+  'YYYYMMDDHHmmss': /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/
+};
+
+const ISO_PATTERN = new RegExp(
+  `^(\\d{4})-(\\d{2})-(\\d{2})[T ]${TIME_PART}(Z|[+-]\\d{2}:?\\d{2})?$`,
+  'i'
+);
+
+function toMillis(fraction: string | undefined): number {
+  return fraction ? Math.round(parseFloat(`0.${fraction}`) * 1000) : 0;
+}
+
+function isValidWallClock(t: WallClockTime): boolean {
+  if (t.month < 1 || t.month > 12) return false;
+  if (t.hour > 23 || t.minute > 59 || t.second > 59) return false;
+  const daysInMonth = new Date(Date.UTC(t.year, t.month, 0)).getUTCDate();
+  return t.day >= 1 && t.day <= daysInMonth;
+}
+
+// Intl formatters are expensive to construct, so keep one per zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Offset (ms) of the zone from UTC at the given instant
+export function getTimeZoneOffset(utcMillis: number, timeZone: string): number {
+  const parts = getZoneFormatter(timeZone).formatToParts(new Date(utcMillis));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - (utcMillis - (((utcMillis % 1000) + 1000) % 1000));
+}
+
+// Convert wall-clock time in a zone to the corresponding UTC instant
+export function zonedTimeToUtc(t: WallClockTime, timeZone: string): Date {
+  const guess = Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second, t.millisecond);
+  const offset = getTimeZoneOffset(guess, timeZone);
+  let utc = guess - offset;
+  // Re-check once in case the guess straddled a DST transition
+  const correctedOffset = getTimeZoneOffset(utc, timeZone);
+  if (correctedOffset !== offset) {
+    utc = guess - correctedOffset;
+  }
+  return new Date(utc);
+}
+
+function parseWithFormat(value: string, format: TimestampFormat, timeZone: string): Date | null {
+  switch (format) {
+    case 'EPOCH_SECONDS': {
+      if (!/^\d{9,10}(\.\d+)?$/.test(value)) return null;
+      return new Date(Math.round(parseFloat(value) * 1000));
+    }
+    case 'EPOCH_MILLIS': {
+      if (!/^\d{12,13}$/.test(value)) return null;
+      return new Date(parseInt(value, 10));
+    }
+    case 'ISO8601': {
+      const match = value.match(ISO_PATTERN);
+      if (!match) return null;
+      const [, year, month, day, hour, minute, second, fraction, zone] = match;
+      const t: WallClockTime = {
+        year: +year, month: +month, day: +day,
+        hour: +hour, minute: +minute, second: +(second || 0),
+        millisecond: toMillis(fraction)
+      };
+      if (!isValidWallClock(t)) return null;
+      if (zone) {
+        // Explicit zone designator wins over the declared source timezone
+        const date = new Date(value.replace(' ', 'T'));
+        return isNaN(date.getTime()) ? null : date;
+      }
+      return zonedTimeToUtc(t, timeZone);
+    }
+    default: {
+      const match = value.match(PATTERNS[format]);
+      if (!match) return null;
+      let t: WallClockTime;
+      const [, a, b, c, hour, minute, second, fraction] = match;
+      const time = { hour: +hour, minute: +minute, second: +(second || 0), millisecond: toMillis(fraction) };
+
+      switch (format) {
+        case 'YYYY-MM-DD HH:mm:ss':
+          t = { year: +a, month: +b, day: +c, ...time };
+          break;
+        case 'DD/MM/YYYY HH:mm:ss':
+        case 'DD-MM-YYYY HH:mm:ss':
+          t = { year: +c, month: +b, day: +a, ...time };
+          break;
+        case 'MM/DD/YYYY HH:mm:ss':
+          t = { year: +c, month: +a, day: +b, ...time };
+          break;
+        case 'DD-MMM-YYYY HH:mm:ss': {
+          const monthIndex = MONTH_ABBREVIATIONS[b.toLowerCase()];
+          if (!monthIndex) return null;
+          t = { year: +c, month: monthIndex, day: +a, ...time };
+          break;
+        }
+        case 'YYYYMMDDHHmmss':
+          t = {
+            year: +match[1], month: +match[2], day: +match[3],
+            hour: +match[4], minute: +match[5], second: +match[6], millisecond: 0
+          };
+          break;
+        default:
+          return null;
+      }
+
+      if (!isValidWallClock(t)) return null;
+      return zonedTimeToUtc(t, timeZone);
+    }
+  }
+}
+
+// Parse a timestamp trying each declared format in order
+export function parseTimestamp(
+  value: string,
+  formats: TimestampFormat[] = TIMESTAMP_FORMATS,
+  timeZone: string = DEFAULT_SOURCE_TIMEZONE
+): Date | null {
+  // Remove any quotes and trim
+  const cleaned = value.replace(/['"]/g, '').trim();
+  if (!cleaned) return null;
+
+  for (const format of formats) {
+    const date = parseWithFormat(cleaned, format, timeZone);
+    if (date && !isNaN(date.getTime())) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+// Find the first format (in the given order) that parses every sample value
+export function detectTimestampFormat(
+  samples: string[],
+  formats: TimestampFormat[] = TIMESTAMP_FORMATS
+): TimestampFormat | null {
+  const values = samples.map(s => s.replace(/['"]/g, '').trim()).filter(Boolean);
+  if (values.length === 0) return null;
+
+  for (const format of formats) {
+    if (values.every(value => parseWithFormat(value, format, 'UTC') !== null)) {
+      return format;
+    }
+  }
+
+  return null;
+}
+
+export type DayMonthOrder = 'day-first' | 'month-first' | 'ambiguous';
+
+// Numeric dates such as 03/04/2024 or 03-04-2024, whose first two parts may be day or month
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})[/-](\d{1,2})[/-]\d{4}(?:\s|$)/;
+
+// Work out whether numeric dates are day-first or month-first from the values themselves.
+// Only a part above 12 settles it; when no value has one the order is ambiguous and
+// must be confirmed rather than guessed. Returns null when there are no such dates.
+export function detectDayMonthOrder(samples: string[]): DayMonthOrder | null {
+  let dayFirst = false;
+  let monthFirst = false;
+  let distinct = false;
+
+  for (const sample of samples) {
+    const match = sample.replace(/['"]/g, '').trim().match(NUMERIC_DATE_PATTERN);
+    if (!match) continue;
+    const first = +match[1];
+    const second = +match[2];
+    if (first > 12) dayFirst = true;
+    if (second > 12) monthFirst = true;
+    if (first !== second) distinct = true;
+  }
+
+  if (dayFirst !== monthFirst) return dayFirst ? 'day-first' : 'month-first';
+  // Contradictory values are left to row validation to reject
+  if (dayFirst && monthFirst) return null;
+  return distinct ? 'ambiguous' : null;
+}
+
+// The day/month order a format declares, for numeric date formats
+export function formatDayMonthOrder(format: TimestampFormat): DayMonthOrder | null {
+  switch (format) {
+    case 'DD/MM/YYYY HH:mm:ss':
+    case 'DD-MM-YYYY HH:mm:ss':
+      return 'day-first';
+    case 'MM/DD/YYYY HH:mm:ss':
+      return 'month-first';
+    default:
+      return null;
+  }
+}
@@ -1,14 +1,22 @@
 // Core Types for IPDR-Intel+ Demo
+import type { TimestampFormat } from './timestamp-parser';
+
 export type TelecomOperator = 'airtel' | 'jio' | 'vodafone' | 'bsnl';
 
 export interface Geolocation {
   country: string;
   region: string;
   city: string;
-  latitude: number;
-  longitude: number;
+  latitude?: number; // Absent when the IP intelligence source has no coordinates
+  longitude?: number;
   timezone: string;
   isp: string;
+  asn?: number;
+  organization?: string; // Organization registered for the ASN
+  // Serving cell, when the location was resolved from a cell-site registry
+  cgi?: string;
+  azimuth?: number;
+  address?: string;
 }
 
 export interface PersonMapping {
@@ -43,10 +51,39 @@ export interface IPDRRecord {
   sourceFileId: string;
   rawRowHash: string;
   operator: TelecomOperator;
+  // Subscriber, device and location identifiers, when the operator supplies them
+  subscriberID?: string; // MSISDN or operator subscriber ID
+  imsi?: string;
+  imei?: string;
+  apn?: string;
+  cellID?: string;
+  lac?: string;
+  // Carrier-grade NAT translation: the public address and port the session left the network on
+  publicIP?: string;
+  publicPort?: string;
+  duplicateOf?: string; // Earlier record with the same rawRowHash, when kept as a linked duplicate
+  application?: string; // Application matched from destination IP, port and protocol (see app-signatures)
   aPartyLocation?: Geolocation;
   bPartyLocation?: Geolocation;
 }
 
+// What to do with records that repeat ones already in the case
+export type DuplicateAction = 'skip' | 'link';
+
+export type ParseIssueCode = 'missing_field' | 'bad_date' | 'negative_duration' | 'bad_ip' | 'unreadable_row';
+
+// Errors reject the row; warnings keep it with the problem noted
+export type ParseIssueSeverity = 'error' | 'warning';
+
+export interface ParseIssue {
+  rowNumber: number; // 1-based source row (header is row 1 in a plain CSV)
+  sheet?: string; // Workbook sheet, for Excel evidence
+  rawLine: string;
+  code: ParseIssueCode;
+  severity: ParseIssueSeverity;
+  message: string;
+}
+
 export interface EvidenceFile {
   id: string;
   caseId: string;
@@ -60,6 +97,13 @@ export interface EvidenceFile {
   status: 'uploading' | 'parsing' | 'completed' | 'error';
   recordCount?: number;
   errorCount?: number;
+  parseIssues?: ParseIssue[];
+  parentId?: string; // Archive this file was extracted from
+  archivePath?: string; // Path of the member inside the parent archive
+  sourceTimezone?: string; // IANA zone zone-less timestamps were read in
+  timestampFormats?: TimestampFormat[]; // Formats tried, in order, for this file's timestamps
+  duplicateCount?: number; // Records that repeated earlier evidence in the case
+  duplicateAction?: DuplicateAction;
 }
 
 export interface Case {
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { XMLRecordParser, parseXML } from './xml-parser';
+import { processAirtelFile } from './processing';
+
+const IPDR_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- BSNL IPDR export -->
+<ipdr:IPDRDoc xmlns:ipdr="http://www.ipdr.org/namespaces/ipdr" docId="42">
+  <ipdr:IPDR seq="1">
+    <ipdr:Subscriber><ipdr:MDN>919400000001</ipdr:MDN></ipdr:Subscriber>
+    <ipdr:Session start="2024-03-01T10:00:00" end="2024-03-01T10:05:00">
+      <ipdr:SRC_IP_ADDR>10.20.0.5</ipdr:SRC_IP_ADDR>
+      <ipdr:DST_IP_ADDR>142.250.182.14</ipdr:DST_IP_ADDR>
+      <ipdr:Protocol>TCP</ipdr:Protocol>
+    </ipdr:Session>
+    <ipdr:APN><![CDATA[bsnlnet <prepaid>]]></ipdr:APN>
+    <ipdr:CGI>404-72-1</ipdr:CGI>
+    <ipdr:CGI>404-72-2</ipdr:CGI>
+  </ipdr:IPDR>
+  <ipdr:IPDR seq="2">
+    <ipdr:Session start="2024-03-01T11:00:00" end="2024-03-01T11:01:00">
+      <ipdr:SRC_IP_ADDR>10.20.0.6</ipdr:SRC_IP_ADDR>
+      <ipdr:DST_IP_ADDR>not-an-ip</ipdr:DST_IP_ADDR>
+      <ipdr:Protocol>UDP &amp; more</ipdr:Protocol>
+    </ipdr:Session>
+  </ipdr:IPDR>
+</ipdr:IPDRDoc>`;
+
+describe('xml parser', () => {
+  it('flattens namespaced, nested session elements into path-keyed rows', () => {
+    const rows = parseXML(IPDR_XML, ['IPDR']);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      '@seq': '1',
+      'Subscriber/MDN': '919400000001',
+      'Session/@start': '2024-03-01T10:00:00',
+      'Session/SRC_IP_ADDR': '10.20.0.5',
+      'APN': 'bsnlnet <prepaid>',
+      'CGI': '404-72-1;404-72-2'
+    });
+    expect(rows[1]['Session/Protocol']).toBe('UDP & more');
+    expect(rows[1]['Subscriber/MDN']).toBe('');
+  });
+
+  it('produces the same rows however the text is chunked', () => {
+    const expected = new XMLRecordParser(['IPDRDoc/IPDR']);
+    const whole = [...expected.push(IPDR_XML), ...expected.end()];
+    for (let split = 1; split < IPDR_XML.length; split += 7) {
+      const parser = new XMLRecordParser(['IPDRDoc/IPDR']);
+      const rows = [...parser.push(IPDR_XML.slice(0, split)), ...parser.push(IPDR_XML.slice(split)), ...parser.end()];
+      expect(rows).toEqual(whole);
+    }
+  });
+
+  it('processes an XML export through the operator profile', async () => {
+    const file = new File([IPDR_XML], 'bsnl_sessions.xml', { type: 'application/xml' });
+    const { evidence, records } = await processAirtelFile(file, 'caseX', undefined, { operator: 'bsnl' });
+    expect(records).toHaveLength(1);
+    expect(records[0].aParty).toBe('10.20.0.5');
+    expect(records[0].duration).toBe(300);
+    expect(evidence.errorCount).toBe(1);
+    expect(evidence.parseIssues?.[0]).toMatchObject({ rowNumber: 2, code: 'bad_ip' });
+  });
+});
@@ -0,0 +1,269 @@
+// Streaming XML parser for IPDR session exports (IPDR.org/TMF and 3GPP-style layouts)
+// Each repeated session element becomes one row keyed by element path relative to the
+// session, e.g. "Subscriber/MSISDN" or "Session/@start" for attributes. Namespace
+// prefixes are dropped, so <ipdr:IPDR> and <IPDR> are the same element.
+
+// Session elements recognised when the profile does not name its own
+export const DEFAULT_XML_RECORD_ELEMENTS = ['IPDR', 'IPDRRecord', 'SessionRecord', 'Session', 'Record', 'CDR'];
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+export function isXMLFile(filename: string): boolean {
+  return filename.toLowerCase().endsWith('.xml');
+}
+
+export function decodeXMLEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function localName(qualifiedName: string): string {
+  const colon = qualifiedName.indexOf(':');
+  return colon >= 0 ? qualifiedName.slice(colon + 1) : qualifiedName;
+}
+
+// Index of the '>' closing a tag, skipping any inside quoted attribute values
+function findTagEnd(text: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+interface OpenElement {
+  name: string; // Local name
+  path: string; // Path relative to the session element
+  text: string;
+  hasChildren: boolean;
+}
+
+// Everything the parser carries between chunks, for parse checkpoints
+export interface XMLRecordParserState {
+  format: 'xml';
+  buffer: string;
+  stack: string[];
+  recordDepth: number;
+  open: OpenElement[];
+  row: Record<string, string>;
+  headers: string[];
+}
+
+export class XMLRecordParser {
+  private recordPaths: string[][];
+  private buffer = '';
+  private stack: string[] = []; // Local names of all open elements
+  private recordDepth = -1; // Stack depth of the open session element, -1 when outside one
+  private open: OpenElement[] = []; // Elements open inside the session
+  private row: Record<string, string> = {};
+  private headerSet = new Set<string>();
+  headers: string[] = []; // Every key seen so far, in first-seen order
+
+  // Record elements are local names or slash paths matched against the end of the element path
+  constructor(recordElements: string[] = DEFAULT_XML_RECORD_ELEMENTS) {
+    this.recordPaths = recordElements.map(element => element.split('/').map(localName).map(s => s.toLowerCase()));
+  }
+
+  push(text: string): Array<Record<string, string>> {
+    this.buffer += text;
+    return this.scan();
+  }
+
+  end(): Array<Record<string, string>> {
+    const rows = this.scan();
+    if (this.recordDepth >= 0) {
+      console.warn('XML ended inside an open session element; the partial record was dropped');
+    }
+    this.buffer = '';
+    return rows;
+  }
+
+  saveState(): XMLRecordParserState {
+    return {
+      format: 'xml',
+      buffer: this.buffer,
+      stack: [...this.stack],
+      recordDepth: this.recordDepth,
+      open: this.open.map(element => ({ ...element })),
+      row: { ...this.row },
+      headers: [...this.headers]
+    };
+  }
+
+  restoreState(state: XMLRecordParserState) {
+    this.buffer = state.buffer;
+    this.stack = [...state.stack];
+    this.recordDepth = state.recordDepth;
+    this.open = state.open.map(element => ({ ...element }));
+    this.row = { ...state.row };
+    this.headers = [...state.headers];
+    this.headerSet = new Set(state.headers);
+  }
+
+  private scan(): Array<Record<string, string>> {
+    const rows: Array<Record<string, string>> = [];
+    const text = this.buffer;
+    let i = 0;
+
+    while (i < text.length) {
+      const lt = text.indexOf('<', i);
+      // Trailing text may end mid-entity; it is read once the next tag arrives
+      if (lt === -1) break;
+      if (lt > i) this.appendText(text.slice(i, lt));
+
+      // Comments, CDATA, declarations and processing instructions
+      if (text.startsWith('<!--', lt)) {
+        const close = text.indexOf('-->', lt + 4);
+        if (close === -1) { i = lt; break; }
+        i = close + 3;
+        continue;
+      }
+      if (text.startsWith('<![CDATA[', lt)) {
+        const close = text.indexOf(']]>', lt + 9);
+        if (close === -1) { i = lt; break; }
+        this.appendText(text.slice(lt + 9, close), true);
+        i = close + 3;
+        continue;
+      }
+      if (text.startsWith('<?', lt)) {
+        const close = text.indexOf('?>', lt + 2);
+        if (close === -1) { i = lt; break; }
+        i = close + 2;
+        continue;
+      }
+      if (text.startsWith('<!', lt)) {
+        const close = text.indexOf('>', lt + 2);
+        if (close === -1) { i = lt; break; }
+        i = close + 1;
+        continue;
+      }
+
+      const gt = findTagEnd(text, lt + 1);
+      if (gt === -1) { i = lt; break; }
+      const tag = text.slice(lt + 1, gt);
+      i = gt + 1;
+
+      if (tag.startsWith('/')) {
+        const row = this.closeElement();
+        if (row) rows.push(row);
+      } else {
+        const selfClosing = tag.endsWith('/');
+        const body = selfClosing ? tag.slice(0, -1) : tag;
+        const nameEnd = body.search(/\s|$/);
+        this.openElement(localName(body.slice(0, nameEnd)), body.slice(nameEnd));
+        if (selfClosing) {
+          const row = this.closeElement();
+          if (row) rows.push(row);
+        }
+      }
+    }
+
+    // Keep any incomplete construct for the next chunk
+    this.buffer = text.slice(i);
+    return rows;
+  }
+
+  private isRecordElement(): boolean {
+    const names = this.stack.map(name => name.toLowerCase());
+    return this.recordPaths.some(path =>
+      path.length <= names.length && path.every((segment, idx) => names[names.length - path.length + idx] === segment)
+    );
+  }
+
+  private openElement(name: string, attributeText: string) {
+    this.stack.push(name);
+
+    if (this.recordDepth < 0) {
+      if (!this.isRecordElement()) return;
+      this.recordDepth = this.stack.length;
+      this.row = {};
+      this.open = [{ name, path: '', text: '', hasChildren: false }];
+    } else {
+      const parent = this.open[this.open.length - 1];
+      parent.hasChildren = true;
+      this.open.push({ name, path: parent.path ? `${parent.path}/${name}` : name, text: '', hasChildren: false });
+    }
+
+    const element = this.open[this.open.length - 1];
+    ATTRIBUTE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ATTRIBUTE_PATTERN.exec(attributeText)) !== null) {
+      const attribute = match[1];
+      // Namespace declarations and schema hints are not data
+      if (attribute === 'xmlns' || attribute.startsWith('xmlns:') || attribute.startsWith('xsi:')) continue;
+      const key = element.path ? `${element.path}/@${localName(attribute)}` : `@${localName(attribute)}`;
+      this.setValue(key, decodeXMLEntities(match[3] ?? match[4] ?? ''));
+    }
+  }
+
+  private closeElement(): Record<string, string> | null {
+    this.stack.pop();
+    if (this.recordDepth < 0) return null;
+
+    const element = this.open.pop()!;
+    if (this.open.length === 0) {
+      // Session element closed
+      this.recordDepth = -1;
+      const row = this.row;
+      this.row = {};
+      return row;
+    }
+
+    const value = element.text.trim();
+    if (!element.hasChildren && value) {
+      this.setValue(element.path, value);
+    }
+    return null;
+  }
+
+  private appendText(text: string, isCData = false) {
+    const element = this.open[this.open.length - 1];
+    if (this.recordDepth < 0 || !element) return;
+    element.text += isCData ? text : decodeXMLEntities(text);
+  }
+
+  private setValue(key: string, value: string) {
+    // Repeated elements (e.g. several cell IDs) are kept together
+    this.row[key] = this.row[key] ? `${this.row[key]};${value}` : value;
+    if (!this.headerSet.has(key)) {
+      this.headerSet.add(key);
+      this.headers.push(key);
+    }
+  }
+}
+
+// Parse a complete XML document into session rows
+export function parseXML(text: string, recordElements?: string[]): Array<Record<string, string>> {
+  const parser = new XMLRecordParser(recordElements);
+  const rows = [...parser.push(text), ...parser.end()];
+  // Give every row the same keys, like a delimited file
+  return rows.map(row => {
+    const complete: Record<string, string> = {};
+    parser.headers.forEach(header => {
+      complete[header] = row[header] ?? '';
+    });
+    return complete;
+  });
+}
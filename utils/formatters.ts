@@ -1,5 +1,6 @@
 // Utility functions for formatting data in the demo
 import { TelecomOperator } from '@/lib/types';
+import { abbreviateIP, canonicalizeIP, isIPv4, isIPv6 } from '@/lib/ip-address';
 
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
@@ -154,9 +155,18 @@ export function validatePhoneNumber(phone: string): boolean {
   return phoneRegex.test(phone);
 }
 
+// IPv4, or IPv6 in compressed or expanded form with an optional zone ID
 export function validateIPAddress(ip: string): boolean {
-  const ipRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
-  return ipRegex.test(ip);
+  return isIPv4(ip) || isIPv6(ip);
+}
+
+// The same address reads the same in the records table, the graph and reports
+export function formatIPAddress(ip: string): string {
+  return canonicalizeIP(ip);
+}
+
+export function formatIPAddressShort(ip: string, maxLength: number = 10): string {
+  return abbreviateIP(canonicalizeIP(ip), maxLength);
 }
 
 export function calculateUptime(startTime: Date): string {